@@ -7,8 +7,27 @@ import StudentDetailView from './components/StudentDetailView.tsx';
 import ExamManagement from './components/ExamManagement.tsx';
 import Analytics from './components/Analytics.tsx';
 import Settings from './components/Settings.tsx';
-import { ViewMode, Student, Exam, SupabaseConfig } from './types.ts';
-import { createClient } from '@supabase/supabase-js';
+import ClassManagement from './components/ClassManagement.tsx';
+import QuestionBank from './components/QuestionBank.tsx';
+import SyncQueueModal from './components/SyncQueueModal.tsx';
+import LoginScreen from './components/LoginScreen.tsx';
+import ConflictMergeModal, { ConflictResolution } from './components/ConflictMergeModal.tsx';
+import AuditHistoryModal from './components/AuditHistoryModal.tsx';
+import { ViewMode, Student, Exam, ClassGroup, SupabaseConfig, ScoreEntry, UserProfile, UserRole, AuditEntry, BankItem } from './types.ts';
+import { createClient, SupabaseClient, Session } from '@supabase/supabase-js';
+import { diffScores, upsertScoreInExams, removeScoreFromExams, groupScoreRows } from './utils/syncUtils.ts';
+import {
+  AckedRow, OutboxItem, OutboxOp, loadOutbox, enqueueOutbox, processOutbox, removeOutboxItem, resetOutboxItems
+} from './services/outboxService.ts';
+import {
+  SyncBase, SyncConflicts, loadSyncBase, saveSyncBase, stampRecord, reconcileStudents, reconcileExams, selectLocalUploads
+} from './utils/conflictUtils.ts';
+import { LATEST_SCHEMA_VERSION, AUTH_SCHEMA_VERSION, AUDIT_SCHEMA_VERSION, BANK_SCHEMA_VERSION } from './utils/migrationUtils.ts';
+import { buildPermissions, FULL_ACCESS } from './utils/authUtils.ts';
+import { isFinalizedExam } from './utils/gradingUtils.ts';
+import { AuditContext, auditStudentChange, auditExamChange, auditBackupRestore, hasExamMetaChanged } from './utils/auditUtils.ts';
+import { BackupContent } from './utils/backupUtils.ts';
+import { appendAuditEntries, loadAuditEntries, getDeviceId } from './services/auditService.ts';
 
 // Supabase DB 필드와 앱 모델 간의 변환 유틸리티
 const mapStudentToDB = (s: Student) => ({
@@ -17,7 +36,9 @@ const mapStudentToDB = (s: Student) => ({
   school: s.school,
   phone: s.phone,
   note: s.note,
-  created_at: s.createdAt
+  created_at: s.createdAt,
+  updated_at: s.updatedAt,
+  revision: s.revision
 });
 
 const mapStudentFromDB = (row: any): Student => ({
@@ -26,7 +47,9 @@ const mapStudentFromDB = (row: any): Student => ({
   school: row.school,
   phone: row.phone,
   note: row.note,
-  createdAt: row.created_at
+  createdAt: row.created_at,
+  updatedAt: row.updated_at ?? undefined,
+  revision: row.revision ?? undefined
 });
 
 const mapExamToDB = (e: Exam) => ({
@@ -37,10 +60,19 @@ const mapExamToDB = (e: Exam) => ({
   total_questions: e.totalQuestions,
   max_score: e.maxScore,
   pass_threshold: e.passThreshold,
+  ranking_mode: e.rankingMode,
+  grade_scale: e.gradeScale,
+  ai_report: e.aiReport,
   // Fix: Property 'questionPoints' does not exist on type 'Exam'.
   questions: e.questions,
   target_schools: e.targetSchools,
-  scores: e.scores
+  target_class_ids: e.targetClassIds,
+  grader_ids: e.graderIds ?? [],
+  status: e.status ?? 'FINAL',
+  omr_roster: e.omrRoster ?? null,
+  updated_at: e.updatedAt,
+  revision: e.revision
+  // 성적은 exam_scores 테이블에 학생별 행으로 저장
 });
 
 const mapExamFromDB = (row: any): Exam => ({
@@ -51,19 +83,200 @@ const mapExamFromDB = (row: any): Exam => ({
   totalQuestions: row.total_questions,
   maxScore: row.max_score,
   passThreshold: row.pass_threshold,
+  rankingMode: row.ranking_mode ?? undefined,
+  gradeScale: row.grade_scale ?? undefined,
+  aiReport: row.ai_report ?? undefined,
   // Fix: Object literal may only specify known properties, and 'questionPoints' does not exist in type 'Exam'.
   questions: row.questions,
   targetSchools: row.target_schools,
-  scores: row.scores
+  targetClassIds: row.target_class_ids ?? undefined,
+  graderIds: row.grader_ids ?? undefined,
+  status: row.status ?? undefined,
+  omrRoster: row.omr_roster ?? undefined,
+  updatedAt: row.updated_at ?? undefined,
+  revision: row.revision ?? undefined,
+  // 이전 버전의 JSONB blob (exam_scores 이전 전까지만 사용)
+  scores: Array.isArray(row.scores) ? row.scores : []
+});
+
+const mapScoreToDB = (examId: string, s: ScoreEntry) => ({
+  exam_id: examId,
+  student_id: s.studentId,
+  score: s.score,
+  wrong_questions: s.wrongQuestions ?? [],
+  answers: s.studentAnswers ?? null,
+  updated_at: Date.now()
+});
+
+const mapScoreFromDB = (row: any): ScoreEntry => ({
+  studentId: row.student_id,
+  score: Number(row.score),
+  wrongQuestions: row.wrong_questions || [],
+  studentAnswers: row.answers ?? undefined
+});
+
+const mapAuditToDB = (a: AuditEntry) => ({
+  id: a.id,
+  entity: a.entity,
+  action: a.action,
+  entity_id: a.entityId,
+  exam_id: a.examId ?? null,
+  student_id: a.studentId ?? null,
+  summary: a.summary,
+  before: a.before ?? null,
+  after: a.after ?? null,
+  actor_id: a.actorId ?? null,
+  actor: a.actor,
+  device_id: a.deviceId,
+  created_at: a.createdAt,
+  revert_of: a.revertOf ?? null
+});
+
+const mapAuditFromDB = (row: any): AuditEntry => ({
+  id: row.id,
+  entity: row.entity,
+  action: row.action,
+  entityId: row.entity_id,
+  examId: row.exam_id ?? undefined,
+  studentId: row.student_id ?? undefined,
+  summary: row.summary || '',
+  before: row.before ?? undefined,
+  after: row.after ?? undefined,
+  actorId: row.actor_id ?? undefined,
+  actor: row.actor || '',
+  deviceId: row.device_id || '',
+  createdAt: Number(row.created_at),
+  revertOf: row.revert_of ?? undefined
+});
+
+// 서버 schema_version 조회. 테이블이 없으면 버전 관리 이전 DB(0), 그 외 오류는 확인 불가(null)
+const fetchSchemaVersion = async (client: SupabaseClient): Promise<number | null> => {
+  const { data, error } = await client.from('schema_version').select('version').order('version', { ascending: false }).limit(1);
+  if (error) return error.code === '42P01' || error.code === 'PGRST205' ? 0 : null;
+  return data && data.length > 0 ? Number(data[0].version) : 0;
+};
+
+// 시험 + 학생별 성적 행을 불러와 조립. 성적 행이 없는 옛 blob 시험은 exam_scores로 이전
+const fetchCloudExams = async (client: SupabaseClient): Promise<Exam[] | null> => {
+  const { data: eRows, error: eErr } = await client.from('exams').select('*');
+  if (eErr || !eRows) return null;
+  const { data: scRows, error: scErr } = await client.from('exam_scores').select('*');
+  if (scErr) {
+    console.warn("exam_scores table missing, falling back to JSONB scores:", scErr.message);
+    return eRows.map(mapExamFromDB);
+  }
+
+  const scoresByExam = groupScoreRows(scRows || []);
+  const exams = eRows.map(row => {
+    const exam = mapExamFromDB(row);
+    const rows = scoresByExam.get(exam.id);
+    return rows ? { ...exam, scores: rows.map(mapScoreFromDB) } : exam;
+  });
+
+  for (const exam of exams) {
+    if (scoresByExam.has(exam.id) || exam.scores.length === 0) continue;
+    const { error } = await client.from('exam_scores').upsert(exam.scores.map(s => mapScoreToDB(exam.id, s)));
+    if (error) {
+      console.error("Legacy score migration failed:", exam.id, error);
+      continue;
+    }
+    await client.from('exams').update({ scores: null }).eq('id', exam.id);
+  }
+  return exams;
+};
+
+const mapClassToDB = (c: ClassGroup) => ({
+  id: c.id,
+  name: c.name,
+  teacher: c.teacher,
+  schedule: c.schedule,
+  student_ids: c.studentIds,
+  created_at: c.createdAt,
+  teacher_id: c.teacherId ?? null
+});
+
+const mapClassFromDB = (row: any): ClassGroup => ({
+  id: row.id,
+  name: row.name,
+  teacher: row.teacher,
+  schedule: row.schedule || [],
+  studentIds: row.student_ids || [],
+  createdAt: row.created_at,
+  teacherId: row.teacher_id ?? undefined
+});
+
+const mapBankItemToDB = (item: BankItem) => ({
+  id: item.id,
+  stem: item.stem,
+  choices: item.choices ?? null,
+  type: item.type,
+  answer: item.answer,
+  point: item.point,
+  ignore_case: item.ignoreCase ?? null,
+  allow_partial: item.allowPartial ?? null,
+  explanation: item.explanation ?? null,
+  tags: item.tags ?? [],
+  source: item.source ?? null,
+  difficulty: item.difficulty ?? null,
+  created_at: item.createdAt,
+  updated_at: item.updatedAt ?? null
+});
+
+const mapBankItemFromDB = (row: any): BankItem => ({
+  id: row.id,
+  stem: row.stem,
+  choices: row.choices ?? undefined,
+  type: row.type,
+  answer: row.answer,
+  point: Number(row.point),
+  ignoreCase: row.ignore_case ?? undefined,
+  allowPartial: row.allow_partial ?? undefined,
+  explanation: row.explanation ?? undefined,
+  tags: row.tags || [],
+  source: row.source ?? undefined,
+  difficulty: row.difficulty ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at ?? undefined
+});
+
+const mapProfileFromDB = (row: any): UserProfile => ({
+  id: row.id,
+  email: row.email || '',
+  displayName: row.display_name ?? undefined,
+  role: row.role
 });
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewMode>(ViewMode.DASHBOARD);
   const [students, setStudents] = useState<Student[]>([]);
   const [exams, setExams] = useState<Exam[]>([]);
+  const [classes, setClasses] = useState<ClassGroup[]>([]);
+  const [questionBank, setQuestionBank] = useState<BankItem[]>([]);
   const [loading, setLoading] = useState(true);
   const isInitialized = useRef(false);
 
+  // 서버 전송 대기열 (IndexedDB outbox)
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [showSyncQueue, setShowSyncQueue] = useState(false);
+  const isFlushing = useRef(false);
+  const flushRequested = useRef(false);
+  const retryTimer = useRef<number | undefined>(undefined);
+
+  // 충돌 감지: 레코드별 마지막 동기화 버전과 병합 대기 중인 충돌
+  const syncBase = useRef<SyncBase>(loadSyncBase());
+  const revertingAuditId = useRef<string | undefined>(undefined); // 되돌리기 중 생기는 이력에 원래 기록 id 표시
+  const [historyTarget, setHistoryTarget] = useState<{ title: string; examId?: string; studentId?: string } | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflicts | null>(null);
+  const [schemaVersion, setSchemaVersion] = useState<number | null>(null);
+
+  // 로그인 계정과 역할 (스키마 v4 이후)
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const sessionUserId = session?.user.id;
+
   const [sbConfig, setSbConfig] = useState<SupabaseConfig | null>(() => {
     const saved = localStorage.getItem('supabase_config');
     return saved ? JSON.parse(saved) : null;
@@ -81,6 +294,39 @@ const App: React.FC = () => {
     return null;
   }, [sbConfig]);
 
+  useEffect(() => {
+    if (!supabase) return;
+    supabase.auth.getSession().then(({ data }) => setSession(data.session));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => subscription.unsubscribe();
+  }, [supabase]);
+
+  useEffect(() => {
+    if (!supabase || !sessionUserId) {
+      setProfile(null);
+      setProfiles([]);
+      return;
+    }
+    const loadProfiles = async () => {
+      const { data, error } = await supabase.from('profiles').select('*');
+      if (error) {
+        console.error("Profile load error:", error);
+        return;
+      }
+      const list = (data || []).map(mapProfileFromDB);
+      setProfiles(list);
+      setProfile(list.find(p => p.id === sessionUserId) || null);
+    };
+    loadProfiles();
+  }, [supabase, sessionUserId]);
+
+  const isAuthRequired = !!supabase && ((schemaVersion ?? 0) >= AUTH_SCHEMA_VERSION || !!session);
+  // 프로필을 아직 못 불러왔으면 가장 낮은 권한으로 취급
+  const permissions = useMemo(
+    () => isAuthRequired ? buildPermissions(profile?.role ?? 'GRADER', sessionUserId) : FULL_ACCESS,
+    [isAuthRequired, profile, sessionUserId]
+  );
+
   // 데이터 로드 및 병합 로직
   useEffect(() => {
     const initData = async () => {
@@ -88,44 +334,65 @@ const App: React.FC = () => {
       
       let localStudents: Student[] = [];
       let localExams: Exam[] = [];
+      let localClasses: ClassGroup[] = [];
+      let localBank: BankItem[] = [];
       try {
         const s = localStorage.getItem('students');
         const e = localStorage.getItem('exams');
+        const c = localStorage.getItem('classes');
+        const b = localStorage.getItem('question_bank');
         if (s) localStudents = JSON.parse(s);
         if (e) localExams = JSON.parse(e);
+        if (c) localClasses = JSON.parse(c);
+        if (b) localBank = JSON.parse(b);
       } catch (err) {
         console.error("Local storage parse error:", err);
       }
 
       setStudents(localStudents);
       setExams(localExams);
+      setClasses(localClasses);
+      setQuestionBank(localBank);
 
       if (supabase) {
+        await checkSchemaVersion();
+        // 오프라인 중 쌓인 변경을 먼저 보내야 서버 데이터로 덮어쓰이지 않음
+        await flushOutbox();
         try {
           const { data: sRows, error: sErr } = await supabase.from('students').select('*');
-          const { data: eRows, error: eErr } = await supabase.from('exams').select('*');
+          const cloudExams = await fetchCloudExams(supabase);
+          const { data: cRows, error: cErr } = await supabase.from('classes').select('*');
           
-          if (!sErr && sRows) {
-            const cloudStudents = sRows.map(mapStudentFromDB);
-            setStudents(prev => {
+          applyCloudRecords(
+            localStudents,
+            !sErr && sRows ? sRows.map(mapStudentFromDB) : null,
+            localExams,
+            cloudExams
+          );
+
+          if (!cErr && cRows) {
+            const cloudClasses = cRows.map(mapClassFromDB);
+            setClasses(prev => {
               const merged = [...prev];
-              cloudStudents.forEach(cs => {
-                const idx = merged.findIndex(ps => ps.id === cs.id);
-                if (idx > -1) merged[idx] = cs;
-                else merged.push(cs);
+              cloudClasses.forEach(cc => {
+                const idx = merged.findIndex(pc => pc.id === cc.id);
+                if (idx > -1) merged[idx] = cc;
+                else merged.push(cc);
               });
               return merged;
             });
           }
-          
-          if (!eErr && eRows) {
-            const cloudExams = eRows.map(mapExamFromDB);
-            setExams(prev => {
+
+          // 문제은행 테이블이 없는 DB(v7 이전)면 오류를 무시하고 로컬 문항만 사용
+          const { data: bRows, error: bErr } = await supabase.from('question_bank').select('*');
+          if (!bErr && bRows) {
+            const cloudBank = bRows.map(mapBankItemFromDB);
+            setQuestionBank(prev => {
               const merged = [...prev];
-              cloudExams.forEach(ce => {
-                const idx = merged.findIndex(pe => ce.id === pe.id);
-                if (idx > -1) merged[idx] = ce;
-                else merged.push(ce);
+              cloudBank.forEach(cb => {
+                const idx = merged.findIndex(pb => pb.id === cb.id);
+                if (idx > -1) merged[idx] = cb;
+                else merged.push(cb);
               });
               return merged;
             });
@@ -148,6 +415,7 @@ const App: React.FC = () => {
           if (!isInitialized.current) return;
           if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
             const row = mapStudentFromDB(payload.new);
+            markSynced('students', row.id, row.updatedAt);
             setStudents(prev => {
               const idx = prev.findIndex(s => s.id === row.id);
               if (idx > -1) {
@@ -165,11 +433,13 @@ const App: React.FC = () => {
           if (!isInitialized.current) return;
           if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
             const row = mapExamFromDB(payload.new);
+            markSynced('exams', row.id, row.updatedAt);
             setExams(prev => {
               const idx = prev.findIndex(e => e.id === row.id);
               if (idx > -1) {
+                // 성적은 exam_scores 이벤트로 따로 들어오므로 기존 값 유지
                 const next = [...prev];
-                next[idx] = row;
+                next[idx] = { ...row, scores: row.scores.length > 0 ? row.scores : prev[idx].scores };
                 return next;
               }
               return [...prev, row];
@@ -178,120 +448,584 @@ const App: React.FC = () => {
             setExams(prev => prev.filter(e => e.id !== payload.old.id));
           }
         })
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'exam_scores' }, (payload) => {
+          if (!isInitialized.current) return;
+          if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+            const examId = (payload.new as any).exam_id;
+            const entry = mapScoreFromDB(payload.new);
+            setExams(prev => upsertScoreInExams(prev, examId, entry));
+          } else if (payload.eventType === 'DELETE') {
+            const old = payload.old as any;
+            setExams(prev => removeScoreFromExams(prev, old.exam_id, old.student_id));
+          }
+        })
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'classes' }, (payload) => {
+          if (!isInitialized.current) return;
+          if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+            const row = mapClassFromDB(payload.new);
+            setClasses(prev => {
+              const idx = prev.findIndex(c => c.id === row.id);
+              if (idx > -1) {
+                const next = [...prev];
+                next[idx] = row;
+                return next;
+              }
+              return [...prev, row];
+            });
+          } else if (payload.eventType === 'DELETE') {
+            setClasses(prev => prev.filter(c => c.id !== payload.old.id));
+          }
+        })
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'question_bank' }, (payload) => {
+          if (!isInitialized.current) return;
+          if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+            const row = mapBankItemFromDB(payload.new);
+            setQuestionBank(prev => {
+              const idx = prev.findIndex(b => b.id === row.id);
+              if (idx > -1) {
+                const next = [...prev];
+                next[idx] = row;
+                return next;
+              }
+              return [...prev, row];
+            });
+          } else if (payload.eventType === 'DELETE') {
+            setQuestionBank(prev => prev.filter(b => b.id !== payload.old.id));
+          }
+        })
         .subscribe();
 
       return () => { supabase.removeChannel(channel); };
     }
+  }, [supabase, sessionUserId]);
+
+  useEffect(() => {
+    refreshOutbox();
+    const handleOnline = () => { setIsOnline(true); flushOutbox(true); };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearTimeout(retryTimer.current);
+    };
   }, [supabase]);
 
   useEffect(() => {
     if (!loading && isInitialized.current) {
       localStorage.setItem('students', JSON.stringify(students));
       localStorage.setItem('exams', JSON.stringify(exams));
+      localStorage.setItem('classes', JSON.stringify(classes));
+      localStorage.setItem('question_bank', JSON.stringify(questionBank));
+    }
+  }, [students, exams, classes, questionBank, loading]);
+
+  const checkSchemaVersion = async () => {
+    if (!supabase) return;
+    try {
+      const version = await fetchSchemaVersion(supabase);
+      setSchemaVersion(version);
+      if (version !== null && version < LATEST_SCHEMA_VERSION) {
+        console.warn(`DB schema v${version} is behind app v${LATEST_SCHEMA_VERSION}`);
+      }
+    } catch (e) {
+      setSchemaVersion(null);
+    }
+  };
+
+  const markSynced = (kind: keyof SyncBase, id: string, updatedAt?: number) => {
+    if (updatedAt === undefined) return;
+    syncBase.current = { ...syncBase.current, [kind]: { ...syncBase.current[kind], [id]: updatedAt } };
+    saveSyncBase(syncBase.current);
+  };
+
+  // 서버 데이터와 로컬 데이터를 버전 기준으로 병합하고, 양쪽 모두 바뀐 레코드는 충돌로 표시
+  const applyCloudRecords = (
+    localStudents: Student[],
+    cloudStudents: Student[] | null,
+    localExams: Exam[],
+    cloudExams: Exam[] | null
+  ) => {
+    const found: SyncConflicts = { students: [], exams: [] };
+    if (cloudStudents) {
+      const result = reconcileStudents(localStudents, cloudStudents, syncBase.current.students);
+      syncBase.current = { ...syncBase.current, students: result.base };
+      found.students = result.conflicts;
+      setStudents(result.merged);
+    }
+    if (cloudExams) {
+      const result = reconcileExams(localExams, cloudExams, syncBase.current.exams);
+      syncBase.current = { ...syncBase.current, exams: result.base };
+      found.exams = result.conflicts;
+      setExams(result.merged);
+    }
+    saveSyncBase(syncBase.current);
+    const conflictCount = found.students.length + found.exams.length;
+    setConflicts(conflictCount > 0 ? found : null);
+    return conflictCount;
+  };
+
+  const refreshOutbox = async () => {
+    try {
+      setOutbox(await loadOutbox());
+    } catch (e) {
+      console.error("Outbox load error:", e);
+    }
+  };
+
+  // 서버가 저장을 확인한 버전을 병합 기준으로 기록 (실시간 반영을 놓쳐도 다음 동기화 때 충돌로 오인하지 않음)
+  const handleAcked = (table: string, rows: AckedRow[]) => {
+    if (table !== 'students' && table !== 'exams') return;
+    rows.forEach(row => markSynced(table, row.id, row.updated_at ?? undefined));
+  };
+
+  // 대기열을 순서대로 전송. 네트워크 오류면 백오프 후 자동 재시도
+  const flushOutbox = async (force = false) => {
+    if (!supabase) return;
+    if (isFlushing.current) {
+      flushRequested.current = true;
+      return;
+    }
+    isFlushing.current = true;
+    setIsSyncing(true);
+    window.clearTimeout(retryTimer.current);
+    try {
+      const { nextRetryAt, schemaMismatch, authRequired } = await processOutbox(supabase, force, handleAcked);
+      // 세션이 만료됐으면 로그인 화면으로 (로그인하면 데이터를 다시 불러오며 대기열도 이어서 전송)
+      if (authRequired) {
+        const { data } = await supabase.auth.getSession();
+        if (data.session) {
+          alert('로그인이 만료되어 서버에 보내지 못한 변경이 있습니다. 다시 로그인하면 이어서 전송합니다.');
+          await supabase.auth.signOut({ scope: 'local' });
+        }
+      }
+      if (schemaMismatch) {
+        alert("⚠️ 서버 테이블 구조가 다릅니다!\n\n[동기화 설정] 메뉴에서 새로운 SQL 코드를 실행하셔야 'Unknown' 문제를 방지할 수 있습니다.");
+      }
+      if (nextRetryAt) {
+        retryTimer.current = window.setTimeout(() => flushOutbox(), Math.max(0, nextRetryAt - Date.now()));
+      }
+    } catch (e) {
+      console.error("Outbox flush error:", e);
+    } finally {
+      isFlushing.current = false;
+      setIsSyncing(false);
+      await refreshOutbox();
+    }
+    if (flushRequested.current) {
+      flushRequested.current = false;
+      await flushOutbox(force);
+    }
+  };
+
+  // 모든 서버 변경은 outbox에 먼저 기록한 뒤 전송 (오프라인에서도 유실 없음)
+  const enqueueSync = async (label: string, ops: OutboxOp[]) => {
+    if (!supabase) return;
+    try {
+      await enqueueOutbox(label, ops);
+    } catch (e: any) {
+      console.error("Outbox persist error:", e);
+      alert(`전송 대기열 저장 실패: ${e?.message || e}\n(연결이 돌아오면 '데이터 최종 업로드'를 실행하세요.)`);
+      return;
     }
-  }, [students, exams, loading]);
+    await refreshOutbox();
+    flushOutbox();
+  };
+
+  const retryOutbox = async (id?: number) => {
+    await resetOutboxItems(id);
+    await refreshOutbox();
+    flushOutbox(true);
+  };
+
+  const discardOutboxItem = async (id: number) => {
+    if (!window.confirm('이 변경을 서버에 보내지 않고 대기열에서 삭제하시겠습니까?')) return;
+    await removeOutboxItem(id);
+    await refreshOutbox();
+    flushOutbox();
+  };
+
+  const auditContext = (): AuditContext => ({
+    actorId: sessionUserId,
+    actor: session?.user.email || '이 기기',
+    deviceId: getDeviceId(),
+    revertOf: revertingAuditId.current
+  });
+
+  const studentName = (id: string) => students.find(s => s.id === id)?.name || 'Unknown';
+
+  // 변경 이력은 기기에 먼저 남기고, 서버가 지원하면 같은 전송 항목에 실어 보냄
+  const enqueueAudited = async (label: string, ops: OutboxOp[], entries: AuditEntry[]) => {
+    try {
+      await appendAuditEntries(entries);
+    } catch (e) {
+      console.error("Audit log error:", e);
+    }
+    const auditOps: OutboxOp[] = entries.length > 0 && (schemaVersion ?? 0) >= AUDIT_SCHEMA_VERSION
+      ? [{ kind: 'upsert', table: 'audit_log', rows: entries.map(mapAuditToDB), ignoreDuplicates: true }]
+      : [];
+    await enqueueSync(label, [...ops, ...auditOps]);
+  };
+
+  const denyAccess = (action: string) => {
+    alert(`${action} 권한이 없습니다. 원장 계정에 권한을 요청하세요.`);
+  };
 
   const addStudent = async (name: string, school: string, phone: string) => {
+    if (!permissions.canManageStudents) return denyAccess('학생 등록');
     const newId = Math.random().toString(36).substr(2, 9);
-    const newStudent: Student = {
+    const newStudent: Student = stampRecord({
       id: newId,
       name, school, phone, createdAt: Date.now(),
-    };
+    });
     setStudents(prev => [...prev, newStudent]);
+    await enqueueAudited(`학생 추가: ${name}`, [{ kind: 'upsert', table: 'students', rows: [mapStudentToDB(newStudent)] }], auditStudentChange(auditContext(), undefined, newStudent));
+  };
 
-    if (supabase) {
-      try { 
-        const { error } = await supabase.from('students').insert([mapStudentToDB(newStudent)]); 
-        if (error) {
-          console.error("Student Insert Error:", error);
-          alert(`학생 서버 저장 실패: ${error.message}\n(기존 기기에서 '데이터 최종 업로드'를 실행하면 해결됩니다.)`);
-        }
-      } catch (e: any) {
-        console.error("Network Error:", e);
-      }
-    }
+  const importStudents = async (rows: { name: string; school: string; phone: string; note: string }[]) => {
+    if (!permissions.canManageStudents) return denyAccess('학생 등록');
+    const now = Date.now();
+    const newStudents: Student[] = rows.map((r, i) => stampRecord({
+      id: Math.random().toString(36).substr(2, 9),
+      name: r.name,
+      school: r.school || undefined,
+      phone: r.phone || undefined,
+      note: r.note || undefined,
+      createdAt: now + i
+    }));
+    setStudents(prev => [...prev, ...newStudents]);
+    const ctx = auditContext();
+    await enqueueAudited(
+      `명단 가져오기 (${newStudents.length}명)`,
+      [{ kind: 'upsert', table: 'students', rows: newStudents.map(mapStudentToDB) }],
+      newStudents.flatMap(s => auditStudentChange(ctx, undefined, s))
+    );
+    alert(`${newStudents.length}명이 명단에 등록되었습니다.`);
   };
 
-  const updateStudent = async (updatedStudent: Student) => {
+  const updateStudent = async (edited: Student) => {
+    if (!permissions.canManageStudents) return denyAccess('학생 수정');
+    const previous = students.find(s => s.id === edited.id);
+    const updatedStudent = stampRecord(edited, previous);
     setStudents(prev => prev.map(s => s.id === updatedStudent.id ? updatedStudent : s));
-    if (supabase) {
-      try { 
-        const { error } = await supabase.from('students').update(mapStudentToDB(updatedStudent)).eq('id', updatedStudent.id); 
-        if (error) alert(`학생 수정 서버 동기화 실패: ${error.message}`);
-      } catch (e) {}
-    }
+    await enqueueAudited(`학생 수정: ${updatedStudent.name}`, [
+      { kind: 'update', table: 'students', values: mapStudentToDB(updatedStudent), match: { id: updatedStudent.id } }
+    ], auditStudentChange(auditContext(), previous, updatedStudent));
   };
 
   const deleteStudent = async (id: string) => {
+    if (!permissions.canDeleteStudents) return denyAccess('학생 삭제');
     if (!window.confirm('정말 삭제하시겠습니까?')) return;
+    const target = students.find(s => s.id === id);
+    const name = target?.name || id;
+    const entries = auditStudentChange(auditContext(), target, undefined);
     setStudents(prev => prev.filter(s => s.id !== id));
-    if (supabase) {
-      try { 
-        const { error } = await supabase.from('students').delete().eq('id', id); 
-        if (error) alert(`학생 삭제 서버 동기화 실패: ${error.message}`);
-      } catch (e) {}
+    // 삭제된 학생은 소속 반 명단에서도 제거
+    const affectedClasses = classes.filter(c => c.studentIds.includes(id));
+    affectedClasses.forEach(c => updateClass({ ...c, studentIds: c.studentIds.filter(sid => sid !== id) }));
+    await enqueueAudited(`학생 삭제: ${name}`, [{ kind: 'delete', table: 'students', match: { id } }], entries);
+  };
+
+  const addClass = async (newGroup: ClassGroup) => {
+    if (!permissions.canCreateClasses) return denyAccess('반 생성');
+    const group = { ...newGroup, teacherId: newGroup.teacherId ?? sessionUserId };
+    setClasses(prev => [...prev, group]);
+    await enqueueSync(`반 추가: ${group.name}`, [{ kind: 'upsert', table: 'classes', rows: [mapClassToDB(group)] }]);
+  };
+
+  const updateClass = async (updatedClass: ClassGroup) => {
+    const current = classes.find(c => c.id === updatedClass.id);
+    if (current && !permissions.canEditClass(current)) return denyAccess('반 수정');
+    setClasses(prev => prev.map(c => c.id === updatedClass.id ? updatedClass : c));
+    await enqueueSync(`반 수정: ${updatedClass.name}`, [
+      { kind: 'update', table: 'classes', values: mapClassToDB(updatedClass), match: { id: updatedClass.id } }
+    ]);
+  };
+
+  const deleteClass = async (id: string) => {
+    const target = classes.find(c => c.id === id);
+    if (target && !permissions.canEditClass(target)) return denyAccess('반 삭제');
+    if (!window.confirm('반을 삭제하시겠습니까? (학생 정보는 유지됩니다)')) return;
+    const name = classes.find(c => c.id === id)?.name || id;
+    setClasses(prev => prev.filter(c => c.id !== id));
+    await enqueueSync(`반 삭제: ${name}`, [{ kind: 'delete', table: 'classes', match: { id } }]);
+  };
+
+  // 문제은행 테이블이 없는 DB에는 보내지 않음 (이 기기에만 저장)
+  const isBankSynced = (schemaVersion ?? 0) >= BANK_SCHEMA_VERSION;
+
+  const addBankItems = async (items: BankItem[]) => {
+    if (!permissions.canManageBank) return denyAccess('문제은행 등록');
+    if (items.length === 0) return;
+    setQuestionBank(prev => [...prev, ...items]);
+    if (isBankSynced) {
+      await enqueueSync(`문제은행 등록: ${items.length}문항`, [{ kind: 'upsert', table: 'question_bank', rows: items.map(mapBankItemToDB) }]);
     }
   };
 
-  const addExam = async (exam: Exam) => {
-    setExams(prev => [...prev, exam]);
-    if (supabase) {
-      try {
-        const dbData = mapExamToDB(exam);
-        const { error } = await supabase.from('exams').insert([dbData]);
-        if (error) {
-          console.error("Supabase Error:", error);
-          if (error.code === 'PGRST204' || error.message.includes('column')) {
-            alert("⚠️ 서버 테이블 구조가 다릅니다!\n\n[동기화 설정] 메뉴에서 새로운 SQL 코드를 실행하셔야 'Unknown' 문제를 방지할 수 있습니다.");
-          } else {
-            alert(`시험 서버 저장 실패: ${error.message}`);
-          }
-        }
-      } catch (e: any) {
-        console.error("Sync Error:", e);
-      }
+  const updateBankItem = async (updatedItem: BankItem) => {
+    if (!permissions.canManageBank) return denyAccess('문제은행 수정');
+    const item = { ...updatedItem, updatedAt: Date.now() };
+    setQuestionBank(prev => prev.map(b => b.id === item.id ? item : b));
+    if (isBankSynced) {
+      await enqueueSync(`문제은행 수정: ${item.stem.slice(0, 20)}`, [
+        { kind: 'update', table: 'question_bank', values: mapBankItemToDB(item), match: { id: item.id } }
+      ]);
     }
   };
 
-  const updateExam = async (updatedExam: Exam) => {
+  const deleteBankItem = async (id: string) => {
+    if (!permissions.canDeleteBankItems) return denyAccess('문제은행 삭제');
+    if (!window.confirm('문항을 문제은행에서 삭제하시겠습니까? (이미 출제된 시험의 정답은 유지됩니다)')) return;
+    const stem = questionBank.find(b => b.id === id)?.stem || id;
+    setQuestionBank(prev => prev.filter(b => b.id !== id));
+    if (isBankSynced) {
+      await enqueueSync(`문제은행 삭제: ${stem.slice(0, 20)}`, [{ kind: 'delete', table: 'question_bank', match: { id } }]);
+    }
+  };
+
+  // 시험 메타 행 + 기준 성적 대비 바뀐 학생 행만 전송
+  // 채점 알바이거나 시험 설정이 그대로면 성적 행만 전송
+  const queueExamSync = (label: string, exam: Exam, baseScores: ScoreEntry[], entries: AuditEntry[], scoresOnly = false) => {
+    const { upserts, deletedStudentIds } = diffScores(baseScores, exam.scores);
+    const ops: OutboxOp[] = scoresOnly ? [] : [{ kind: 'upsert', table: 'exams', rows: [mapExamToDB(exam)] }];
+    return enqueueAudited(label, [
+      ...ops,
+      { kind: 'upsert', table: 'exam_scores', rows: upserts.map(s => mapScoreToDB(exam.id, s)) },
+      { kind: 'delete', table: 'exam_scores', match: { exam_id: exam.id }, inColumn: { column: 'student_id', values: deletedStudentIds } }
+    ], entries);
+  };
+
+  const addExam = async (newExam: Exam) => {
+    if (!permissions.canEditExams) return denyAccess('시험 생성');
+    const exam = stampRecord(newExam);
+    setExams(prev => [...prev, exam]);
+    // 초안은 이력을 남기지 않고, 완료 시점에 한 번에 기록
+    const entries = isFinalizedExam(exam) ? auditExamChange(auditContext(), undefined, exam, studentName) : [];
+    await queueExamSync(`${isFinalizedExam(exam) ? '시험 추가' : '초안 저장'}: ${exam.title}`, exam, [], entries);
+  };
+
+  const updateExam = async (edited: Exam) => {
+    const previous = exams.find(e => e.id === edited.id);
+    const scoresOnly = !permissions.canEditExams;
+    if (scoresOnly && !(previous && permissions.canGradeExam(previous))) return denyAccess('시험 수정');
+    // 답안 입력만 가능한 계정은 시험 설정 변경을 무시하고 성적만 반영 (설정이 그대로면 시험 행 버전도 유지)
+    const metaChanged = !previous || hasExamMetaChanged(previous, edited);
+    const updatedExam = (scoresOnly || !metaChanged) && previous ? { ...previous, scores: edited.scores } : stampRecord(edited, previous);
     setExams(prev => prev.map(e => e.id === updatedExam.id ? updatedExam : e));
-    if (supabase) {
-      try { await supabase.from('exams').update(mapExamToDB(updatedExam)).eq('id', updatedExam.id); } catch (e) {}
+    // 바뀐 학생 행만 전송해 다른 선생님이 입력 중인 성적을 덮어쓰지 않음
+    const wasDraft = !!previous && !isFinalizedExam(previous);
+    const entries = !isFinalizedExam(updatedExam) ? []
+      : auditExamChange(auditContext(), wasDraft ? undefined : previous, updatedExam, studentName);
+    const label = !isFinalizedExam(updatedExam) ? '초안 저장' : wasDraft ? '채점 완료' : '시험 수정';
+    await queueExamSync(`${label}: ${updatedExam.title}`, updatedExam, previous?.scores || [], entries, scoresOnly || !metaChanged);
+  };
+
+  // 병합 화면에서 선택한 결과를 새 버전으로 저장하고 서버 값 기준으로 차이만 전송
+  const resolveConflicts = async (resolution: ConflictResolution) => {
+    const resolvedStudents = resolution.students.map(r => ({ ...r, merged: stampRecord(r.merged, r.local) }));
+    const resolvedExams = resolution.exams.map(r => ({ ...r, merged: stampRecord(r.merged, r.local) }));
+
+    setStudents(prev => prev.map(s => resolvedStudents.find(r => r.merged.id === s.id)?.merged || s));
+    setExams(prev => prev.map(e => resolvedExams.find(r => r.merged.id === e.id)?.merged || e));
+    setConflicts(null);
+
+    const ctx = auditContext();
+    for (const r of resolvedStudents) {
+      markSynced('students', r.cloud.id, r.cloud.updatedAt);
+      await enqueueAudited(`충돌 병합: ${r.merged.name}`, [{ kind: 'upsert', table: 'students', rows: [mapStudentToDB(r.merged)] }],
+        auditStudentChange(ctx, r.local, r.merged));
+    }
+    for (const r of resolvedExams) {
+      markSynced('exams', r.cloud.id, r.cloud.updatedAt);
+      await queueExamSync(`충돌 병합: ${r.merged.title}`, r.merged, r.cloud.scores, auditExamChange(ctx, r.local, r.merged, studentName));
     }
   };
 
   const deleteExam = async (id: string) => {
+    if (!permissions.canDeleteExams) return denyAccess('시험 삭제');
     if (!window.confirm('시험 기록을 삭제하시겠습니까?')) return;
+    const target = exams.find(e => e.id === id);
+    const title = target?.title || id;
+    const entries = target && isFinalizedExam(target) ? auditExamChange(auditContext(), target, undefined, studentName) : [];
     setExams(prev => prev.filter(e => e.id !== id));
-    if (supabase) {
-      try { await supabase.from('exams').delete().eq('id', id); } catch (e) {}
-    }
+    await enqueueAudited(`시험 삭제: ${title}`, [{ kind: 'delete', table: 'exams', match: { id } }], entries);
   };
 
   const pushToCloud = async () => {
-    if (!supabase) return;
+    if (!supabase) return { conflictCount: 0 };
     const localStudents: Student[] = JSON.parse(localStorage.getItem('students') || '[]');
     const localExams: Exam[] = JSON.parse(localStorage.getItem('exams') || '[]');
-    
+    const localClasses: ClassGroup[] = JSON.parse(localStorage.getItem('classes') || '[]');
+
+    // 서버에서 바뀐 레코드를 덮어쓰지 않도록 로컬에서만 바뀐 레코드만 전송
+    const { data: cloudStudentRows, error: fetchError } = await supabase.from('students').select('*');
+    const cloudExamsBefore = await fetchCloudExams(supabase);
+    if (fetchError || !cloudStudentRows || !cloudExamsBefore) throw new Error('서버 데이터를 불러오지 못했습니다.');
+    const uploadStudents = selectLocalUploads(localStudents, reconcileStudents(localStudents, cloudStudentRows.map(mapStudentFromDB), syncBase.current.students));
+    const uploadExams = selectLocalUploads(localExams, reconcileExams(localExams, cloudExamsBefore, syncBase.current.exams));
+
     // 학생 먼저 전송 (Referential Integrity)
-    if (localStudents.length > 0) {
-      const { error } = await supabase.from('students').upsert(localStudents.map(mapStudentToDB));
+    if (uploadStudents.length > 0) {
+      const { error } = await supabase.from('students').upsert(uploadStudents.map(mapStudentToDB));
       if (error) throw new Error(`학생 전송 실패: ${error.message}`);
     }
     
     // 그 다음 시험 전송
-    if (localExams.length > 0) {
-      const { error } = await supabase.from('exams').upsert(localExams.map(mapExamToDB));
+    if (uploadExams.length > 0) {
+      const { error } = await supabase.from('exams').upsert(uploadExams.map(mapExamToDB));
       if (error) throw new Error(`시험 전송 실패: ${error.message}`);
+      const scoreRows = uploadExams.flatMap(e => e.scores.map(s => mapScoreToDB(e.id, s)));
+      if (scoreRows.length > 0) {
+        const { error: scoreError } = await supabase.from('exam_scores').upsert(scoreRows);
+        if (scoreError) throw new Error(`성적 전송 실패: ${scoreError.message}`);
+      }
+    }
+
+    if (localClasses.length > 0) {
+      const { error } = await supabase.from('classes').upsert(localClasses.map(mapClassToDB));
+      if (error) throw new Error(`반 전송 실패: ${error.message}`);
     }
 
-    // 최신 데이터 다시 불러오기
+    const localBank: BankItem[] = JSON.parse(localStorage.getItem('question_bank') || '[]');
+    if (isBankSynced && localBank.length > 0) {
+      const { error } = await supabase.from('question_bank').upsert(localBank.map(mapBankItemToDB));
+      if (error) throw new Error(`문제은행 전송 실패: ${error.message}`);
+    }
+
+    // 최신 데이터 다시 불러와 병합 (충돌은 병합 화면으로)
     const { data: sRows } = await supabase.from('students').select('*');
-    const { data: eRows } = await supabase.from('exams').select('*');
-    if (sRows) setStudents(sRows.map(mapStudentFromDB));
-    if (eRows) setExams(eRows.map(mapExamFromDB));
+    const cloudExams = await fetchCloudExams(supabase);
+    const { data: cRows } = await supabase.from('classes').select('*');
+    const conflictCount = applyCloudRecords(localStudents, sRows ? sRows.map(mapStudentFromDB) : null, localExams, cloudExams);
+    if (cRows) setClasses(cRows.map(mapClassFromDB));
+    return { conflictCount };
+  };
+
+  const restoreBackup = async (data: BackupContent, config?: SupabaseConfig) => {
+    if (!permissions.canManageSettings) return denyAccess('백업 복원');
+    const entries = auditBackupRestore(auditContext(), { students, exams, classes, questionBank }, data);
+    // 새로고침 전에 저장되도록 localStorage에 바로 기록
+    localStorage.setItem('students', JSON.stringify(data.students));
+    localStorage.setItem('exams', JSON.stringify(data.exams));
+    localStorage.setItem('classes', JSON.stringify(data.classes));
+    localStorage.setItem('question_bank', JSON.stringify(data.questionBank));
+    setStudents(data.students);
+    setExams(data.exams);
+    setClasses(data.classes);
+    setQuestionBank(data.questionBank);
+    // 복원 데이터는 '데이터 전체 전송'으로 따로 올리므로 이력만 보냄
+    if (supabase && (schemaVersion ?? 0) >= AUDIT_SCHEMA_VERSION) {
+      await enqueueAudited('백업 복원', [], entries);
+    } else {
+      try {
+        await appendAuditEntries(entries);
+      } catch (e) {
+        console.error("Audit log error:", e);
+      }
+    }
+
+    if (config) {
+      localStorage.setItem('supabase_config', JSON.stringify(config));
+      alert('복원이 완료되었습니다. 연결 설정을 적용하기 위해 앱을 새로고침합니다.');
+      window.location.reload();
+      return;
+    }
+    alert(`복원이 완료되었습니다. (학생 ${data.students.length}명 · 시험 ${data.exams.length}개 · 반 ${data.classes.length}개 · 문제은행 ${data.questionBank.length}문항)`
+      + (supabase ? "\n서버에도 반영하려면 '데이터 전체 전송'을 실행하세요." : ''));
   };
 
+  const restoreStudent = async (snapshot: Student) => {
+    if (!permissions.canManageStudents) return denyAccess('학생 복구');
+    const restored = stampRecord(snapshot);
+    setStudents(prev => [...prev, restored]);
+    await enqueueAudited(`학생 복구: ${restored.name}`, [{ kind: 'upsert', table: 'students', rows: [mapStudentToDB(restored)] }],
+      auditStudentChange(auditContext(), undefined, restored));
+  };
+
+  // 이력 조회: 기기 기록과 서버 기록(지원 시)을 합쳐 최신순으로
+  const loadHistory = async (target: { examId?: string; studentId?: string }) => {
+    const matches = (a: AuditEntry) =>
+      (!!target.examId && a.examId === target.examId) || (!!target.studentId && a.studentId === target.studentId);
+    const merged = new Map<string, AuditEntry>();
+    try {
+      (await loadAuditEntries(matches)).forEach(a => merged.set(a.id, a));
+    } catch (e) {
+      console.error("Audit load error:", e);
+    }
+    if (supabase && (schemaVersion ?? 0) >= AUDIT_SCHEMA_VERSION) {
+      const query = supabase.from('audit_log').select('*');
+      const { data, error } = await (target.examId ? query.eq('exam_id', target.examId) : query.eq('student_id', target.studentId))
+        .order('created_at', { ascending: false })
+        .limit(1000);
+      if (error) console.error("Audit fetch error:", error);
+      (data || []).map(mapAuditFromDB).forEach(a => merged.set(a.id, a));
+    }
+    return Array.from(merged.values()).sort((a, b) => b.createdAt - a.createdAt);
+  };
+
+  const canRevertAudit = (entry: AuditEntry) => {
+    if (entry.entity === 'BACKUP') return false;
+    if (entry.entity === 'STUDENT') return entry.action === 'CREATE' ? permissions.canDeleteStudents : permissions.canManageStudents;
+    if (entry.entity === 'EXAM') return entry.action === 'CREATE' ? permissions.canDeleteExams : permissions.canEditExams;
+    const exam = exams.find(e => e.id === entry.examId);
+    return !!exam && permissions.canGradeExam(exam);
+  };
+
+  // 기록의 변경 전 상태를 현재 데이터에 다시 적용 (일반 수정과 같은 경로라 권한 검사·전송·이력이 그대로 적용됨)
+  const applyRevert = (entry: AuditEntry): Promise<void> | void => {
+    if (entry.entity === 'STUDENT') {
+      const current = students.find(s => s.id === entry.entityId);
+      if (entry.action === 'CREATE') return current ? deleteStudent(current.id) : alert('이미 삭제된 학생입니다.');
+      return current ? updateStudent({ ...entry.before, id: current.id }) : restoreStudent(entry.before);
+    }
+    if (entry.entity === 'EXAM') {
+      const current = exams.find(e => e.id === entry.entityId);
+      if (entry.action === 'CREATE') return current ? deleteExam(current.id) : alert('이미 삭제된 시험입니다.');
+      if (entry.action === 'DELETE') return current ? alert('이미 복구된 시험입니다.') : addExam(entry.before);
+      return current ? updateExam({ ...entry.before, scores: current.scores }) : alert('삭제된 시험은 설정을 되돌릴 수 없습니다.');
+    }
+    const exam = exams.find(e => e.id === entry.examId);
+    if (!exam) return alert('시험이 삭제되어 성적을 되돌릴 수 없습니다.');
+    const others = exam.scores.filter(s => s.studentId !== entry.studentId);
+    return updateExam({ ...exam, scores: entry.before ? [...others, entry.before] : others });
+  };
+
+  const revertAuditEntry = async (entry: AuditEntry) => {
+    // 이력은 각 수정 함수의 첫 await 전에 만들어지므로 동기 구간에서만 표시
+    revertingAuditId.current = entry.id;
+    let pending: Promise<void> | void;
+    try {
+      pending = applyRevert(entry);
+    } finally {
+      revertingAuditId.current = undefined;
+    }
+    await pending;
+  };
+
+  const updateUserRole = async (userId: string, role: UserRole) => {
+    if (!supabase || !permissions.canManageSettings) return denyAccess('계정 관리');
+    const { error } = await supabase.from('profiles').update({ role }).eq('id', userId);
+    if (error) {
+      console.error("Role Update Error:", error);
+      alert(`권한 변경 실패: ${error.message}`);
+      return;
+    }
+    setProfiles(prev => prev.map(p => p.id === userId ? { ...p, role } : p));
+  };
+
+  const signOut = async () => {
+    if (!supabase || !window.confirm('로그아웃하시겠습니까?')) return;
+    await supabase.auth.signOut();
+  };
+
+  // 채점 알바에게는 배정된 시험만 표시
+  const visibleExams = permissions.canEditExams ? exams : exams.filter(permissions.canGradeExam);
+  const graders = profiles.filter(p => p.role === 'GRADER');
+  // 통계·분석에는 채점이 끝난 시험만
+  const finalizedExams = useMemo(() => exams.filter(isFinalizedExam), [exams]);
+
   const renderContent = () => {
     if (loading && !isInitialized.current) return (
       <div className="flex flex-col items-center justify-center py-32 space-y-4">
@@ -301,28 +1035,87 @@ const App: React.FC = () => {
     );
 
     switch (view) {
-      case ViewMode.DASHBOARD: return <Dashboard students={students} exams={exams} />;
-      case ViewMode.STUDENTS: return <StudentManagement students={students} exams={exams} onAddStudent={addStudent} onUpdateStudent={updateStudent} onDeleteStudent={deleteStudent} />;
-      case ViewMode.STUDENT_DETAIL: return <StudentDetailView students={students} exams={exams} />;
-      case ViewMode.EXAMS: return <ExamManagement students={students} exams={exams} onAddExam={addExam} onUpdateExam={updateExam} onDeleteExam={deleteExam} />;
-      case ViewMode.ANALYTICS: return <Analytics students={students} exams={exams} />;
+      case ViewMode.DASHBOARD: return <Dashboard students={students} exams={finalizedExams} classes={classes} />;
+      case ViewMode.STUDENTS: return <StudentManagement students={students} exams={finalizedExams} classes={classes} permissions={permissions} onAddStudent={addStudent} onImportStudents={importStudents} onUpdateStudent={updateStudent} onDeleteStudent={deleteStudent} />;
+      case ViewMode.STUDENT_DETAIL: return <StudentDetailView students={students} exams={finalizedExams} classes={classes} onShowHistory={(s) => setHistoryTarget({ title: s.name, studentId: s.id })} />;
+      case ViewMode.CLASSES: return <ClassManagement students={students} classes={classes} permissions={permissions} onAddClass={addClass} onUpdateClass={updateClass} onDeleteClass={deleteClass} />;
+      case ViewMode.EXAMS: return <ExamManagement students={students} exams={visibleExams} classes={classes} permissions={permissions} graders={graders} bankItems={questionBank} onAddBankItems={addBankItems} onShowHistory={(e) => setHistoryTarget({ title: e.title, examId: e.id })} onAddExam={addExam} onUpdateExam={updateExam} onDeleteExam={deleteExam} />;
+      case ViewMode.ANALYTICS: return <Analytics students={students} exams={finalizedExams} classes={classes} onUpdateExam={updateExam} />;
+      case ViewMode.QUESTION_BANK: return <QuestionBank items={questionBank} exams={finalizedExams} permissions={permissions} onAddItems={addBankItems} onUpdateItem={updateBankItem} onDeleteItem={deleteBankItem} />;
       case ViewMode.SETTINGS: return (
         <Settings 
           config={sbConfig} 
           onSaveConfig={(c) => { localStorage.setItem('supabase_config', JSON.stringify(c)); setSbConfig(c); }}
           onClearConfig={() => { localStorage.removeItem('supabase_config'); setSbConfig(null); }}
           onPushToCloud={pushToCloud}
-          localData={{ students, exams }}
+          localData={{ students, exams, classes, questionBank }}
+          schemaVersion={schemaVersion}
+          onRecheckSchema={checkSchemaVersion}
+          onRestoreBackup={restoreBackup}
+          permissions={permissions}
+          profiles={isAuthRequired ? profiles : []}
+          currentUserId={sessionUserId}
+          onUpdateUserRole={updateUserRole}
           isCloudConnected={!!supabase}
         />
       );
-      default: return <Dashboard students={students} exams={exams} />;
+      default: return <Dashboard students={students} exams={finalizedExams} classes={classes} />;
     }
   };
 
+  if (supabase && isAuthRequired && !session) {
+    return (
+      <LoginScreen
+        supabase={supabase}
+        onDisconnect={() => { localStorage.removeItem('supabase_config'); setSbConfig(null); }}
+      />
+    );
+  }
+
   return (
-    <Layout activeView={view} setView={setView} isCloudConnected={!!supabase}>
+    <Layout
+      activeView={view}
+      setView={setView}
+      isCloudConnected={!!supabase}
+      needsMigration={schemaVersion !== null && schemaVersion < LATEST_SCHEMA_VERSION}
+      account={isAuthRequired && session ? { email: session.user.email || '', role: profile?.role } : null}
+      onSignOut={signOut}
+      syncStatus={{
+        pending: outbox.filter(i => i.status === 'PENDING').length,
+        failed: outbox.filter(i => i.status === 'FAILED').length,
+        isSyncing,
+        isOnline
+      }}
+      onOpenSyncQueue={() => setShowSyncQueue(true)}
+    >
       {renderContent()}
+      {conflicts && (
+        <ConflictMergeModal
+          conflicts={conflicts}
+          students={students}
+          onResolve={resolveConflicts}
+          onClose={() => setConflicts(null)}
+        />
+      )}
+      {historyTarget && (
+        <AuditHistoryModal
+          title={historyTarget.title}
+          loadEntries={() => loadHistory(historyTarget)}
+          canRevert={canRevertAudit}
+          onRevert={revertAuditEntry}
+          onClose={() => setHistoryTarget(null)}
+        />
+      )}
+      {showSyncQueue && (
+        <SyncQueueModal
+          items={outbox}
+          isOnline={isOnline}
+          isSyncing={isSyncing}
+          onRetry={retryOutbox}
+          onDiscard={discardOutboxItem}
+          onClose={() => setShowSyncQueue(false)}
+        />
+      )}
     </Layout>
   );
 };
@@ -0,0 +1,136 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { Student, Exam } from '../types.ts';
+import { getAIInsights } from '../services/geminiService.ts';
+import { buildAIReportInput, getCachedAIReport, setCachedAIReport } from '../utils/aiReportUtils.ts';
+import MarkdownView from './MarkdownView.tsx';
+
+interface AIReportPanelProps {
+  exam: Exam;
+  students: Student[];
+  onUpdateExam: (exam: Exam) => void;
+}
+
+const AIReportPanel: React.FC<AIReportPanelProps> = ({ exam, students, onUpdateExam }) => {
+  const input = useMemo(() => buildAIReportInput(exam, students), [exam, students]);
+  const saved = exam.aiReport;
+  const isSavedStale = !!saved && saved.dataHash !== input.dataHash && !saved.isEdited;
+
+  const [content, setContent] = useState<string>('');
+  const [isDirty, setIsDirty] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 시험/데이터가 바뀌면 저장본 → 로컬 캐시 순으로 불러옴 (재호출 없음)
+  useEffect(() => {
+    setIsEditing(false);
+    setIsDirty(false);
+    setError(null);
+    if (saved && (saved.dataHash === input.dataHash || saved.isEdited)) {
+      setContent(saved.content);
+    } else {
+      const cached = getCachedAIReport(exam.id, input.dataHash);
+      setContent(cached ?? saved?.content ?? '');
+      setIsDirty(!!cached);
+    }
+  }, [exam.id, input.dataHash, saved]);
+
+  const handleGenerate = async () => {
+    if (input.results.length === 0) {
+      alert('분석할 성적 데이터가 없습니다.');
+      return;
+    }
+    if (content && !window.confirm('AI 리포트를 다시 생성하시겠습니까? (API 사용량이 발생합니다)')) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const text = await getAIInsights(exam.title, input.summary, input.results, input.details);
+      setCachedAIReport(exam.id, input.dataHash, text);
+      setContent(text);
+      setIsDirty(true);
+      setIsEditing(false);
+    } catch (e: any) {
+      setError(e?.message || '알 수 없는 오류');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = () => {
+    onUpdateExam({
+      ...exam,
+      aiReport: {
+        content,
+        dataHash: input.dataHash,
+        generatedAt: Date.now(),
+        isEdited: isEditing || saved?.isEdited || undefined
+      }
+    });
+    setIsEditing(false);
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-black text-slate-800 flex items-center gap-2">
+            <span className="w-2 h-6 bg-indigo-600 rounded-full"></span>
+            AI 분석 리포트
+          </h3>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">
+            {saved && !isDirty
+              ? `저장됨 · ${new Date(saved.generatedAt).toLocaleString()}${saved.isEdited ? ' · 직접 수정' : ''}`
+              : content ? '저장되지 않은 리포트' : 'Gemini 기반 시험 분석'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {content && !isEditing && (
+            <button onClick={() => setIsEditing(true)} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-black hover:bg-slate-200 transition-all">✏️ 편집</button>
+          )}
+          <button
+            onClick={handleGenerate}
+            disabled={isLoading}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-black hover:bg-indigo-700 transition-all disabled:opacity-50"
+          >
+            {isLoading ? '분석 중...' : content ? '🔄 재생성' : '✨ 리포트 생성'}
+          </button>
+          {content && (isDirty || isEditing) && (
+            <button onClick={handleSave} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-xs font-black hover:bg-slate-800 transition-all">💾 시험에 저장</button>
+          )}
+        </div>
+      </div>
+
+      {isSavedStale && !isDirty && (
+        <div className="mb-4 px-4 py-3 bg-amber-50 border border-amber-100 rounded-2xl text-xs font-bold text-amber-700">
+          저장된 리포트 이후 성적 데이터가 변경되었습니다. 필요하면 재생성하세요.
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 px-4 py-3 bg-red-50 border border-red-100 rounded-2xl text-xs font-bold text-red-600">
+          AI 분석 중 오류가 발생했습니다: {error}
+        </div>
+      )}
+
+      {isEditing ? (
+        <textarea
+          value={content}
+          onChange={(e) => { setContent(e.target.value); setIsDirty(true); }}
+          rows={18}
+          className="w-full px-5 py-4 bg-slate-50 rounded-2xl border-none outline-none font-mono text-xs text-slate-700 leading-relaxed"
+        />
+      ) : content ? (
+        <div className="max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
+          <MarkdownView content={content} />
+        </div>
+      ) : (
+        <div className="py-12 text-center text-slate-300 font-bold">
+          {isLoading ? 'AI가 시험 데이터를 분석하고 있습니다...' : '아직 생성된 리포트가 없습니다.'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIReportPanel;
@@ -1,18 +1,26 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Student, Exam } from '../types.ts';
+import { Student, Exam, ClassGroup } from '../types.ts';
 import { calculateExamResults, getExamSummary } from '../utils/gradingUtils.ts';
+import { filterResultsByClass, getClassMemberIds } from '../utils/classUtils.ts';
+import { gradeQuestion, formatAnswerKey } from '../utils/scoringUtils.ts';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell
 } from 'recharts';
+import AIReportPanel from './AIReportPanel.tsx';
+import ItemAnalysisPanel from './ItemAnalysisPanel.tsx';
+import SkillMasteryHeatmap from './SkillMasteryHeatmap.tsx';
 
 interface AnalyticsProps {
   students: Student[];
   exams: Exam[];
+  classes: ClassGroup[];
+  onUpdateExam: (exam: Exam) => void;
 }
 
-const Analytics: React.FC<AnalyticsProps> = ({ students, exams }) => {
+const Analytics: React.FC<AnalyticsProps> = ({ students, exams, classes, onUpdateExam }) => {
   const [selectedExamId, setSelectedExamId] = useState<string>('');
+  const [classFilter, setClassFilter] = useState<string>('all');
   const [selectedQuestionNum, setSelectedQuestionNum] = useState<number>(1);
 
   useEffect(() => {
@@ -25,8 +33,15 @@ const Analytics: React.FC<AnalyticsProps> = ({ students, exams }) => {
   
   const results = useMemo(() => {
     if (!selectedExam) return [];
-    return calculateExamResults(selectedExam, students);
-  }, [selectedExam, students]);
+    return filterResultsByClass(calculateExamResults(selectedExam, students), classes, classFilter);
+  }, [selectedExam, students, classes, classFilter]);
+
+  // 반 필터를 적용한 원본 성적 (문항 분석용)
+  const classScores = useMemo(() => {
+    if (!selectedExam) return [];
+    const memberIds = classFilter === 'all' ? null : getClassMemberIds(classes, [classFilter]);
+    return memberIds ? selectedExam.scores.filter(s => memberIds.has(s.studentId)) : selectedExam.scores;
+  }, [selectedExam, classes, classFilter]);
 
   const questionStatsData = useMemo(() => {
     if (!selectedExam) return [];
@@ -46,22 +61,27 @@ const Analytics: React.FC<AnalyticsProps> = ({ students, exams }) => {
     let totalCount = 0;
     let correctCount = 0;
     
-    const correctAns = selectedExam.questions?.find(q => q.number === selectedQuestionNum)?.correctAnswer || "정답 미설정";
+    const question = selectedExam.questions?.find(q => q.number === selectedQuestionNum);
+    const correctAns = question ? formatAnswerKey(question) : "정답 미설정";
 
+    const memberIds = classFilter === 'all' ? null : getClassMemberIds(classes, [classFilter]);
     selectedExam.scores.forEach(scoreEntry => {
+      if (memberIds && !memberIds.has(scoreEntry.studentId)) return;
       const ans = scoreEntry.studentAnswers?.[selectedQuestionNum];
       if (ans !== undefined) {
         const normalizedAns = ans.trim() === "" ? "(미기입)" : ans.trim();
         distribution[normalizedAns] = (distribution[normalizedAns] || 0) + 1;
         totalCount++;
         
-        if (ans.trim() === correctAns) {
+        if (question && gradeQuestion(question, ans).isCorrect) {
           correctCount++;
         }
       }
     });
 
-    const sortedEntries = Object.entries(distribution).sort((a, b) => b[1] - a[1]);
+    const sortedEntries = Object.entries(distribution)
+      .sort((a, b) => b[1] - a[1])
+      .map(([ans, count]) => [ans, count, !!question && ans !== "(미기입)" && gradeQuestion(question, ans).isCorrect] as const);
 
     return {
       entries: sortedEntries,
@@ -70,7 +90,7 @@ const Analytics: React.FC<AnalyticsProps> = ({ students, exams }) => {
       correctAnswer: correctAns,
       accuracy: totalCount > 0 ? (correctCount / totalCount) * 100 : 0
     };
-  }, [selectedExam, selectedQuestionNum]);
+  }, [selectedExam, selectedQuestionNum, classes, classFilter]);
 
   if (exams.length === 0) return (
     <div className="py-32 text-center bg-white rounded-[3rem] border-2 border-dashed border-slate-200">
@@ -97,6 +117,19 @@ const Analytics: React.FC<AnalyticsProps> = ({ students, exams }) => {
               ))}
             </select>
           </div>
+          {classes.length > 0 && (
+            <div className="w-full md:w-60">
+              <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">반 필터</label>
+              <select
+                value={classFilter}
+                onChange={(e) => setClassFilter(e.target.value)}
+                className="w-full px-5 py-4 bg-slate-50 border-none rounded-2xl outline-none font-black text-slate-800"
+              >
+                <option value="all">전체 반</option>
+                {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+          )}
         </div>
 
         {selectedExam && (
@@ -124,7 +157,7 @@ const Analytics: React.FC<AnalyticsProps> = ({ students, exams }) => {
                       {questionStatsData.map((entry, index) => (
                         <Cell 
                           key={`cell-${index}`} 
-                          fill={entry.questionNum === selectedQuestionNum ? '#1e293b' : entry.wrongCount > (selectedExam.scores.length / 2) ? '#ef4444' : '#6366f1'} 
+                          fill={entry.questionNum === selectedQuestionNum ? '#1e293b' : entry.wrongCount > (results.length / 2) ? '#ef4444' : '#6366f1'} 
                         />
                       ))}
                     </Bar>
@@ -173,8 +206,7 @@ const Analytics: React.FC<AnalyticsProps> = ({ students, exams }) => {
 
                     <div className="space-y-3">
                       <p className="text-[10px] font-black opacity-60 uppercase tracking-widest">학생들이 선택한 답안 분포</p>
-                      {answerDistribution.entries.map(([ans, count], idx) => {
-                        const isCorrect = ans === answerDistribution.correctAnswer;
+                      {answerDistribution.entries.map(([ans, count, isCorrect], idx) => {
                         const percentage = (count / answerDistribution.totalCount) * 100;
                         return (
                           <div key={idx} className="space-y-1.5">
@@ -208,6 +240,19 @@ const Analytics: React.FC<AnalyticsProps> = ({ students, exams }) => {
           </div>
         )}
       </div>
+
+      {selectedExam && (
+        <ItemAnalysisPanel
+          exam={selectedExam}
+          scores={classScores}
+          selectedQuestionNum={selectedQuestionNum}
+          onSelectQuestion={setSelectedQuestionNum}
+        />
+      )}
+
+      <SkillMasteryHeatmap students={students} exams={exams} classes={classes} classFilter={classFilter} />
+
+      {selectedExam && <AIReportPanel exam={selectedExam} students={students} onUpdateExam={onUpdateExam} />}
     </div>
   );
 };
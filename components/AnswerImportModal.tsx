@@ -0,0 +1,280 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { Student, QuestionConfig } from '../types.ts';
+import {
+  parseSpreadsheetFile, guessAnswerMapping, buildAnswerPreview, getAnswerRowErrors, columnLabel,
+  AnswerMapping, AnswerPreviewRow
+} from '../utils/importUtils.ts';
+
+interface AnswerImportModalProps {
+  students: Student[];
+  questions: QuestionConfig[];
+  isWordTest: boolean;
+  onClose: () => void;
+  onApply: (answers: Record<string, Record<number, string>>, scores: Record<string, number>) => void;
+}
+
+const AnswerImportModal: React.FC<AnswerImportModalProps> = ({ students, questions, isWordTest, onClose, onApply }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<AnswerMapping>({ nameCol: -1, schoolCol: -1, scoreCol: -1, questionCols: {} });
+  const [previewRows, setPreviewRows] = useState<AnswerPreviewRow[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+
+  const columnCount = useMemo(() => rows.reduce((max, r) => Math.max(max, r.length), 0), [rows]);
+  const header = hasHeader ? rows[0] || [] : [];
+
+  // 매핑이 바뀌면 미리보기를 새로 만듦 (직접 고친 매칭은 초기화됨)
+  useEffect(() => {
+    if (rows.length === 0 || mapping.nameCol < 0) {
+      setPreviewRows([]);
+      return;
+    }
+    setPreviewRows(buildAnswerPreview(rows, mapping, questions, students, hasHeader, isWordTest));
+  }, [rows, mapping, questions, students, hasHeader, isWordTest]);
+
+  const rowErrors = useMemo(
+    () => previewRows.map(row => getAnswerRowErrors(row, previewRows)),
+    [previewRows]
+  );
+  const validCount = rowErrors.filter(errs => errs.length === 0).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsParsing(true);
+    try {
+      const parsed = await parseSpreadsheetFile(file);
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessAnswerMapping(parsed[0] || [], questions));
+    } catch (err: any) {
+      console.error("Import parse error:", err);
+      alert(`파일을 읽지 못했습니다: ${err.message}`);
+    } finally {
+      setIsParsing(false);
+      e.target.value = '';
+    }
+  };
+
+  // 시작 열을 고르면 1번 문항부터 연속된 열에 차례로 배정
+  const assignSequentialColumns = (startCol: number) => {
+    const questionCols: Record<number, number> = {};
+    questions.forEach((q, i) => {
+      const col = startCol + i;
+      questionCols[q.number] = startCol >= 0 && col < columnCount ? col : -1;
+    });
+    setMapping(prev => ({ ...prev, questionCols }));
+  };
+
+  const updateRowMatch = (rowNumber: number, studentId: string) => {
+    setPreviewRows(prev => prev.map(row => {
+      if (row.rowNumber !== rowNumber) return row;
+      if (!studentId) return { ...row, match: null };
+      const candidate = row.candidates.find(c => c.student.id === studentId);
+      const student = students.find(s => s.id === studentId);
+      return { ...row, match: candidate || (student ? { student, similarity: 0 } : null) };
+    }));
+  };
+
+  const handleApply = () => {
+    const answers: Record<string, Record<number, string>> = {};
+    const scores: Record<string, number> = {};
+    previewRows.forEach((row, i) => {
+      if (rowErrors[i].length > 0 || !row.match) return;
+      if (isWordTest && row.score !== undefined) scores[row.match.student.id] = row.score;
+      else answers[row.match.student.id] = row.answers;
+    });
+    const applied = Object.keys(isWordTest ? scores : answers).length;
+    if (applied === 0) {
+      alert('반영할 수 있는 행이 없습니다.');
+      return;
+    }
+    const skipped = previewRows.length - applied;
+    if (skipped > 0 && !window.confirm(`오류가 있는 ${skipped}행은 제외하고 ${applied}명의 답안을 입력표에 반영합니다. 계속할까요?`)) return;
+    onApply(answers, scores);
+    onClose();
+  };
+
+  const columnOptions = (
+    <>
+      <option value={-1}>사용 안 함</option>
+      {Array.from({ length: columnCount }, (_, i) => (
+        <option key={i} value={i}>{columnLabel(i, header[i])}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-6xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">답안 파일 가져오기</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">
+              {isWordTest ? 'CSV / Excel Score Import' : 'CSV / Excel Answer Sheet Import'}
+            </p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-10 overflow-y-auto flex-1 space-y-8 custom-scrollbar">
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black text-sm cursor-pointer hover:bg-slate-800 shadow-lg">
+              {isParsing ? '읽는 중...' : '파일 선택 (.csv, .xlsx)'}
+              <input type="file" accept=".csv,.txt,.tsv,.xlsx,.xls" onChange={handleFile} className="hidden" />
+            </label>
+            {fileName && <span className="text-xs font-bold text-slate-500">{fileName} · {rows.length}행</span>}
+            {rows.length > 0 && (
+              <label className="flex items-center gap-2 cursor-pointer ml-auto">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="w-4 h-4 rounded" />
+                <span className="text-[10px] font-black text-slate-400 uppercase">첫 행은 제목 행</span>
+              </label>
+            )}
+          </div>
+
+          {rows.length > 0 && (
+            <div className="space-y-4">
+              <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">1. 열 매핑</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">이름 (필수)</label>
+                  <select value={mapping.nameCol} onChange={(e) => setMapping(prev => ({ ...prev, nameCol: Number(e.target.value) }))} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none outline-none font-bold text-xs text-slate-800">
+                    {columnOptions}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">학교 (매칭 보조)</label>
+                  <select value={mapping.schoolCol} onChange={(e) => setMapping(prev => ({ ...prev, schoolCol: Number(e.target.value) }))} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none outline-none font-bold text-xs text-slate-800">
+                    {columnOptions}
+                  </select>
+                </div>
+                {isWordTest ? (
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">점수 (필수)</label>
+                    <select value={mapping.scoreCol} onChange={(e) => setMapping(prev => ({ ...prev, scoreCol: Number(e.target.value) }))} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none outline-none font-bold text-xs text-slate-800">
+                      {columnOptions}
+                    </select>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">1번 문항 시작 열 (연속 배정)</label>
+                    <select value={mapping.questionCols[questions[0]?.number] ?? -1} onChange={(e) => assignSequentialColumns(Number(e.target.value))} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none outline-none font-bold text-xs text-slate-800">
+                      {columnOptions}
+                    </select>
+                  </div>
+                )}
+              </div>
+              {!isWordTest && (
+                <div className="grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-10 gap-2">
+                  {questions.map(q => (
+                    <div key={q.number} className="p-2 bg-slate-50 rounded-xl">
+                      <span className="block text-[9px] font-black text-slate-400 mb-1">{q.number}번</span>
+                      <select
+                        value={mapping.questionCols[q.number] ?? -1}
+                        onChange={(e) => setMapping(prev => ({ ...prev, questionCols: { ...prev.questionCols, [q.number]: Number(e.target.value) } }))}
+                        className="w-full bg-white border-none rounded-lg text-[10px] font-black p-1 outline-none"
+                      >
+                        <option value={-1}>-</option>
+                        {Array.from({ length: columnCount }, (_, i) => (
+                          <option key={i} value={i}>{columnLabel(i)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {previewRows.length > 0 && (
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">2. 학생 매칭 및 검증</h4>
+                <p className="text-[10px] font-black uppercase">
+                  <span className="text-green-600">{validCount}행 반영 가능</span>
+                  <span className="text-slate-300 mx-2">/</span>
+                  <span className="text-red-500">{previewRows.length - validCount}행 오류</span>
+                </p>
+              </div>
+              <div className="rounded-2xl border border-slate-100 overflow-x-auto">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                      <th className="px-4 py-3">행</th>
+                      <th className="px-4 py-3">파일 속 이름</th>
+                      <th className="px-4 py-3">명단 매칭</th>
+                      <th className="px-4 py-3">{isWordTest ? '점수' : '답안'}</th>
+                      <th className="px-4 py-3">검증</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {previewRows.map((row, i) => {
+                      const errors = rowErrors[i];
+                      const isFuzzy = row.match && row.match.similarity < 1;
+                      return (
+                        <tr key={row.rowNumber} className={errors.length > 0 ? 'bg-red-50/50' : ''}>
+                          <td className="px-4 py-3 text-[10px] font-black text-slate-400">{row.rowNumber}</td>
+                          <td className="px-4 py-3">
+                            <p className="text-sm font-black text-slate-800">{row.rawName || '-'}</p>
+                            {row.rawSchool && <p className="text-[10px] font-bold text-slate-400">{row.rawSchool}</p>}
+                          </td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={row.match?.student.id || ''}
+                              onChange={(e) => updateRowMatch(row.rowNumber, e.target.value)}
+                              className={`px-3 py-2 rounded-xl border-2 outline-none text-xs font-black ${!row.match ? 'border-red-200 bg-white text-red-500' : isFuzzy ? 'border-amber-300 bg-amber-50 text-amber-700' : 'border-green-200 bg-green-50 text-green-700'}`}
+                            >
+                              <option value="">매칭 안 함</option>
+                              {row.candidates.map(c => (
+                                <option key={c.student.id} value={c.student.id}>
+                                  {c.student.name} ({c.student.school || '-'}) · {(c.similarity * 100).toFixed(0)}%
+                                </option>
+                              ))}
+                              <optgroup label="전체 명단">
+                                {students
+                                  .filter(s => !row.candidates.some(c => c.student.id === s.id))
+                                  .map(s => <option key={s.id} value={s.id}>{s.name} ({s.school || '-'})</option>)}
+                              </optgroup>
+                            </select>
+                          </td>
+                          <td className="px-4 py-3 text-[10px] font-mono text-slate-500 max-w-[280px] truncate">
+                            {isWordTest
+                              ? (row.score ?? '-')
+                              : questions.map(q => row.answers[q.number] || '·').join(' ')}
+                          </td>
+                          <td className="px-4 py-3">
+                            {errors.length === 0 ? (
+                              <span className="text-[10px] font-black text-green-600 uppercase">OK</span>
+                            ) : (
+                              <ul className="text-[10px] font-bold text-red-500 space-y-0.5">
+                                {errors.map((err, j) => <li key={j}>{err}</li>)}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-10 border-t border-slate-100 bg-slate-50/50">
+          <button
+            onClick={handleApply}
+            disabled={validCount === 0}
+            className="w-full bg-slate-900 text-white py-6 rounded-[2rem] font-black text-xl shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98] disabled:opacity-30"
+          >
+            {validCount}명 입력표에 반영
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnswerImportModal;
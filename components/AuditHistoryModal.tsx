@@ -0,0 +1,149 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { AuditEntry, AuditEntity } from '../types.ts';
+import { AUDIT_ACTION_LABELS } from '../utils/auditUtils.ts';
+
+interface AuditHistoryModalProps {
+  title: string;
+  loadEntries: () => Promise<AuditEntry[]>;
+  canRevert: (entry: AuditEntry) => boolean;
+  onRevert: (entry: AuditEntry) => Promise<void>;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  STUDENT: '학생',
+  EXAM: '시험',
+  SCORE: '성적',
+  BACKUP: '백업 복원'
+};
+
+const ACTION_STYLES = {
+  CREATE: 'bg-emerald-50 text-emerald-600',
+  UPDATE: 'bg-blue-50 text-blue-600',
+  DELETE: 'bg-red-50 text-red-500'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '-';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+// 변경 전후 스냅샷에서 달라진 항목만
+const changedValues = (entry: AuditEntry) => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ key, before: formatValue(before[key]), after: formatValue(after[key]) }));
+};
+
+const AuditHistoryModal: React.FC<AuditHistoryModalProps> = ({ title, loadEntries, canRevert, onRevert, onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [entityFilter, setEntityFilter] = useState<AuditEntity | 'ALL'>('ALL');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const refresh = async () => setEntries(await loadEntries());
+
+  useEffect(() => { refresh(); }, []);
+
+  const revertedIds = useMemo(() => new Set((entries || []).map(e => e.revertOf).filter(Boolean)), [entries]);
+  const visible = (entries || []).filter(e => entityFilter === 'ALL' || e.entity === entityFilter);
+
+  const handleRevert = async (entry: AuditEntry) => {
+    if (!window.confirm(`다음 변경을 되돌리시겠습니까?\n\n${entry.summary}`)) return;
+    setRevertingId(entry.id);
+    try {
+      await onRevert(entry);
+      await refresh();
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-4xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">변경 이력 · {title}</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">
+              {entries ? `${entries.length}건 · 최신순` : '불러오는 중...'}
+            </p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-10 overflow-y-auto flex-1 space-y-6 custom-scrollbar">
+          <div className="flex gap-2">
+            {(['ALL', 'STUDENT', 'EXAM', 'SCORE'] as const).map(f => (
+              <button
+                key={f}
+                onClick={() => setEntityFilter(f)}
+                className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${entityFilter === f ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-400 hover:text-slate-600'}`}
+              >
+                {f === 'ALL' ? '전체' : ENTITY_LABELS[f]}
+              </button>
+            ))}
+          </div>
+
+          {entries && visible.length === 0 && (
+            <p className="py-16 text-center text-slate-300 font-black">기록된 변경이 없습니다.</p>
+          )}
+
+          <div className="space-y-3">
+            {visible.map(entry => {
+              const isExpanded = expandedId === entry.id;
+              const changes = isExpanded ? changedValues(entry) : [];
+              return (
+                <div key={entry.id} className="p-5 rounded-[2rem] border border-slate-100 bg-slate-50/50">
+                  <div className="flex items-start justify-between gap-4">
+                    <button onClick={() => setExpandedId(isExpanded ? null : entry.id)} className="flex-1 min-w-0 text-left">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <span className={`px-2 py-0.5 rounded text-[10px] font-black ${ACTION_STYLES[entry.action]}`}>
+                          {ENTITY_LABELS[entry.entity]} {AUDIT_ACTION_LABELS[entry.action]}
+                        </span>
+                        {entry.revertOf && <span className="px-2 py-0.5 rounded text-[10px] font-black bg-amber-50 text-amber-600">되돌리기</span>}
+                        {revertedIds.has(entry.id) && <span className="px-2 py-0.5 rounded text-[10px] font-black bg-slate-200 text-slate-500">되돌림됨</span>}
+                      </div>
+                      <p className="text-sm font-black text-slate-800 break-all">{entry.summary}</p>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                        {new Date(entry.createdAt).toLocaleString('ko-KR')} · {entry.actor} · {entry.deviceId}
+                      </p>
+                    </button>
+                    {canRevert(entry) && (
+                      <button
+                        onClick={() => handleRevert(entry)}
+                        disabled={revertingId !== null}
+                        className="shrink-0 px-4 py-2 bg-white border border-slate-200 rounded-xl text-[11px] font-black text-slate-600 hover:border-slate-400 disabled:opacity-50"
+                      >
+                        {revertingId === entry.id ? '되돌리는 중...' : '되돌리기'}
+                      </button>
+                    )}
+                  </div>
+
+                  {isExpanded && (
+                    <div className="mt-4 space-y-2">
+                      {changes.length === 0 && <p className="text-xs font-bold text-slate-400">세부 값 없음</p>}
+                      {changes.map(c => (
+                        <div key={c.key} className="grid grid-cols-[8rem_1fr_1fr] gap-3 text-xs">
+                          <span className="font-black text-slate-400">{c.key}</span>
+                          <span className="font-bold text-red-500 break-all">{c.before}</span>
+                          <span className="font-bold text-emerald-600 break-all">{c.after}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditHistoryModal;
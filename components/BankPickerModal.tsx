@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { BankDifficulty, BankItem, Exam } from '../types.ts';
+import {
+  BankFilter, DIFFICULTY_LABELS, collectBankSources, filterBankItems, getBankItemStats
+} from '../utils/questionBankUtils.ts';
+
+interface BankPickerModalProps {
+  items: BankItem[];
+  exams: Exam[]; // 통계 표시용 (채점 완료 시험)
+  initialItemIds: string[]; // 현재 시험에 들어 있는 문제은행 문항 (문항 순서대로)
+  onClose: () => void;
+  onApply: (items: BankItem[]) => void;
+}
+
+const DIFFICULTIES: BankDifficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+const BankPickerModal: React.FC<BankPickerModalProps> = ({ items, exams, initialItemIds, onClose, onApply }) => {
+  const [filter, setFilter] = useState<BankFilter>({ query: '', tag: 'all', source: 'all', difficulty: 'all' });
+  const [pickedIds, setPickedIds] = useState<string[]>(() => initialItemIds.filter(id => items.some(i => i.id === id)));
+
+  const stats = useMemo(() => getBankItemStats(exams), [exams]);
+  const sources = useMemo(() => collectBankSources(items), [items]);
+  const tags = useMemo(() => Array.from(new Set<string>(items.flatMap(i => i.tags || []))).sort((a, b) => a.localeCompare(b, 'ko')), [items]);
+  const candidates = useMemo(() => filterBankItems(items, filter), [items, filter]);
+  const picked = useMemo(() => pickedIds.map(id => items.find(i => i.id === id)).filter((i): i is BankItem => !!i), [pickedIds, items]);
+
+  const totalPoint = picked.reduce((sum, i) => sum + i.point, 0);
+  const difficultyCounts = DIFFICULTIES.map(d => ({ d, count: picked.filter(i => i.difficulty === d).length }));
+
+  const togglePick = (id: string) =>
+    setPickedIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+
+  const addAllVisible = () =>
+    setPickedIds(prev => [...prev, ...candidates.map(i => i.id).filter(id => !prev.includes(id))]);
+
+  const movePicked = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pickedIds.length) return;
+    setPickedIds(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-6xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">문제은행에서 시험 구성</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">Assemble Exam From Question Bank</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-10 overflow-hidden flex-1 grid grid-cols-1 lg:grid-cols-5 gap-8 min-h-0">
+          <div className="lg:col-span-3 flex flex-col gap-4 min-h-0">
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="text"
+                placeholder="발문·선택지 검색..."
+                value={filter.query}
+                onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+                className="flex-1 min-w-[160px] px-4 py-2 bg-slate-50 rounded-xl text-xs font-bold border-none outline-none"
+              />
+              <select value={filter.tag} onChange={(e) => setFilter({ ...filter, tag: e.target.value })} className="bg-slate-50 border-none text-slate-700 text-xs font-black rounded-xl px-3 py-2 outline-none">
+                <option value="all">전체 영역</option>
+                {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+              </select>
+              <select value={filter.source} onChange={(e) => setFilter({ ...filter, source: e.target.value })} className="bg-slate-50 border-none text-slate-700 text-xs font-black rounded-xl px-3 py-2 outline-none">
+                <option value="all">전체 출처</option>
+                {sources.map(source => <option key={source} value={source}>{source}</option>)}
+              </select>
+              <select value={filter.difficulty} onChange={(e) => setFilter({ ...filter, difficulty: e.target.value as BankFilter['difficulty'] })} className="bg-slate-50 border-none text-slate-700 text-xs font-black rounded-xl px-3 py-2 outline-none">
+                <option value="all">전체 난이도</option>
+                {DIFFICULTIES.map(d => <option key={d} value={d}>난이도 {DIFFICULTY_LABELS[d]}</option>)}
+              </select>
+              <button onClick={addAllVisible} className="text-[10px] font-black text-slate-400 hover:text-slate-900 uppercase underline">모두 추가</button>
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+              {candidates.length === 0 && (
+                <p className="py-10 text-center text-sm font-bold text-slate-300">조건에 맞는 문항이 없습니다.</p>
+              )}
+              {candidates.map(item => {
+                const isPicked = pickedIds.includes(item.id);
+                const itemStats = stats.get(item.id);
+                return (
+                  <button
+                    key={item.id}
+                    onClick={() => togglePick(item.id)}
+                    className={`w-full p-4 rounded-2xl border-2 text-left transition-all ${isPicked ? 'border-slate-900 bg-slate-50' : 'border-slate-100 hover:border-slate-300'}`}
+                  >
+                    <div className="flex items-center gap-2 mb-1 text-[10px] font-black">
+                      <span className={isPicked ? 'text-slate-900' : 'text-slate-300'}>{isPicked ? '✓' : '+'}</span>
+                      {item.difficulty && <span className="text-slate-500">난이도 {DIFFICULTY_LABELS[item.difficulty]}</span>}
+                      {item.tags?.map(tag => <span key={tag} className="text-indigo-500">#{tag}</span>)}
+                      {item.source && <span className="text-slate-400">{item.source}</span>}
+                      <span className="ml-auto text-slate-400">
+                        {itemStats ? `출제 ${itemStats.usages.length}회 · 정답률 ${Math.round(itemStats.difficulty * 100)}%` : '미출제'}
+                      </span>
+                    </div>
+                    <p className="text-xs font-bold text-slate-700 line-clamp-2">{item.stem}</p>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 flex flex-col gap-4 min-h-0">
+            <div className="flex justify-between items-end">
+              <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">시험 문항 ({picked.length})</h4>
+              <p className="text-[10px] font-black text-slate-400">
+                총 {totalPoint}점 · {difficultyCounts.map(({ d, count }) => `${DIFFICULTY_LABELS[d]} ${count}`).join(' / ')}
+              </p>
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-1.5 pr-1 custom-scrollbar">
+              {picked.length === 0 && (
+                <p className="py-10 text-center text-xs font-bold text-slate-300">왼쪽에서 문항을 골라 순서대로 담으세요.</p>
+              )}
+              {picked.map((item, index) => (
+                <div key={item.id} className="flex items-center gap-2 p-2.5 bg-slate-50 rounded-xl">
+                  <span className="w-8 text-center text-[10px] font-black text-slate-400">{index + 1}번</span>
+                  <span className="flex-1 text-xs font-bold text-slate-700 truncate">{item.stem}</span>
+                  <button onClick={() => movePicked(index, -1)} className="text-slate-300 hover:text-slate-700 text-xs">▲</button>
+                  <button onClick={() => movePicked(index, 1)} className="text-slate-300 hover:text-slate-700 text-xs">▼</button>
+                  <button onClick={() => togglePick(item.id)} className="text-slate-300 hover:text-red-500 text-xs">✕</button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-10 border-t border-slate-100 bg-slate-50/50">
+          <button
+            onClick={() => onApply(picked)}
+            disabled={picked.length === 0}
+            className="w-full bg-slate-900 text-white py-6 rounded-[2rem] font-black text-xl shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98] disabled:opacity-30"
+          >
+            {picked.length}문항으로 정답지 구성
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BankPickerModal;
@@ -0,0 +1,246 @@
+
+import React, { useState, useMemo } from 'react';
+import { Student, ClassGroup, ClassSchedule, Weekday } from '../types.ts';
+import { WEEKDAYS, WEEKDAY_LABELS, formatSchedule } from '../utils/classUtils.ts';
+import { Permissions } from '../utils/authUtils.ts';
+
+interface ClassManagementProps {
+  students: Student[];
+  classes: ClassGroup[];
+  permissions: Permissions;
+  onAddClass: (group: ClassGroup) => void;
+  onUpdateClass: (group: ClassGroup) => void;
+  onDeleteClass: (id: string) => void;
+}
+
+const ClassManagement: React.FC<ClassManagementProps> = ({ students, classes, permissions, onAddClass, onUpdateClass, onDeleteClass }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingClassId, setEditingClassId] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [teacher, setTeacher] = useState('');
+  const [schedule, setSchedule] = useState<ClassSchedule[]>([]);
+  const [memberIds, setMemberIds] = useState<Set<string>>(new Set());
+  const [memberSearchTerm, setMemberSearchTerm] = useState('');
+  const [memberSchoolFilter, setMemberSchoolFilter] = useState('all');
+
+  const uniqueSchools = useMemo(() => {
+    const schools = students
+      .map(s => s.school?.trim())
+      .filter((s): s is string => !!s);
+    return Array.from(new Set(schools)).sort();
+  }, [students]);
+
+  const candidateStudents = useMemo(() => {
+    let list = [...students];
+    if (memberSchoolFilter !== 'all') {
+      list = list.filter(s => s.school === memberSchoolFilter);
+    }
+    if (memberSearchTerm.trim()) {
+      list = list.filter(s => s.name.toLowerCase().includes(memberSearchTerm.toLowerCase()));
+    }
+    return list.sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+  }, [students, memberSchoolFilter, memberSearchTerm]);
+
+  const resetForm = () => {
+    setEditingClassId(null);
+    setName('');
+    setTeacher('');
+    setSchedule([]);
+    setMemberIds(new Set());
+    setMemberSearchTerm('');
+    setMemberSchoolFilter('all');
+  };
+
+  const handleEditClick = (group: ClassGroup) => {
+    setEditingClassId(group.id);
+    setName(group.name);
+    setTeacher(group.teacher || '');
+    setSchedule(group.schedule || []);
+    setMemberIds(new Set(group.studentIds));
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      alert('반 이름을 입력해주세요.');
+      return;
+    }
+    const existing = classes.find(c => c.id === editingClassId);
+    const group: ClassGroup = {
+      id: editingClassId || Math.random().toString(36).substr(2, 9),
+      name: name.trim(),
+      teacher: teacher.trim() || undefined,
+      schedule: [...schedule].sort((a, b) => WEEKDAYS.indexOf(a.day) - WEEKDAYS.indexOf(b.day)),
+      // 삭제된 학생 id가 남지 않도록 현재 명단 기준으로 정리
+      studentIds: students.filter(s => memberIds.has(s.id)).map(s => s.id),
+      createdAt: existing?.createdAt ?? Date.now(),
+      teacherId: existing?.teacherId
+    };
+    if (editingClassId) onUpdateClass(group);
+    else onAddClass(group);
+    setIsEditing(false);
+    resetForm();
+  };
+
+  const toggleDay = (day: Weekday) => {
+    setSchedule(prev =>
+      prev.some(s => s.day === day)
+        ? prev.filter(s => s.day !== day)
+        : [...prev, { day, startTime: '18:00', endTime: '20:00' }]
+    );
+  };
+
+  const updateScheduleTime = (day: Weekday, field: 'startTime' | 'endTime', value: string) => {
+    setSchedule(prev => prev.map(s => s.day === day ? { ...s, [field]: value } : s));
+  };
+
+  const toggleMember = (id: string) => {
+    const next = new Set(memberIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setMemberIds(next);
+  };
+
+  const toggleAllVisibleMembers = () => {
+    const visibleIds = candidateStudents.map(s => s.id);
+    const next = new Set(memberIds);
+    if (visibleIds.length > 0 && visibleIds.every(id => next.has(id))) {
+      visibleIds.forEach(id => next.delete(id));
+    } else {
+      visibleIds.forEach(id => next.add(id));
+    }
+    setMemberIds(next);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {permissions.canCreateClasses && (
+        <button
+          onClick={() => { resetForm(); setIsEditing(true); }}
+          className="h-48 border-2 border-dashed border-slate-300 rounded-[2.5rem] flex flex-col items-center justify-center text-slate-500 hover:border-slate-900 hover:text-slate-900 hover:bg-slate-50 transition-all group"
+        >
+          <div className="w-14 h-14 bg-slate-100 rounded-2xl flex items-center justify-center mb-3 group-hover:bg-slate-900 group-hover:text-white transition-colors">
+            <span className="text-2xl font-bold">+</span>
+          </div>
+          <span className="font-black uppercase tracking-tight">새 반 만들기</span>
+        </button>
+        )}
+
+        {classes.map(group => (
+          <div key={group.id} className="p-8 rounded-[2.5rem] border border-slate-200 bg-white shadow-sm hover:border-slate-400 transition-all">
+            <div className="flex justify-between items-start mb-4">
+              <span className="px-2 py-0.5 bg-slate-900 text-white text-[9px] font-black rounded uppercase tracking-widest">
+                {group.studentIds.length}명
+              </span>
+              {permissions.canEditClass(group) && (
+                <div className="flex gap-2">
+                  <button onClick={() => handleEditClick(group)} className="text-slate-300 hover:text-blue-500 transition-colors">⚙️</button>
+                  <button onClick={() => onDeleteClass(group.id)} className="text-slate-300 hover:text-red-500 transition-colors">✕</button>
+                </div>
+              )}
+            </div>
+            <h4 className="text-xl font-black text-slate-800 truncate mb-1">{group.name}</h4>
+            <p className="text-xs text-slate-500 font-bold mb-1">{group.teacher ? `담당: ${group.teacher}` : '담당 강사 미정'}</p>
+            <p className="text-[10px] text-slate-400 font-bold">{formatSchedule(group)}</p>
+          </div>
+        ))}
+      </div>
+
+      {isEditing && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white w-full max-w-3xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+            <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+              <div>
+                <h3 className="text-2xl font-black text-slate-800">반 정보 설정</h3>
+                <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">Class Group Setup</p>
+              </div>
+              <button onClick={() => { setIsEditing(false); resetForm(); }} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+            </div>
+
+            <div className="p-10 overflow-y-auto flex-1 space-y-10 custom-scrollbar">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">반 이름</label>
+                  <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="예: 고1 A반" className="w-full px-5 py-4 bg-slate-50 rounded-2xl border-none outline-none font-black text-slate-800" />
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">담당 강사</label>
+                  <input type="text" value={teacher} onChange={(e) => setTeacher(e.target.value)} placeholder="예: 장현우" className="w-full px-5 py-4 bg-slate-50 rounded-2xl border-none outline-none font-black text-slate-800" />
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">수업 요일 및 시간</h4>
+                <div className="flex flex-wrap gap-2">
+                  {WEEKDAYS.map(day => (
+                    <button
+                      key={day}
+                      onClick={() => toggleDay(day)}
+                      className={`w-12 h-12 rounded-2xl text-xs font-black transition-all border-2 ${schedule.some(s => s.day === day) ? 'bg-slate-900 border-slate-900 text-white shadow-lg' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-300'}`}
+                    >
+                      {WEEKDAY_LABELS[day]}
+                    </button>
+                  ))}
+                </div>
+                {schedule.length > 0 && (
+                  <div className="space-y-2">
+                    {WEEKDAYS.filter(day => schedule.some(s => s.day === day)).map(day => {
+                      const slot = schedule.find(s => s.day === day)!;
+                      return (
+                        <div key={day} className="flex items-center gap-3 p-3 bg-slate-50 rounded-2xl">
+                          <span className="w-10 text-center text-xs font-black text-slate-600">{WEEKDAY_LABELS[day]}</span>
+                          <input type="time" value={slot.startTime} onChange={(e) => updateScheduleTime(day, 'startTime', e.target.value)} className="px-3 py-2 bg-white rounded-xl border-none outline-none text-xs font-black" />
+                          <span className="text-slate-300 font-black">~</span>
+                          <input type="time" value={slot.endTime} onChange={(e) => updateScheduleTime(day, 'endTime', e.target.value)} className="px-3 py-2 bg-white rounded-xl border-none outline-none text-xs font-black" />
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex flex-wrap justify-between items-center gap-3">
+                  <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">소속 학생 ({memberIds.size}명)</h4>
+                  <div className="flex items-center gap-2">
+                    <select value={memberSchoolFilter} onChange={(e) => setMemberSchoolFilter(e.target.value)} className="bg-slate-50 border-none text-slate-700 text-xs font-black rounded-xl px-4 py-2 outline-none">
+                      <option value="all">전체 학교</option>
+                      {uniqueSchools.map(sch => <option key={sch} value={sch}>{sch}</option>)}
+                    </select>
+                    <input type="text" placeholder="이름 검색..." value={memberSearchTerm} onChange={(e) => setMemberSearchTerm(e.target.value)} className="px-4 py-2 bg-slate-50 rounded-xl text-xs font-bold border-none outline-none" />
+                    <button onClick={toggleAllVisibleMembers} className="text-[10px] font-black text-slate-400 hover:text-slate-900 uppercase underline">전체 선택</button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 max-h-72 overflow-y-auto p-1 custom-scrollbar">
+                  {candidateStudents.map(student => {
+                    const isMember = memberIds.has(student.id);
+                    return (
+                      <button
+                        key={student.id}
+                        onClick={() => toggleMember(student.id)}
+                        className={`flex flex-col p-3 rounded-2xl border-2 text-left transition-all ${isMember ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-50 bg-slate-50 text-slate-600 hover:border-slate-200'}`}
+                      >
+                        <span className="font-black text-sm truncate">{student.name}</span>
+                        <span className={`text-[10px] font-bold truncate ${isMember ? 'text-white/50' : 'text-slate-400'}`}>{student.school || '-'}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+
+            <div className="p-10 border-t border-slate-100 bg-slate-50/50">
+              <button onClick={handleSave} className="w-full bg-slate-900 text-white py-6 rounded-[2rem] font-black text-xl shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98]">
+                반 정보 저장
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClassManagement;
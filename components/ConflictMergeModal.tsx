@@ -0,0 +1,184 @@
+
+import React, { useMemo, useState } from 'react';
+import { Student, Exam, ScoreEntry } from '../types.ts';
+import {
+  SyncConflicts, RecordConflict, MergeSide, FieldDiff, ScoreDiffRow,
+  diffStudentFields, diffExamFields, diffExamScores, mergeStudent, mergeExam
+} from '../utils/conflictUtils.ts';
+
+export interface ConflictResolution {
+  students: (RecordConflict<Student> & { merged: Student })[];
+  exams: (RecordConflict<Exam> & { merged: Exam })[];
+}
+
+interface ConflictMergeModalProps {
+  conflicts: SyncConflicts;
+  students: Student[];
+  onResolve: (resolution: ConflictResolution) => void;
+  onClose: () => void;
+}
+
+type Choices = Record<string, Record<string, MergeSide>>;
+
+const formatScore = (entry?: ScoreEntry) => {
+  if (!entry) return '기록 없음';
+  const wrong = entry.wrongQuestions?.length ? ` · 오답 ${entry.wrongQuestions.join(', ')}` : '';
+  return `${entry.score}점${wrong}`;
+};
+
+const formatStamp = (record: { updatedAt?: number; revision?: number }) =>
+  record.updatedAt
+    ? `${new Date(record.updatedAt).toLocaleString('ko-KR')} · r${record.revision ?? 0}`
+    : '버전 정보 없음';
+
+const SideButton: React.FC<{ active: boolean; side: MergeSide; value: string; onClick: () => void }> = ({ active, side, value, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`flex-1 min-w-0 text-left px-4 py-3 rounded-2xl border-2 transition-all ${
+      active
+        ? side === 'LOCAL' ? 'border-blue-500 bg-blue-50' : 'border-emerald-500 bg-emerald-50'
+        : 'border-slate-100 bg-white hover:border-slate-200'
+    }`}
+  >
+    <span className={`text-[10px] font-black uppercase tracking-widest ${active ? (side === 'LOCAL' ? 'text-blue-500' : 'text-emerald-600') : 'text-slate-400'}`}>
+      {side === 'LOCAL' ? '내 기기' : '서버'}
+    </span>
+    <p className="text-sm font-bold text-slate-700 break-all">{value}</p>
+  </button>
+);
+
+const ConflictMergeModal: React.FC<ConflictMergeModalProps> = ({ conflicts, students, onResolve, onClose }) => {
+  const studentName = (id: string) => students.find(s => s.id === id)?.name || 'Unknown';
+
+  // 레코드별 차이 목록 (기본 선택: 내 기기)
+  const entries = useMemo(() => [
+    ...conflicts.students.map(c => ({
+      key: `student:${c.local.id}`,
+      title: `👤 ${c.local.name}`,
+      conflict: c,
+      fields: diffStudentFields(c.local, c.cloud),
+      scores: [] as ScoreDiffRow[]
+    })),
+    ...conflicts.exams.map(c => ({
+      key: `exam:${c.local.id}`,
+      title: `📝 ${c.local.title}`,
+      conflict: c,
+      fields: diffExamFields(c.local, c.cloud),
+      scores: diffExamScores(c.local, c.cloud)
+    }))
+  ], [conflicts]);
+
+  const [fieldChoices, setFieldChoices] = useState<Choices>({});
+  const [scoreChoices, setScoreChoices] = useState<Choices>({});
+
+  const getSide = (choices: Choices, key: string, item: string): MergeSide => choices[key]?.[item] || 'LOCAL';
+
+  const choose = (setter: React.Dispatch<React.SetStateAction<Choices>>, key: string, item: string, side: MergeSide) =>
+    setter(prev => ({ ...prev, [key]: { ...prev[key], [item]: side } }));
+
+  const chooseAll = (side: MergeSide, onlyKey?: string) => {
+    const nextFields: Choices = { ...fieldChoices };
+    const nextScores: Choices = { ...scoreChoices };
+    entries.filter(e => !onlyKey || e.key === onlyKey).forEach(e => {
+      nextFields[e.key] = Object.fromEntries(e.fields.map(f => [f.key, side]));
+      nextScores[e.key] = Object.fromEntries(e.scores.map(s => [s.studentId, side]));
+    });
+    setFieldChoices(nextFields);
+    setScoreChoices(nextScores);
+  };
+
+  const resolveChoices = (key: string, rows: { id: string }[], choices: Choices) =>
+    Object.fromEntries(rows.map(r => [r.id, getSide(choices, key, r.id)]));
+
+  const handleApply = () => {
+    const resolution: ConflictResolution = { students: [], exams: [] };
+    entries.forEach(e => {
+      const fields = resolveChoices(e.key, e.fields.map(f => ({ id: f.key })), fieldChoices);
+      if (e.key.startsWith('student:')) {
+        const conflict = e.conflict as RecordConflict<Student>;
+        resolution.students.push({ ...conflict, merged: mergeStudent(conflict, fields) });
+      } else {
+        const conflict = e.conflict as RecordConflict<Exam>;
+        const scores = resolveChoices(e.key, e.scores.map(s => ({ id: s.studentId })), scoreChoices);
+        resolution.exams.push({ ...conflict, merged: mergeExam(conflict, fields, scores) });
+      }
+    });
+    onResolve(resolution);
+  };
+
+  const renderField = (key: string, field: FieldDiff) => (
+    <div key={field.key} className="space-y-2">
+      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">{field.label}</label>
+      <div className="flex gap-3">
+        <SideButton side="LOCAL" value={field.local} active={getSide(fieldChoices, key, field.key) === 'LOCAL'} onClick={() => choose(setFieldChoices, key, field.key, 'LOCAL')} />
+        <SideButton side="CLOUD" value={field.cloud} active={getSide(fieldChoices, key, field.key) === 'CLOUD'} onClick={() => choose(setFieldChoices, key, field.key, 'CLOUD')} />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-6xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">동기화 충돌 병합</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">
+              이 기기와 서버에서 모두 수정된 {entries.length}건 · 남길 값을 선택하세요
+            </p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-10 overflow-y-auto flex-1 space-y-8 custom-scrollbar">
+          <div className="flex gap-3">
+            <button onClick={() => chooseAll('LOCAL')} className="px-5 py-3 bg-blue-50 text-blue-600 rounded-xl text-xs font-black hover:bg-blue-100">모두 내 기기 값으로</button>
+            <button onClick={() => chooseAll('CLOUD')} className="px-5 py-3 bg-emerald-50 text-emerald-600 rounded-xl text-xs font-black hover:bg-emerald-100">모두 서버 값으로</button>
+          </div>
+
+          {entries.map(e => (
+            <div key={e.key} className="p-8 rounded-[2.5rem] border border-slate-100 bg-slate-50/50 space-y-6">
+              <div className="flex flex-wrap justify-between items-start gap-4">
+                <div>
+                  <h4 className="text-lg font-black text-slate-800">{e.title}</h4>
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">
+                    내 기기 {formatStamp(e.conflict.local)} / 서버 {formatStamp(e.conflict.cloud)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => chooseAll('LOCAL', e.key)} className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-[11px] font-black text-blue-600">전부 내 기기</button>
+                  <button onClick={() => chooseAll('CLOUD', e.key)} className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-[11px] font-black text-emerald-600">전부 서버</button>
+                </div>
+              </div>
+
+              {e.fields.length > 0 && <div className="space-y-4">{e.fields.map(f => renderField(e.key, f))}</div>}
+
+              {e.scores.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">학생별 성적 ({e.scores.length}명 다름)</label>
+                  {e.scores.map(row => (
+                    <div key={row.studentId} className="flex items-center gap-3">
+                      <span className="w-24 shrink-0 text-sm font-black text-slate-700 truncate">{studentName(row.studentId)}</span>
+                      <SideButton side="LOCAL" value={formatScore(row.local)} active={getSide(scoreChoices, e.key, row.studentId) === 'LOCAL'} onClick={() => choose(setScoreChoices, e.key, row.studentId, 'LOCAL')} />
+                      <SideButton side="CLOUD" value={formatScore(row.cloud)} active={getSide(scoreChoices, e.key, row.studentId) === 'CLOUD'} onClick={() => choose(setScoreChoices, e.key, row.studentId, 'CLOUD')} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-8 border-t border-slate-100 bg-slate-50/50">
+          <button
+            onClick={handleApply}
+            className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black text-lg shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98]"
+          >
+            선택한 값으로 병합 ({entries.length}건)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictMergeModal;
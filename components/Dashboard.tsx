@@ -1,7 +1,10 @@
 
 import React, { useState, useMemo } from 'react';
-import { Student, Exam } from '../types.ts';
-import { calculateExamResults, getExamSummary } from '../utils/gradingUtils.ts';
+import { Student, Exam, ClassGroup } from '../types.ts';
+import { calculateExamResults, getExamSummary, getScoreMetricValue, ScoreMetric, SCORE_METRIC_LABELS } from '../utils/gradingUtils.ts';
+import { filterResultsByClass } from '../utils/classUtils.ts';
+import GradeBadge from './GradeBadge.tsx';
+import GradeDistributionChart from './GradeDistributionChart.tsx';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
 } from 'recharts';
@@ -9,10 +12,13 @@ import {
 interface DashboardProps {
   students: Student[];
   exams: Exam[];
+  classes: ClassGroup[];
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ students, exams }) => {
+const Dashboard: React.FC<DashboardProps> = ({ students, exams, classes }) => {
   const [sortOrder, setSortOrder] = useState<'ASC' | 'DESC'>('DESC');
+  const [classFilter, setClassFilter] = useState<string>('all');
+  const [trendMetric, setTrendMetric] = useState<ScoreMetric>('RAW');
 
   if (exams.length === 0) {
     return (
@@ -25,7 +31,7 @@ const Dashboard: React.FC<DashboardProps> = ({ students, exams }) => {
   }
 
   const latestExam = exams[exams.length - 1];
-  const results = calculateExamResults(latestExam, students);
+  const results = filterResultsByClass(calculateExamResults(latestExam, students), classes, classFilter);
   const summary = getExamSummary(results, latestExam.totalQuestions);
   const unit = latestExam.type === 'RANKING' ? '점' : '개';
 
@@ -36,11 +42,13 @@ const Dashboard: React.FC<DashboardProps> = ({ students, exams }) => {
   }, [results, sortOrder]);
 
   const recentExamsData = exams.slice(-5).map(e => {
-    const res = calculateExamResults(e, students);
+    const res = filterResultsByClass(calculateExamResults(e, students), classes, classFilter);
     const sum = getExamSummary(res, e.totalQuestions);
+    // 표준화 점수는 시험 응시자 전체 기준이라 반 평균을 시험끼리 비교할 수 있음
+    const metricAverage = res.length > 0 ? res.reduce((acc, r) => acc + getScoreMetricValue(r, trendMetric), 0) / res.length : 0;
     return {
       name: e.title.length > 8 ? e.title.substring(0, 8) + '...' : e.title,
-      평균: Number(sum.average.toFixed(1)),
+      평균: trendMetric === 'RAW' ? Number(sum.average.toFixed(1)) : Number(metricAverage.toFixed(trendMetric === 'Z' ? 2 : 1)),
       type: e.type
     };
   });
@@ -69,26 +77,43 @@ const Dashboard: React.FC<DashboardProps> = ({ students, exams }) => {
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Average Chart */}
-        <div className="lg:col-span-1 bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm">
-          <h3 className="text-sm font-black text-slate-800 mb-6 flex items-center gap-2">
-            <span className="w-2 h-6 bg-blue-600 rounded-full"></span>
-            평균 성적 추이
-          </h3>
-          <div className="h-64">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={recentExamsData}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 'bold'}} />
-                <YAxis axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 'bold'}} />
-                <Tooltip 
-                  cursor={{fill: '#f8fafc'}} 
-                  contentStyle={{borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)', fontWeight: 'black'}} 
-                  formatter={(value, name, props) => [`${value}${props.payload.type === 'RANKING' ? '점' : '개'}`, '평균']} 
-                />
-                <Bar dataKey="평균" fill="#1e293b" radius={[6, 6, 0, 0]} barSize={32} />
-              </BarChart>
-            </ResponsiveContainer>
+        <div className="lg:col-span-1 space-y-8">
+          <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm">
+            <div className="flex items-center justify-between gap-2 mb-6">
+              <h3 className="text-sm font-black text-slate-800 flex items-center gap-2">
+                <span className="w-2 h-6 bg-blue-600 rounded-full"></span>
+                평균 성적 추이
+              </h3>
+              <select value={trendMetric} onChange={(e) => setTrendMetric(e.target.value as ScoreMetric)} className="bg-slate-100 border-none text-slate-700 text-[10px] font-black rounded-xl px-3 py-2 outline-none">
+                {(Object.keys(SCORE_METRIC_LABELS) as ScoreMetric[]).map(m => <option key={m} value={m}>{SCORE_METRIC_LABELS[m]}</option>)}
+              </select>
+            </div>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={recentExamsData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 'bold'}} />
+                  <YAxis axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 'bold'}} />
+                  <Tooltip 
+                    cursor={{fill: '#f8fafc'}} 
+                    contentStyle={{borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)', fontWeight: 'black'}} 
+                    formatter={(value, name, props) => [trendMetric === 'RAW' ? `${value}${props.payload.type === 'RANKING' ? '점' : '개'}` : `${value}`, trendMetric === 'RAW' ? '평균' : `평균 ${SCORE_METRIC_LABELS[trendMetric]}`]} 
+                  />
+                  <Bar dataKey="평균" fill="#1e293b" radius={[6, 6, 0, 0]} barSize={32} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
           </div>
+
+          {latestExam.gradeScale && (
+            <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm">
+              <h3 className="text-sm font-black text-slate-800 mb-6 flex items-center gap-2">
+                <span className="w-2 h-6 bg-green-500 rounded-full"></span>
+                최근 시험 등급 분포
+              </h3>
+              <GradeDistributionChart results={results} scale={latestExam.gradeScale} />
+            </div>
+          )}
         </div>
 
         {/* All Students Results List */}
@@ -98,19 +123,27 @@ const Dashboard: React.FC<DashboardProps> = ({ students, exams }) => {
               <span className="w-2 h-6 bg-slate-900 rounded-full"></span>
               최근 시험 전체 결과: <span className="text-blue-600 ml-1">{latestExam.title}</span>
             </h3>
-            <div className="flex bg-slate-100 p-1 rounded-xl">
-              <button 
-                onClick={() => setSortOrder('DESC')} 
-                className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${sortOrder === 'DESC' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}
-              >
-                고득점순
-              </button>
-              <button 
-                onClick={() => setSortOrder('ASC')} 
-                className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${sortOrder === 'ASC' ? 'bg-white text-red-500 shadow-sm' : 'text-slate-400'}`}
-              >
-                저득점순
-              </button>
+            <div className="flex items-center gap-2">
+              {classes.length > 0 && (
+                <select value={classFilter} onChange={(e) => setClassFilter(e.target.value)} className="bg-slate-100 border-none text-slate-700 text-[10px] font-black rounded-xl px-3 py-2 outline-none">
+                  <option value="all">전체 반</option>
+                  {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+              )}
+              <div className="flex bg-slate-100 p-1 rounded-xl">
+                <button 
+                  onClick={() => setSortOrder('DESC')} 
+                  className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${sortOrder === 'DESC' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}
+                >
+                  고득점순
+                </button>
+                <button 
+                  onClick={() => setSortOrder('ASC')} 
+                  className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${sortOrder === 'ASC' ? 'bg-white text-red-500 shadow-sm' : 'text-slate-400'}`}
+                >
+                  저득점순
+                </button>
+              </div>
             </div>
           </div>
           
@@ -121,6 +154,7 @@ const Dashboard: React.FC<DashboardProps> = ({ students, exams }) => {
                   <th className="px-8 py-4">순위</th>
                   <th className="px-8 py-4">이름 (학교)</th>
                   <th className="px-8 py-4">성적</th>
+                  {latestExam.gradeScale && <th className="px-8 py-4">등급</th>}
                   <th className="px-8 py-4 text-center">백분위</th>
                 </tr>
               </thead>
@@ -150,6 +184,11 @@ const Dashboard: React.FC<DashboardProps> = ({ students, exams }) => {
                           <span className="text-xs ml-0.5 opacity-50 font-bold">{unit}</span>
                         </span>
                       </td>
+                      {latestExam.gradeScale && (
+                        <td className="px-8 py-4">
+                          <GradeBadge grade={student.grade} gradeIndex={student.gradeIndex} bandCount={latestExam.gradeScale.bands.length} />
+                        </td>
+                      )}
                       <td className="px-8 py-4 text-center">
                         <span className={`px-2 py-1 rounded text-[10px] font-black ${
                           student.percentile <= 20 ? 'bg-blue-50 text-blue-600' :
@@ -167,7 +206,7 @@ const Dashboard: React.FC<DashboardProps> = ({ students, exams }) => {
           </div>
           <div className="p-4 bg-slate-50 text-center border-t border-slate-100">
              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest italic">
-               * {latestExam.scores.length}명의 응시생 성적 정보가 모두 표시되고 있습니다.
+               * {results.length}명의 응시생 성적 정보가 모두 표시되고 있습니다.
              </p>
           </div>
         </div>
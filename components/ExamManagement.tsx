@@ -1,35 +1,119 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { Student, Exam, ScoreEntry, ExamType, QuestionConfig, QuestionType, CalculatedResult } from '../types.ts';
-import { calculateExamResults, getExamSummary, getSchoolBreakdown, SchoolStat } from '../utils/gradingUtils.ts';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Student, Exam, ExamStatus, ScoreEntry, ExamType, QuestionConfig, QuestionType, CalculatedResult, ClassGroup, RankingMode, GradeScale, GradePreset, UserProfile, BankItem, OmrRosterAssignment } from '../types.ts';
+import { calculateExamResults, getExamSummary, getSchoolBreakdown, SchoolStat, RANKING_MODE_LABELS, GRADE_PRESET_LABELS, createGradeScale, isFinalizedExam } from '../utils/gradingUtils.ts';
+import { getClassMemberIds } from '../utils/classUtils.ts';
+import { scoreAnswerSheet, gradeQuestion } from '../utils/scoringUtils.ts';
+import { applyScoreEdits } from '../utils/syncUtils.ts';
+import GradeBadge from './GradeBadge.tsx';
+import GradeDistributionChart from './GradeDistributionChart.tsx';
+import ScoreDistributionChart from './ScoreDistributionChart.tsx';
+import AnswerImportModal from './AnswerImportModal.tsx';
+import ReportCardGenerator from './ReportCardGenerator.tsx';
+import AIReportPanel from './AIReportPanel.tsx';
+import OcrCaptureModal from './OcrCaptureModal.tsx';
+import OmrModal from './OmrModal.tsx';
+import BankPickerModal from './BankPickerModal.tsx';
+import { exportResultsToCsv, exportResultsToXlsx } from '../utils/exportUtils.ts';
+import { Permissions } from '../utils/authUtils.ts';
+import {
+  GridState, GridChange, EditCommand, EditHistory, HistoryDirection, EMPTY_HISTORY,
+  applyCommand, createCommand, pushCommand, stepHistory, dropQuestionChanges
+} from '../utils/editHistoryUtils.ts';
+import {
+  GridSelection, selectionBounds, isRangeSelection, isCellInSelection, parseClipboardGrid,
+  normalizeCellValue, getCellError
+} from '../utils/gridEntryUtils.ts';
+import { OMR_CHOICES } from '../utils/omrUtils.ts';
+import { collectSkillTags, normalizeTag, parseQuestionRange } from '../utils/masteryUtils.ts';
+import { bankItemToQuestion, questionToBankItem } from '../utils/questionBankUtils.ts';
 
 interface ExamManagementProps {
   students: Student[];
   exams: Exam[];
+  classes: ClassGroup[];
+  permissions: Permissions;
+  graders: UserProfile[]; // 시험에 배정할 수 있는 채점 알바 계정
+  bankItems: BankItem[];
+  onAddBankItems: (items: BankItem[]) => void;
+  onShowHistory: (exam: Exam) => void;
   onAddExam: (exam: Exam) => void;
   onUpdateExam: (exam: Exam) => void;
   onDeleteExam: (id: string) => void;
 }
 
-const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddExam, onUpdateExam, onDeleteExam }) => {
+// 완료된 시험을 수정하다 저장하지 않고 닫은 입력표 (초안 시험은 서버에 자동 저장되므로 제외)
+const DRAFT_KEY = 'exam_form_draft';
+const AUTOSAVE_DELAY_MS = 1500;
+
+interface ExamFormDraft {
+  key: string; // 수정 중인 시험 id
+  savedAt: number;
+  form: GridState & {
+    examType: ExamType;
+    title: string;
+    totalQuestions: number;
+    selectedSchools: string[];
+    selectedClassIds: string[];
+    passThreshold: number | '';
+    noPassThreshold: boolean;
+    rankingMode: RankingMode;
+    gradeScale: GradeScale | null;
+    graderIds: string[];
+    omrRoster?: OmrRosterAssignment[];
+  };
+  history: EditHistory;
+}
+
+const loadDraft = (): ExamFormDraft | null => {
+  try {
+    return JSON.parse(localStorage.getItem(DRAFT_KEY) || 'null');
+  } catch (e) {
+    return null;
+  }
+};
+
+const clearDraft = () => localStorage.removeItem(DRAFT_KEY);
+
+const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, classes, permissions, graders, bankItems, onAddBankItems, onShowHistory, onAddExam, onUpdateExam, onDeleteExam }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [editingExamId, setEditingExamId] = useState<string | null>(null);
+  const [formExamId, setFormExamId] = useState(''); // 새 시험도 처음 열 때 id를 정해 초안 저장에 사용
+  const [autosavedAt, setAutosavedAt] = useState<number | null>(null);
+  const lastAutosave = useRef<string | null>(null);
+  const scoreBase = useRef<ScoreEntry[]>([]); // 마지막으로 불러오거나 저장한 시점의 성적 (이 화면에서 바꾼 행만 골라 전송)
   
   const [examType, setExamType] = useState<ExamType>('RANKING');
   const [title, setTitle] = useState('');
   const [totalQuestions, setTotalQuestions] = useState(20);
   const [questions, setQuestions] = useState<QuestionConfig[]>([]);
   const [selectedSchools, setSelectedSchools] = useState<string[]>([]);
+  const [selectedClassIds, setSelectedClassIds] = useState<string[]>([]);
   const [passThreshold, setPassThreshold] = useState<number | ''>('');
   const [noPassThreshold, setNoPassThreshold] = useState(false);
+  const [rankingMode, setRankingMode] = useState<RankingMode>('COMPETITION');
+  const [gradeScale, setGradeScale] = useState<GradeScale | null>(null);
+  const [graderIds, setGraderIds] = useState<string[]>([]);
+  const [omrRoster, setOmrRoster] = useState<OmrRosterAssignment[]>([]);
   const [studentSearchTerm, setStudentSearchTerm] = useState('');
   
   const [resultViewMode, setResultViewMode] = useState<'OVERALL' | 'SCHOOL'>('OVERALL');
   
   const [studentAnswers, setStudentAnswers] = useState<Record<string, Record<number, string>>>({});
   const [simpleScores, setSimpleScores] = useState<Record<string, number>>({});
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [selection, setSelection] = useState<GridSelection | null>(null);
+  const [isKeypadMode, setIsKeypadMode] = useState(false); // 선택지 번호 한 자리 입력 후 다음 문항으로 자동 이동
+  const [bulkTag, setBulkTag] = useState('');
+  const [bulkTagRange, setBulkTagRange] = useState('');
+  const [isBankPickerOpen, setIsBankPickerOpen] = useState(false);
+  const keepQuestionsOnResize = useRef(false); // 문제은행으로 구성한 문항 수 변경은 기본 문항으로 초기화하지 않음
   
   const [selectedExamId, setSelectedExamId] = useState<string | null>(null);
+  const [isImportingAnswers, setIsImportingAnswers] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isOmrOpen, setIsOmrOpen] = useState(false);
+  const [ocrTarget, setOcrTarget] = useState<'FORM' | 'NEW' | null>(null); // 사진 인식 결과를 반영할 곳
 
   const availableSchools = useMemo(() => {
     const schools = students
@@ -39,39 +123,85 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
   }, [students]);
 
   useEffect(() => {
+    if (keepQuestionsOnResize.current) {
+      keepQuestionsOnResize.current = false;
+      return;
+    }
     if (!editingExamId && examType !== 'WORD_TEST') {
       const defaultPoint = examType === 'VOCAB' ? 1 : Math.floor(100 / totalQuestions);
       const newQuestions: QuestionConfig[] = Array.from({ length: totalQuestions }, (_, i) => ({
         number: i + 1,
         type: 'MULTIPLE',
         correctAnswer: '',
-        point: defaultPoint
+        point: defaultPoint,
+        ignoreCase: examType === 'VOCAB' || undefined
       }));
       setQuestions(newQuestions);
+      setHistory(dropQuestionChanges);
     }
   }, [totalQuestions, editingExamId, examType]);
 
+  const formExam = exams.find(e => e.id === formExamId);
+  // 새 시험이나 초안을 여는 중이면 서버에 초안으로 자동 저장
+  const isDraftForm = !editingExamId || formExam?.status === 'DRAFT';
+
+  // 완료된 시험 수정 중 되돌리기 대상이 되는 입력이 있으면 기기에 임시 저장
+  useEffect(() => {
+    if (!isAdding || isDraftForm || history.past.length + history.future.length === 0) return;
+    const draft: ExamFormDraft = {
+      key: formExamId,
+      savedAt: Date.now(),
+      form: {
+        examType, title, totalQuestions, selectedSchools, selectedClassIds, passThreshold, noPassThreshold,
+        rankingMode, gradeScale, graderIds, omrRoster, questions, studentAnswers, simpleScores
+      },
+      history
+    };
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+  }, [isAdding, isDraftForm, history, formExamId, examType, title, totalQuestions, selectedSchools, selectedClassIds, passThreshold,
+      noPassThreshold, rankingMode, gradeScale, graderIds, omrRoster, questions, studentAnswers, simpleScores]);
+
+  const targetStudentsForInput = useMemo(() => {
+    const classMemberIds = getClassMemberIds(classes, selectedClassIds);
+    if (classMemberIds) return students.filter(s => classMemberIds.has(s.id));
+    if (selectedSchools.length > 0) return students.filter(s => s.school && selectedSchools.includes(s.school));
+    return students;
+  }, [students, classes, selectedClassIds, selectedSchools]);
+
   const filteredStudentsForInput = useMemo(() => {
-    let base = students;
-    if (selectedSchools.length > 0) {
-      base = base.filter(s => s.school && selectedSchools.includes(s.school));
-    }
+    let base = targetStudentsForInput;
     if (studentSearchTerm.trim()) {
       base = base.filter(s => s.name.toLowerCase().includes(studentSearchTerm.toLowerCase()));
     }
-    return base.sort((a, b) => a.name.localeCompare(b.name, 'ko'));
-  }, [students, selectedSchools, studentSearchTerm]);
+    return base.slice().sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+  }, [targetStudentsForInput, studentSearchTerm]);
+
+  // 보이는 학생·문항이 바뀌면 선택 범위 좌표가 어긋나므로 해제
+  useEffect(() => setSelection(null), [filteredStudentsForInput, questions.length, examType]);
+
+  const invalidCellCount = useMemo(() => {
+    if (examType === 'WORD_TEST') return 0;
+    return targetStudentsForInput.reduce((count, student) =>
+      count + questions.filter(q => getCellError(q, studentAnswers[student.id]?.[q.number] || '')).length, 0);
+  }, [examType, targetStudentsForInput, questions, studentAnswers]);
 
   const handleEditClick = (e: React.MouseEvent, exam: Exam) => {
     e.stopPropagation();
     setEditingExamId(exam.id);
+    setFormExamId(exam.id);
     setTitle(exam.title);
     setExamType(exam.type);
     setTotalQuestions(exam.totalQuestions);
     setQuestions(exam.questions || []);
     setSelectedSchools(exam.targetSchools || []);
+    setSelectedClassIds(exam.targetClassIds || []);
     setPassThreshold(exam.passThreshold ?? '');
     setNoPassThreshold(exam.passThreshold === undefined);
+    setRankingMode(exam.rankingMode || 'COMPETITION');
+    setGradeScale(exam.gradeScale || null);
+    setGraderIds(exam.graderIds || []);
+    setOmrRoster(exam.omrRoster || []);
+    scoreBase.current = exam.scores;
     
     if (exam.type === 'WORD_TEST') {
       const scores: Record<string, number> = {};
@@ -82,15 +212,45 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
       exam.scores.forEach(s => answers[s.studentId] = s.studentAnswers || {});
       setStudentAnswers(answers);
     }
+    setHistory(EMPTY_HISTORY);
+    lastAutosave.current = null;
+    setAutosavedAt(null);
     setIsAdding(true);
+    if (exam.status !== 'DRAFT') restoreDraft(exam.id);
   };
 
-  const handleCreateOrUpdateExam = () => {
-    if (!title.trim()) {
-      alert("시험 제목을 입력해주세요.");
+  const openNewExamForm = () => {
+    resetForm();
+    setIsAdding(true);
+  };
+
+  const restoreDraft = (key: string) => {
+    const draft = loadDraft();
+    if (!draft || draft.key !== key) return;
+    const count = draft.history.past.length;
+    if (!window.confirm(`${new Date(draft.savedAt).toLocaleString('ko-KR')}에 저장하지 않고 닫은 입력(${count}건)이 있습니다. 이어서 작성할까요?`)) {
+      clearDraft();
       return;
     }
+    const f = draft.form;
+    setExamType(f.examType);
+    setTitle(f.title);
+    setTotalQuestions(f.totalQuestions);
+    setSelectedSchools(f.selectedSchools);
+    setSelectedClassIds(f.selectedClassIds);
+    setPassThreshold(f.passThreshold);
+    setNoPassThreshold(f.noPassThreshold);
+    setRankingMode(f.rankingMode);
+    setGradeScale(f.gradeScale);
+    setGraderIds(f.graderIds);
+    setOmrRoster(f.omrRoster || []);
+    setQuestions(f.questions);
+    setStudentAnswers(f.studentAnswers);
+    setSimpleScores(f.simpleScores);
+    setHistory(draft.history);
+  };
 
+  const buildFormScores = (): ScoreEntry[] => {
     let scores: ScoreEntry[] = [];
     if (examType === 'WORD_TEST') {
       scores = students
@@ -105,111 +265,468 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
         .filter(s => studentAnswers[s.id] !== undefined)
         .map(s => {
           const answers = studentAnswers[s.id] || {};
-          let totalScore = 0;
-          const wrongQuestions: number[] = [];
-          questions.forEach(q => {
-            const studentAns = (answers[q.number] || '').trim();
-            if (q.type === 'MULTIPLE') {
-              if (studentAns === q.correctAnswer && q.correctAnswer !== '') {
-                totalScore += q.point;
-              } else if (q.correctAnswer !== '') {
-                wrongQuestions.push(q.number);
-              }
-            } else {
-              if (studentAns === 'O') totalScore += q.point;
-              else wrongQuestions.push(q.number);
-            }
-          });
+          const { score, wrongQuestions } = scoreAnswerSheet(questions, answers);
           return {
             studentId: s.id,
-            score: totalScore,
+            score,
             wrongQuestions,
             studentAnswers: answers
           };
         });
     }
+    return scores;
+  };
 
-    const examData: Exam = {
-      id: editingExamId || Math.random().toString(36).substr(2, 9),
-      title,
-      date: editingExamId ? exams.find(e => e.id === editingExamId)!.date : new Date().toISOString(),
-      type: examType,
-      totalQuestions,
-      questions: examType === 'WORD_TEST' ? undefined : questions,
-      maxScore: examType === 'WORD_TEST' ? totalQuestions : questions.reduce((acc, q) => acc + q.point, 0),
-      targetSchools: selectedSchools.length > 0 ? selectedSchools : undefined,
-      passThreshold: noPassThreshold ? undefined : (passThreshold === '' ? undefined : Number(passThreshold)),
-      scores
-    };
+  // 성적은 최신 성적에 이 화면에서 바꾼 행만 반영
+  const buildExamData = (status: ExamStatus, formScores = buildFormScores()): Exam => ({
+    id: formExamId,
+    title: title.trim() || (status === 'DRAFT' ? '제목 없는 초안' : title),
+    date: formExam?.date || new Date().toISOString(),
+    type: examType,
+    totalQuestions,
+    questions: examType === 'WORD_TEST' ? undefined : questions,
+    maxScore: examType === 'WORD_TEST' ? totalQuestions : questions.reduce((acc, q) => acc + q.point, 0),
+    targetSchools: selectedClassIds.length === 0 && selectedSchools.length > 0 ? selectedSchools : undefined,
+    targetClassIds: selectedClassIds.length > 0 ? selectedClassIds : undefined,
+    passThreshold: noPassThreshold ? undefined : (passThreshold === '' ? undefined : Number(passThreshold)),
+    rankingMode,
+    gradeScale: gradeScale || undefined,
+    graderIds: graderIds.length > 0 ? graderIds : undefined,
+    omrRoster: omrRoster.length > 0 ? omrRoster : undefined,
+    // 저장된 AI 리포트는 유지 (데이터가 바뀌면 패널에서 갱신 안내)
+    aiReport: formExam?.aiReport,
+    status,
+    scores: applyScoreEdits(formExam?.scores || [], scoreBase.current, formScores)
+  });
 
-    if (editingExamId) onUpdateExam(examData);
+  // 자동 저장 된 초안이 있으면 수정, 없으면 새로 추가
+  const saveExam = (status: ExamStatus) => {
+    const formScores = buildFormScores();
+    const examData = buildExamData(status, formScores);
+    if (exams.some(e => e.id === examData.id)) onUpdateExam(examData);
     else onAddExam(examData);
+    scoreBase.current = formScores;
+  };
+
+  // 날짜(새 시험이면 매번 달라짐)와 다른 선생님이 입력한 성적은 비교에서 제외
+  const draftSnapshot = () => {
+    const formScores = buildFormScores();
+    return JSON.stringify({ ...buildExamData('DRAFT', formScores), date: undefined, scores: formScores });
+  };
+
+  const autosaveDraft = () => {
+    const snapshot = draftSnapshot();
+    if (snapshot === lastAutosave.current) return;
+    saveExam('DRAFT');
+    lastAutosave.current = snapshot;
+    setAutosavedAt(Date.now());
+  };
+
+  // 입력이 멈추면 초안 저장 (처음 열었을 때 상태는 기준으로만 기록)
+  useEffect(() => {
+    if (!isAdding || !isDraftForm) return;
+    const snapshot = draftSnapshot();
+    if (lastAutosave.current === null) {
+      lastAutosave.current = snapshot;
+      return;
+    }
+    const hasInput = !!formExam || title.trim() !== '' || history.past.length > 0 || omrRoster.length > 0;
+    if (snapshot === lastAutosave.current || !hasInput) return;
+    const timer = window.setTimeout(autosaveDraft, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [isAdding, isDraftForm, title, examType, totalQuestions, questions, selectedSchools, selectedClassIds, passThreshold,
+      noPassThreshold, rankingMode, gradeScale, graderIds, omrRoster, studentAnswers, simpleScores]);
+
+  const closeForm = () => {
+    // 대기 중인 초안 저장을 마저 하고 닫음
+    if (isDraftForm && (!!formExam || title.trim() !== '' || history.past.length > 0 || omrRoster.length > 0)) autosaveDraft();
+    setIsAdding(false);
+    resetForm();
+  };
+
+  const handleSaveExam = (status: ExamStatus) => {
+    if (status === 'FINAL' && !title.trim()) {
+      alert("시험 제목을 입력해주세요.");
+      return;
+    }
+    if (status === 'FINAL' && invalidCellCount > 0 && !window.confirm(`허용되지 않는 답안이 ${invalidCellCount}칸 있습니다. (보라색 표시)\n오답으로 채점됩니다. 그대로 저장할까요?`)) return;
+    saveExam(status);
+    clearDraft();
     setIsAdding(false);
     resetForm();
   };
 
   const resetForm = () => {
     setEditingExamId(null);
+    setFormExamId(Math.random().toString(36).substr(2, 9));
+    lastAutosave.current = null;
+    scoreBase.current = [];
+    setAutosavedAt(null);
     setTitle('');
     setPassThreshold('');
     setNoPassThreshold(false);
+    setRankingMode('COMPETITION');
+    setGradeScale(null);
     setStudentAnswers({});
     setSimpleScores({});
     setSelectedSchools([]);
+    setSelectedClassIds([]);
+    setGraderIds([]);
+    setOmrRoster([]);
     setStudentSearchTerm('');
+    setHistory(EMPTY_HISTORY);
+  };
+
+  const studentLabel = (id: string) => students.find(s => s.id === id)?.name || 'Unknown';
+
+  // 입력표 변경은 모두 명령으로 기록해 Ctrl+Z / Ctrl+Shift+Z로 되돌림
+  const applyGridState = (next: GridState) => {
+    // 문항 구성이 통째로 바뀌면 문항 수도 맞춤 (기본 문항 자동 생성은 건너뜀)
+    if (next.questions.length !== questions.length) {
+      keepQuestionsOnResize.current = next.questions.length !== totalQuestions;
+      setTotalQuestions(next.questions.length);
+    }
+    setQuestions(next.questions);
+    setStudentAnswers(next.studentAnswers);
+    setSimpleScores(next.simpleScores);
+  };
+
+  const execute = (command: EditCommand | null) => {
+    if (!command) return;
+    applyGridState(applyCommand({ questions, studentAnswers, simpleScores }, command, 'REDO'));
+    setHistory(prev => pushCommand(prev, command));
+  };
+
+  const stepEdit = (direction: HistoryDirection) => {
+    const { history: nextHistory, command } = stepHistory(history, direction);
+    if (!command) return;
+    applyGridState(applyCommand({ questions, studentAnswers, simpleScores }, command, direction));
+    setHistory(nextHistory);
   };
 
+  useEffect(() => {
+    if (!isAdding || isImportingAnswers || isOmrOpen || ocrTarget) return;
+    const handleUndoKeys = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // 제목 등 기록 대상이 아닌 입력칸은 브라우저 기본 되돌리기 사용
+      const target = e.target as HTMLElement;
+      if (target.matches('input, textarea, select') && !target.closest('[data-undo-scope]')) return;
+      e.preventDefault();
+      stepEdit(key === 'y' || e.shiftKey ? 'REDO' : 'UNDO');
+    };
+    window.addEventListener('keydown', handleUndoKeys);
+    return () => window.removeEventListener('keydown', handleUndoKeys);
+  }, [isAdding, isImportingAnswers, isOmrOpen, ocrTarget, history, questions, studentAnswers, simpleScores]);
+
   const updateQuestionConfig = (num: number, field: keyof QuestionConfig, value: any) => {
-    setQuestions(prev => prev.map(q => q.number === num ? { ...q, [field]: value } : q));
+    const before = questions.find(q => q.number === num);
+    if (!before) return;
+    // 정답·배점 입력은 타자 단위로 쌓이지 않게 합침
+    const mergeKey = field === 'correctAnswer' || field === 'point' ? `question:${num}:${field}` : undefined;
+    execute(createCommand(`${num}번 문항 설정`, [{ kind: 'question', number: num, before, after: { ...before, [field]: value } }], mergeKey));
   };
 
-  const updateStudentAnswer = (studentId: string, qNum: number, value: string) => {
-    setStudentAnswers(prev => ({
+  // 다른 시험에서 만든 영역도 함께 보여줌
+  const skillTags = useMemo(() => collectSkillTags(exams, questions), [exams, questions]);
+
+  const toggleQuestionTag = (num: number, tag: string) => {
+    const tags = questions.find(q => q.number === num)?.tags || [];
+    const next = tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag];
+    updateQuestionConfig(num, 'tags', next.length > 0 ? next : undefined);
+  };
+
+  const addCustomTag = (num: number) => {
+    const tag = normalizeTag(window.prompt('새 영역 이름을 입력하세요. (예: 어법-수일치)') || '');
+    if (tag) toggleQuestionTag(num, tag);
+  };
+
+  // 여러 문항에 같은 영역을 한 번에 지정 (되돌리기 한 번으로 취소)
+  const applyBulkTag = () => {
+    const tag = normalizeTag(bulkTag);
+    const numbers = parseQuestionRange(bulkTagRange, questions.length);
+    if (!tag || numbers.length === 0) {
+      alert("영역과 문항 번호를 입력해주세요. (예: 1-5, 8)");
+      return;
+    }
+    const changes = questions
+      .filter(q => numbers.includes(q.number) && !q.tags?.includes(tag))
+      .map((q): GridChange => ({ kind: 'question', number: q.number, before: q, after: { ...q, tags: [...(q.tags || []), tag] } }));
+    execute(createCommand(`${tag} 영역 지정 (${changes.length}문항)`, changes));
+    setBulkTagRange('');
+  };
+
+  const finalizedExams = useMemo(() => exams.filter(isFinalizedExam), [exams]);
+  const bankItemStems = useMemo(() => new Map(bankItems.map(item => [item.id, item.stem])), [bankItems]);
+
+  // 문제은행 문항으로 정답지를 새로 구성 (직접 입력한 문항은 빠짐)
+  const applyBankItems = (picked: BankItem[]) => {
+    const manualCount = questions.filter(q => !q.bankItemId && q.correctAnswer.trim()).length;
+    if (manualCount > 0 && !window.confirm(`직접 입력한 정답 ${manualCount}문항이 빠지고 선택한 ${picked.length}문항으로 바뀝니다. 계속할까요?`)) return;
+    execute(createCommand(`문제은행 구성 (${picked.length}문항)`, [
+      { kind: 'questionSet', before: questions, after: picked.map((item, i) => bankItemToQuestion(item, i + 1)) }
+    ]));
+    setIsBankPickerOpen(false);
+  };
+
+  // 직접 입력한 문항을 문제은행에 등록하고 시험 문항과 연결 (이후 출제 통계가 누적됨)
+  const saveQuestionsToBank = () => {
+    const targets = questions.filter(q => !q.bankItemId && q.correctAnswer.trim());
+    if (targets.length === 0) {
+      alert('등록할 문항이 없습니다. (정답이 입력된 문항 중 문제은행에 없는 문항만 등록됩니다)');
+      return;
+    }
+    const source = title.trim() || '시험';
+    if (!window.confirm(`${targets.length}문항을 '${source}' 출처로 문제은행에 등록합니다. 발문은 문제은행 메뉴에서 채울 수 있습니다.`)) return;
+    const created = targets.map(q => ({ question: q, item: questionToBankItem(q, source) }));
+    onAddBankItems(created.map(c => c.item));
+    execute(createCommand(`문제은행 등록 (${created.length}문항)`, created.map(({ question, item }): GridChange => ({
+      kind: 'question', number: question.number, before: question, after: { ...question, bankItemId: item.id }
+    }))));
+  };
+
+  const updateGradeBand = (index: number, field: 'label' | 'cutoff', value: string | number) => {
+    setGradeScale(prev => prev && {
       ...prev,
-      [studentId]: {
-        ...(prev[studentId] || {}),
-        [qNum]: value
-      }
-    }));
+      bands: prev.bands.map((b, i) => i === index ? { ...b, [field]: value } : b)
+    });
   };
 
-  const updateSimpleScore = (studentId: string, value: number) => {
-    setSimpleScores(prev => ({
+  const addGradeBand = () => {
+    setGradeScale(prev => prev && {
       ...prev,
-      [studentId]: value
-    }));
+      bands: [...prev.bands, { label: `${prev.bands.length + 1}`, cutoff: prev.basis === 'PERCENT' ? 100 : 0 }]
+    });
+  };
+
+  const removeGradeBand = (index: number) => {
+    setGradeScale(prev => prev && { ...prev, bands: prev.bands.filter((_, i) => i !== index) });
+  };
+
+  const updateStudentAnswer = (studentId: string, qNum: number, value: string) => {
+    const before = studentAnswers[studentId];
+    execute(createCommand(
+      `${studentLabel(studentId)} ${qNum}번 답안`,
+      [{ kind: 'answers', studentId, before, after: { ...(before || {}), [qNum]: value } }],
+      `answer:${studentId}:${qNum}`
+    ));
+  };
+
+  const updateSimpleScore = (studentId: string, value: number) => {
+    execute(createCommand(
+      `${studentLabel(studentId)} 점수`,
+      [{ kind: 'score', studentId, before: simpleScores[studentId], after: value }],
+      `score:${studentId}`
+    ));
+  };
+
+  const applyImportedAnswers = (answers: Record<string, Record<number, string>>, scores: Record<string, number>) => {
+    const changes: GridChange[] = [
+      ...Object.entries(answers).map(([studentId, after]): GridChange => ({ kind: 'answers', studentId, before: studentAnswers[studentId], after })),
+      ...Object.entries(scores).map(([studentId, after]): GridChange => ({ kind: 'score', studentId, before: simpleScores[studentId], after }))
+    ];
+    execute(createCommand(`답안 가져오기 (${changes.length}건)`, changes));
+  };
+
+  // OMR 판독 답안은 객관식만 담기므로 기존에 입력한 서술형 O/X는 유지
+  // 인쇄한 수험번호를 시험에 고정. 완료된 시험은 다른 입력을 저장하기 전이라도 번호표만 바로 저장
+  const assignOmrRoster = (roster: OmrRosterAssignment[]) => {
+    setOmrRoster(roster);
+    if (formExam && !isDraftForm) onUpdateExam({ ...formExam, omrRoster: roster });
+  };
+
+  const applyOmrAnswers = (answers: Record<string, Record<number, string>>) => {
+    const changes = Object.entries(answers).map(([studentId, ans]): GridChange => {
+      const before = studentAnswers[studentId];
+      return { kind: 'answers', studentId, before, after: { ...(before || {}), ...ans } };
+    });
+    execute(createCommand(`OMR 답안 반영 (${changes.length}명)`, changes));
+  };
+
+  // 사진으로 인식한 점수로 새 단어 시험 입력표를 채워서 열기 (저장 전 검토)
+  const startExamFromOcr = (scores: Record<string, number>) => {
+    resetForm();
+    setExamType('WORD_TEST');
+    setTitle(`사진 입력 ${new Date().toLocaleDateString()}`);
+    setTotalQuestions(Math.max(1, ...Object.values(scores).map(v => Math.ceil(v))));
+    setSimpleScores(scores);
+    setIsAdding(true);
   };
 
   const toggleSchoolSelection = (school: string) => {
+    setSelectedClassIds([]);
     setSelectedSchools(prev => 
       prev.includes(school) ? prev.filter(s => s !== school) : [...prev, school]
     );
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent, studentId: string, qNum: number, sIndex: number) => {
-    if (e.key === 'ArrowRight') {
-      const next = document.getElementById(`ans-${studentId}-${qNum + 1}`);
-      if (next) (next as HTMLInputElement).focus();
-    } else if (e.key === 'ArrowLeft') {
-      const prev = document.getElementById(`ans-${studentId}-${qNum - 1}`);
-      if (prev) (prev as HTMLInputElement).focus();
-    } else if (e.key === 'ArrowDown') {
-      e.preventDefault();
-      const nextStudent = filteredStudentsForInput[sIndex + 1];
-      if (nextStudent) {
-        const down = document.getElementById(`ans-${nextStudent.id}-${qNum}`);
-        if (down) (down as HTMLInputElement).focus();
+  const toggleGrader = (graderId: string) => {
+    setGraderIds(prev =>
+      prev.includes(graderId) ? prev.filter(id => id !== graderId) : [...prev, graderId]
+    );
+  };
+
+  const toggleClassSelection = (classId: string) => {
+    setSelectedSchools([]);
+    setSelectedClassIds(prev =>
+      prev.includes(classId) ? prev.filter(id => id !== classId) : [...prev, classId]
+    );
+  };
+
+  // 입력표 칸 (단어 시험은 학생마다 점수 한 칸)
+  const gridColumnCount = examType === 'WORD_TEST' ? 1 : questions.length;
+
+  const cellId = (row: number, col: number) => {
+    const student = filteredStudentsForInput[row];
+    if (!student) return null;
+    return examType === 'WORD_TEST' ? `ans-${student.id}-direct` : `ans-${student.id}-${questions[col]?.number}`;
+  };
+
+  const focusCell = (row: number, col: number) => {
+    const id = cellId(row, col);
+    const el = id ? document.getElementById(id) : null;
+    if (el) (el as HTMLInputElement).focus();
+    return !!el;
+  };
+
+  const cellValue = (row: number, col: number) => {
+    const student = filteredStudentsForInput[row];
+    if (examType === 'WORD_TEST') return String(simpleScores[student.id] ?? '');
+    return studentAnswers[student.id]?.[questions[col].number] || '';
+  };
+
+  // 여러 칸을 한 번에 바꾸고 되돌리기 한 번으로 취소할 수 있게 한 명령으로 기록
+  const writeCells = (label: string, cells: { row: number; col: number; value: string }[]) => {
+    const byStudent = new Map<string, { row: number; col: number; value: string }[]>();
+    // 단어 시험 점수 칸에 숫자가 아닌 값은 건너뜀
+    cells.filter(c => examType !== 'WORD_TEST' || c.value === '' || !isNaN(Number(c.value))).forEach(c => {
+      const student = filteredStudentsForInput[c.row];
+      if (!student || c.col >= gridColumnCount) return;
+      byStudent.set(student.id, [...(byStudent.get(student.id) || []), c]);
+    });
+    const changes = Array.from(byStudent.entries()).map(([studentId, list]): GridChange => {
+      if (examType === 'WORD_TEST') {
+        const raw = list[list.length - 1].value;
+        return { kind: 'score', studentId, before: simpleScores[studentId], after: raw === '' ? undefined : Number(raw) };
       }
-    } else if (e.key === 'ArrowUp') {
-      e.preventDefault();
-      const prevStudent = filteredStudentsForInput[sIndex - 1];
-      if (prevStudent) {
-        const up = document.getElementById(`ans-${prevStudent.id}-${qNum}`);
-        if (up) (up as HTMLInputElement).focus();
+      const before = studentAnswers[studentId];
+      const after = { ...(before || {}) };
+      list.forEach(c => {
+        const q = questions[c.col];
+        const value = normalizeCellValue(q, c.value);
+        if (value) after[q.number] = value;
+        else delete after[q.number];
+      });
+      return { kind: 'answers', studentId, before, after };
+    });
+    execute(createCommand(`${label} (${cells.length}칸)`, changes));
+  };
+
+  // 엑셀·구글 시트에서 복사한 범위를 지금 칸부터 오른쪽·아래로 채움 (한 칸짜리는 기본 붙여넣기)
+  const handleGridPaste = (e: React.ClipboardEvent) => {
+    if (!selection) return;
+    const text = e.clipboardData.getData('text/plain');
+    if (!/[\t\n]/.test(text.trim())) return;
+    e.preventDefault();
+    const { top, left } = selectionBounds(selection);
+    const rows = parseClipboardGrid(text);
+    const cells = rows.flatMap((values, r) => values.map((value, c) => ({ row: top + r, col: left + c, value })))
+      .filter(c => c.row < filteredStudentsForInput.length && c.col < gridColumnCount);
+    writeCells('붙여넣기', cells);
+    const last = cells[cells.length - 1];
+    if (last) setSelection({ anchor: { row: top, col: left }, focus: { row: last.row, col: Math.min(left + Math.max(...rows.map(r => r.length)) - 1, gridColumnCount - 1) } });
+  };
+
+  // 선택 범위 맨 윗줄 값을 아래 칸에 복사 (Ctrl+D)
+  const fillDown = () => {
+    if (!selection) return;
+    const { top, bottom, left, right } = selectionBounds(selection);
+    if (bottom === top) return;
+    const cells: { row: number; col: number; value: string }[] = [];
+    for (let row = top + 1; row <= bottom; row++) {
+      for (let col = left; col <= right; col++) cells.push({ row, col, value: cellValue(top, col) });
+    }
+    writeCells('아래로 채우기', cells);
+  };
+
+  const clearSelection = () => {
+    if (!selection) return;
+    const { top, bottom, left, right } = selectionBounds(selection);
+    const cells: { row: number; col: number; value: string }[] = [];
+    for (let row = top; row <= bottom; row++) {
+      for (let col = left; col <= right; col++) cells.push({ row, col, value: '' });
+    }
+    writeCells('선택 범위 지우기', cells);
+  };
+
+  // 다음 칸: 오른쪽, 줄 끝이면 다음 학생 첫 문항
+  const focusNextCell = (row: number, col: number) => {
+    if (col + 1 < gridColumnCount) focusCell(row, col + 1);
+    else focusCell(row + 1, 0);
+  };
+
+  const handleCellMouseDown = (e: React.MouseEvent, row: number, col: number) => {
+    if (!e.shiftKey || !selection) return;
+    e.preventDefault(); // 기준 칸에 포커스를 둔 채 범위만 넓힘
+    setSelection({ anchor: selection.anchor, focus: { row, col } });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, row: number, col: number) => {
+    const moves: Record<string, [number, number]> = { ArrowRight: [0, 1], ArrowLeft: [0, -1], ArrowDown: [1, 0], ArrowUp: [-1, 0] };
+    const move = moves[e.key];
+    if (move) {
+      // 위아래는 숫자 칸 증감 방지
+      if (move[0] !== 0) e.preventDefault();
+      if (e.shiftKey && selection) {
+        e.preventDefault();
+        const focus = {
+          row: Math.min(filteredStudentsForInput.length - 1, Math.max(0, selection.focus.row + move[0])),
+          col: Math.min(gridColumnCount - 1, Math.max(0, selection.focus.col + move[1]))
+        };
+        setSelection({ anchor: selection.anchor, focus });
+      } else {
+        focusCell(row + move[0], col + move[1]);
       }
+      return;
+    }
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      focusCell(row + (e.shiftKey ? -1 : 1), col);
+      return;
+    }
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+      e.preventDefault();
+      fillDown();
+      return;
+    }
+
+    if ((e.key === 'Delete' || e.key === 'Backspace') && isRangeSelection(selection)) {
+      e.preventDefault();
+      clearSelection();
+      return;
+    }
+
+    // 숫자 패드 모드: 객관식은 선택지 번호, O/X 문항은 1/0 한 번 누르면 입력 후 다음 칸으로
+    const q = examType === 'WORD_TEST' ? null : questions[col];
+    if (!isKeypadMode || !q || e.ctrlKey || e.metaKey || e.altKey) return;
+    const student = filteredStudentsForInput[row];
+    if (q.type === 'MULTIPLE' && OMR_CHOICES.includes(e.key)) {
+      e.preventDefault();
+      updateStudentAnswer(student.id, q.number, e.key);
+      focusNextCell(row, col);
+    } else if (q.type === 'SUBJECTIVE' && !q.allowPartial && (e.key === '1' || e.key === '0')) {
+      e.preventDefault();
+      updateStudentAnswer(student.id, q.number, e.key === '1' ? 'O' : 'X');
+      focusNextCell(row, col);
     }
   };
 
+  // 칸에 포커스가 오면 그 칸이 새 기준 칸
+  const handleCellFocus = (row: number, col: number) => setSelection({ anchor: { row, col }, focus: { row, col } });
+
   const selectedExam = exams.find(e => e.id === selectedExamId);
   const results = selectedExam ? calculateExamResults(selectedExam, students) : [];
   const summary = selectedExam ? getExamSummary(results, selectedExam.totalQuestions) : null;
@@ -219,8 +736,10 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
     <div className="space-y-8">
       {/* List of Exams */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {permissions.canEditExams && (
+        <>
         <button
-          onClick={() => { resetForm(); setIsAdding(true); }}
+          onClick={openNewExamForm}
           className="h-48 border-2 border-dashed border-slate-300 rounded-[2.5rem] flex flex-col items-center justify-center text-slate-500 hover:border-slate-900 hover:text-slate-900 hover:bg-slate-50 transition-all group"
         >
           <div className="w-14 h-14 bg-slate-100 rounded-2xl flex items-center justify-center mb-3 group-hover:bg-slate-900 group-hover:text-white transition-colors">
@@ -229,24 +748,51 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
           <span className="font-black uppercase tracking-tight">새 시험 등록 및 채점</span>
         </button>
 
+        <button
+          onClick={() => setOcrTarget('NEW')}
+          className="h-48 border-2 border-dashed border-slate-300 rounded-[2.5rem] flex flex-col items-center justify-center text-slate-500 hover:border-indigo-600 hover:text-indigo-600 hover:bg-indigo-50/50 transition-all group"
+        >
+          <div className="w-14 h-14 bg-slate-100 rounded-2xl flex items-center justify-center mb-3 group-hover:bg-indigo-600 group-hover:text-white transition-colors">
+            <span className="text-2xl">📷</span>
+          </div>
+          <span className="font-black uppercase tracking-tight">성적표 사진으로 새 시험</span>
+        </button>
+        </>
+        )}
+
         {exams.slice().reverse().map((exam) => (
           <div
             key={exam.id}
-            onClick={() => setSelectedExamId(exam.id)}
+            // 작성 중인 초안은 결과 대신 입력표를 이어서 엶
+            onClick={(e) => exam.status === 'DRAFT' ? handleEditClick(e, exam) : setSelectedExamId(exam.id)}
             className={`cursor-pointer p-8 rounded-[2.5rem] border transition-all ${
-              selectedExamId === exam.id ? 'border-slate-900 ring-4 ring-slate-100 bg-white shadow-2xl scale-[1.02]' : 'border-slate-200 bg-white hover:border-slate-400 shadow-sm'
+              selectedExamId === exam.id ? 'border-slate-900 ring-4 ring-slate-100 bg-white shadow-2xl scale-[1.02]'
+                : exam.status === 'DRAFT' ? 'border-dashed border-amber-300 bg-amber-50/30 hover:border-amber-400 shadow-sm'
+                : 'border-slate-200 bg-white hover:border-slate-400 shadow-sm'
             }`}
           >
             <div className="flex justify-between items-start mb-4">
-               <span className="px-2 py-0.5 bg-slate-900 text-white text-[9px] font-black rounded uppercase tracking-widest">
-                 {exam.type === 'RANKING' ? '점수 평가' : exam.type === 'VOCAB' ? '개수 평가' : '단어 시험'}
-               </span>
+              <div className="flex gap-1">
+                <span className="px-2 py-0.5 bg-slate-900 text-white text-[9px] font-black rounded uppercase tracking-widest">
+                  {exam.type === 'RANKING' ? '점수 평가' : exam.type === 'VOCAB' ? '개수 평가' : '단어 시험'}
+                </span>
+                {exam.status === 'DRAFT' && (
+                  <span className="px-2 py-0.5 bg-amber-400 text-white text-[9px] font-black rounded uppercase tracking-widest">작성 중</span>
+                )}
+              </div>
               <div className="flex gap-2">
                 <button onClick={(e) => handleEditClick(e, exam)} className="text-slate-300 hover:text-blue-500 transition-colors">⚙️</button>
-                <button onClick={(e) => { e.stopPropagation(); onDeleteExam(exam.id); }} className="text-slate-300 hover:text-red-500 transition-colors">✕</button>
+                {permissions.canDeleteExams && (
+                  <button onClick={(e) => { e.stopPropagation(); onDeleteExam(exam.id); }} className="text-slate-300 hover:text-red-500 transition-colors">✕</button>
+                )}
               </div>
             </div>
             <h4 className="text-xl font-black text-slate-800 truncate mb-1">{exam.title}</h4>
+            {exam.targetClassIds && exam.targetClassIds.length > 0 && (
+              <p className="text-[10px] text-slate-500 font-black truncate mb-1">
+                {classes.filter(c => exam.targetClassIds!.includes(c.id)).map(c => c.name).join(', ')}
+              </p>
+            )}
             <div className="flex justify-between items-center">
               <p className="text-xs text-slate-400 font-bold">{new Date(exam.date).toLocaleDateString()}</p>
               {exam.passThreshold !== undefined && (
@@ -271,6 +817,12 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
               </div>
               
               <div className="flex items-center gap-4">
+                <div className="flex gap-2 border-r border-white/10 pr-6">
+                  <button onClick={() => exportResultsToCsv(selectedExam, results)} className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-[10px] font-black uppercase transition-all">CSV</button>
+                  <button onClick={() => exportResultsToXlsx(selectedExam, results)} className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-[10px] font-black uppercase transition-all">XLSX</button>
+                  <button onClick={() => setIsReportOpen(true)} className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-[10px] font-black uppercase transition-all">성적표 일괄 생성</button>
+                  <button onClick={() => onShowHistory(selectedExam)} className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-[10px] font-black uppercase transition-all">변경 이력</button>
+                </div>
                 <div className="text-right border-r border-white/10 pr-6">
                   <p className="text-[10px] font-black opacity-50 uppercase tracking-widest mb-1">Average</p>
                   <p className="text-4xl font-black text-blue-400">{summary.average.toFixed(1)}</p>
@@ -292,6 +844,24 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
               </div>
             </div>
 
+            <div className="p-8 border-b border-slate-100">
+              <h4 className="text-sm font-black text-slate-800 mb-4 flex items-center gap-2">
+                <span className="w-2 h-6 bg-indigo-500 rounded-full"></span>
+                점수 분포 · 신뢰도
+              </h4>
+              <ScoreDistributionChart exam={selectedExam} results={results} summary={summary} />
+            </div>
+
+            {selectedExam.gradeScale && (
+              <div className="p-8 border-b border-slate-100">
+                <h4 className="text-sm font-black text-slate-800 mb-4 flex items-center gap-2">
+                  <span className="w-2 h-6 bg-blue-600 rounded-full"></span>
+                  등급 분포 <span className="text-[10px] text-slate-400 ml-1">{GRADE_PRESET_LABELS[selectedExam.gradeScale.preset]}</span>
+                </h4>
+                <GradeDistributionChart results={results} scale={selectedExam.gradeScale} />
+              </div>
+            )}
+
             {resultViewMode === 'SCHOOL' && (
               <div className="p-8 bg-slate-50 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4 border-b border-slate-100">
                 {schoolStats.map(stat => (
@@ -314,6 +884,7 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                     {resultViewMode === 'SCHOOL' && <th className="px-10 py-6">학교 순위</th>}
                     <th className="px-10 py-6">이름 (학교)</th>
                     <th className="px-10 py-6">성적</th>
+                    {selectedExam.gradeScale && <th className="px-10 py-6">등급</th>}
                     <th className="px-10 py-6">상태</th>
                     {selectedExam.type !== 'WORD_TEST' && <th className="px-10 py-6">오답 문항</th>}
                     <th className="px-10 py-6">백분위</th>
@@ -347,6 +918,11 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                             <span className="text-xs ml-0.5 opacity-40 font-bold">{selectedExam.type === 'RANKING' ? '점' : '개'}</span>
                           </span>
                         </td>
+                        {selectedExam.gradeScale && (
+                          <td className="px-10 py-6">
+                            <GradeBadge grade={res.grade} gradeIndex={res.gradeIndex} bandCount={selectedExam.gradeScale.bands.length} />
+                          </td>
+                        )}
                         <td className="px-10 py-6">
                           {res.isPassed !== undefined ? (
                             <span className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest ${res.isPassed ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
@@ -374,6 +950,7 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                              <span className={`px-2 py-1 rounded text-[10px] font-black inline-block w-fit ${res.percentile <= 20 ? 'bg-blue-50 text-blue-600' : 'bg-slate-100 text-slate-400'}`}>
                                전체 상위 {res.percentile.toFixed(0)}%
                              </span>
+                             <span className="text-[9px] font-bold text-slate-300">백분위 {res.percentileRank.toFixed(1)}</span>
                            </div>
                         </td>
                       </tr>
@@ -383,6 +960,8 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
               </table>
             </div>
           </div>
+
+          <AIReportPanel exam={selectedExam} students={students} onUpdateExam={onUpdateExam} />
         </div>
       )}
 
@@ -395,14 +974,39 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                 <h3 className="text-2xl font-black text-slate-800">시험 정보 및 채점</h3>
                 <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">
                   {examType === 'WORD_TEST' ? 'Simple Word Test Entry' : 'Detailed Question Grading'}
+                  {isDraftForm && (
+                    <span className="ml-3 normal-case text-amber-500">
+                      {autosavedAt ? `초안 자동 저장됨 ${new Date(autosavedAt).toLocaleTimeString('ko-KR')}` : '입력하면 초안으로 자동 저장됩니다'}
+                    </span>
+                  )}
                 </p>
               </div>
-              <button onClick={() => { setIsAdding(false); resetForm(); }} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => stepEdit('UNDO')}
+                  disabled={history.past.length === 0}
+                  title={history.past.length > 0 ? `되돌리기: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : '되돌릴 입력이 없습니다'}
+                  className="px-4 h-12 rounded-full bg-white shadow-sm text-xs font-black text-slate-500 hover:text-slate-900 disabled:opacity-30"
+                >
+                  ↶ {history.past.length}
+                </button>
+                <button
+                  onClick={() => stepEdit('REDO')}
+                  disabled={history.future.length === 0}
+                  title={history.future.length > 0 ? `다시 실행: ${history.future[0].label} (Ctrl+Shift+Z)` : '다시 실행할 입력이 없습니다'}
+                  className="px-4 h-12 rounded-full bg-white shadow-sm text-xs font-black text-slate-500 hover:text-slate-900 disabled:opacity-30"
+                >
+                  ↷ {history.future.length}
+                </button>
+                <button onClick={closeForm} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+              </div>
             </div>
             
             <div className="p-10 overflow-y-auto flex-1 space-y-10 custom-scrollbar">
+              {/* 채점 알바는 시험 설정·정답은 보기만 하고 답안 입력만 가능 */}
+              <fieldset disabled={!permissions.canEditExams} className="space-y-10 min-w-0">
               {/* Step 1: Basic Info */}
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
                 <div>
                   <label className="block text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">시험 종류</label>
                   <select 
@@ -439,13 +1043,46 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                     </label>
                   </div>
                 </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">동점자 순위 방식</label>
+                  <select 
+                    value={rankingMode} 
+                    onChange={(e) => setRankingMode(e.target.value as RankingMode)}
+                    className="w-full px-5 py-4 bg-slate-50 rounded-2xl border-none outline-none font-black text-slate-800 text-xs"
+                  >
+                    {(Object.keys(RANKING_MODE_LABELS) as RankingMode[]).map(mode => (
+                      <option key={mode} value={mode}>{RANKING_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
-              {/* Step 1.5: Target Schools */}
+              {/* Step 1.5: Target Classes / Schools */}
+              {classes.length > 0 && (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">대상 반 선택</h4>
+                    <button onClick={() => setSelectedClassIds([])} className="text-[10px] font-black text-slate-400 hover:text-slate-900 uppercase underline">선택 해제</button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {classes.map(group => (
+                      <button
+                        key={group.id}
+                        onClick={() => toggleClassSelection(group.id)}
+                        className={`px-5 py-3 rounded-2xl text-xs font-black transition-all border-2 ${selectedClassIds.includes(group.id) ? 'bg-blue-600 border-blue-600 text-white shadow-lg' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-300'}`}
+                      >
+                        {group.name}
+                        <span className="ml-1 opacity-60">({group.studentIds.length})</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
                   <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">대상 학교 선택</h4>
-                  <button onClick={() => setSelectedSchools([])} className="text-[10px] font-black text-slate-400 hover:text-slate-900 uppercase underline">전체 학생</button>
+                  <button onClick={() => { setSelectedSchools([]); setSelectedClassIds([]); }} className="text-[10px] font-black text-slate-400 hover:text-slate-900 uppercase underline">전체 학생</button>
                 </div>
                 <div className="flex flex-wrap gap-2">
                   {availableSchools.map(school => (
@@ -460,18 +1097,149 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                 </div>
               </div>
 
+              {/* Step 1.55: Grader Assignment */}
+              {graders.length > 0 && (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">채점 알바 배정</h4>
+                    <p className="text-[10px] font-black text-slate-400 uppercase">배정된 계정만 이 시험의 답안을 입력할 수 있습니다</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {graders.map(grader => (
+                      <button
+                        key={grader.id}
+                        onClick={() => toggleGrader(grader.id)}
+                        className={`px-5 py-3 rounded-2xl text-xs font-black transition-all border-2 ${graderIds.includes(grader.id) ? 'bg-emerald-600 border-emerald-600 text-white shadow-lg' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-300'}`}
+                      >
+                        {grader.displayName || grader.email}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Step 1.6: Grade Scale */}
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">등급 산출 기준</h4>
+                  {gradeScale && (
+                    <p className="text-[10px] font-black text-blue-600 uppercase">
+                      {gradeScale.basis === 'PERCENT' ? '누적 상위 % 기준' : '최저 점수 기준'}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setGradeScale(null)}
+                    className={`px-5 py-3 rounded-2xl text-xs font-black transition-all border-2 ${!gradeScale ? 'bg-slate-900 border-slate-900 text-white shadow-lg' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-300'}`}
+                  >
+                    등급 없음
+                  </button>
+                  {(Object.keys(GRADE_PRESET_LABELS) as GradePreset[]).map(preset => (
+                    <button
+                      key={preset}
+                      onClick={() => setGradeScale(createGradeScale(preset))}
+                      className={`px-5 py-3 rounded-2xl text-xs font-black transition-all border-2 ${gradeScale?.preset === preset ? 'bg-slate-900 border-slate-900 text-white shadow-lg' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-300'}`}
+                    >
+                      {GRADE_PRESET_LABELS[preset]}
+                    </button>
+                  ))}
+                </div>
+                {gradeScale && (
+                  <div className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100 space-y-4">
+                    {gradeScale.preset === 'CUSTOM' && (
+                      <div className="flex bg-white p-1 rounded-xl w-fit">
+                        <button 
+                          onClick={() => setGradeScale({ ...gradeScale, basis: 'PERCENT' })} 
+                          className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${gradeScale.basis === 'PERCENT' ? 'bg-slate-900 text-white shadow-sm' : 'text-slate-400'}`}
+                        >
+                          상위 % 기준
+                        </button>
+                        <button 
+                          onClick={() => setGradeScale({ ...gradeScale, basis: 'SCORE' })} 
+                          className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${gradeScale.basis === 'SCORE' ? 'bg-slate-900 text-white shadow-sm' : 'text-slate-400'}`}
+                        >
+                          점수 기준
+                        </button>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-9 gap-3">
+                      {gradeScale.bands.map((band, i) => (
+                        <div key={i} className="p-3 bg-white rounded-2xl border border-slate-100 space-y-2 relative">
+                          {gradeScale.preset === 'CUSTOM' && gradeScale.bands.length > 1 && (
+                            <button onClick={() => removeGradeBand(i)} className="absolute top-1 right-2 text-[10px] text-slate-300 hover:text-red-500">✕</button>
+                          )}
+                          <input 
+                            type="text" 
+                            value={band.label}
+                            onChange={(e) => updateGradeBand(i, 'label', e.target.value)}
+                            disabled={gradeScale.preset !== 'CUSTOM'}
+                            className="w-full bg-slate-50 border-none rounded-lg text-center text-xs font-black p-1.5"
+                          />
+                          <div className="flex items-center gap-1">
+                            <input 
+                              type="number" 
+                              value={band.cutoff}
+                              onChange={(e) => updateGradeBand(i, 'cutoff', Number(e.target.value))}
+                              className="w-full bg-slate-50 border-none rounded-lg text-center text-xs font-black p-1.5 text-blue-600"
+                            />
+                            <span className="text-[9px] font-black text-slate-400">{gradeScale.basis === 'PERCENT' ? '%' : '↑'}</span>
+                          </div>
+                        </div>
+                      ))}
+                      {gradeScale.preset === 'CUSTOM' && (
+                        <button onClick={addGradeBand} className="p-3 rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 font-black hover:border-slate-400">+</button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Step 2: Answer Key */}
+              <div data-undo-scope>
               {examType !== 'WORD_TEST' && (
                 <div className="space-y-4">
                   <div className="flex justify-between items-center">
                     <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">1. 정답지 설정 (Answer Key)</h4>
-                    <p className="text-[10px] font-black text-blue-600 uppercase">총 {questions.reduce((acc, q) => acc + q.point, 0)}점</p>
+                    <div className="flex items-center gap-3">
+                      {bankItems.length > 0 && (
+                        <button onClick={() => setIsBankPickerOpen(true)} className="px-3 py-1.5 bg-slate-900 text-white rounded-lg text-[10px] font-black hover:bg-slate-800">🗂️ 문제은행에서 구성</button>
+                      )}
+                      {permissions.canManageBank && (
+                        <button onClick={saveQuestionsToBank} className="px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-[10px] font-black hover:bg-slate-200">문제은행에 등록</button>
+                      )}
+                      <p className="text-[10px] font-black text-blue-600 uppercase">총 {questions.reduce((acc, q) => acc + q.point, 0)}점</p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 p-3 bg-indigo-50/50 border border-indigo-100 rounded-2xl">
+                    <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest ml-1">영역 일괄 지정</span>
+                    <input
+                      list="skill-tag-options"
+                      placeholder="영역"
+                      value={bulkTag}
+                      onChange={(e) => setBulkTag(e.target.value)}
+                      className="w-32 px-3 py-2 bg-white rounded-xl text-xs font-black outline-none"
+                    />
+                    <datalist id="skill-tag-options">
+                      {skillTags.map(tag => <option key={tag} value={tag} />)}
+                    </datalist>
+                    <input
+                      placeholder="문항 (예: 1-5, 8)"
+                      value={bulkTagRange}
+                      onChange={(e) => setBulkTagRange(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') applyBulkTag(); }}
+                      className="w-40 px-3 py-2 bg-white rounded-xl text-xs font-bold outline-none"
+                    />
+                    <button onClick={applyBulkTag} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-black hover:bg-indigo-700 transition-colors">적용</button>
                   </div>
                   <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-5 gap-4">
                     {questions.map((q) => (
-                      <div key={q.number} className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+                      <div key={q.number} className={`p-4 rounded-2xl border space-y-2 ${q.isVoided ? 'bg-red-50/50 border-red-200' : 'bg-slate-50 border-slate-100'}`}>
                         <div className="flex justify-between items-center">
-                          <span className="text-[10px] font-black text-slate-400">{q.number}번</span>
+                          <span className="text-[10px] font-black text-slate-400">
+                            {q.number}번
+                            {q.bankItemId && <span title={bankItemStems.get(q.bankItemId) || '문제은행에서 삭제된 문항'} className="ml-1 cursor-help">🗂️</span>}
+                          </span>
                           <select 
                             value={q.type} 
                             onChange={(e) => updateQuestionConfig(q.number, 'type', e.target.value as QuestionType)}
@@ -485,7 +1253,8 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                           {q.type === 'MULTIPLE' ? (
                             <input 
                               type="text" 
-                              placeholder="답" 
+                              placeholder="답 (복수: 2,4)" 
+                              title="복수 정답은 , 또는 / 로 구분 (답 안의 / 와 , 는 \/ \, 로 입력)"
                               value={q.correctAnswer}
                               onChange={(e) => updateQuestionConfig(q.number, 'correctAnswer', e.target.value)}
                               className="w-full bg-white border-none rounded-lg text-center text-xs font-black p-2 shadow-sm"
@@ -501,20 +1270,83 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                             className="w-12 bg-white border-none rounded-lg text-center text-xs font-black p-2 shadow-sm"
                           />
                         </div>
+                        <div className="flex flex-wrap gap-1">
+                          {q.type === 'MULTIPLE' ? (
+                            <button
+                              onClick={() => updateQuestionConfig(q.number, 'ignoreCase', !q.ignoreCase)}
+                              title="대소문자·띄어쓰기 차이를 무시합니다."
+                              className={`px-2 py-1 rounded text-[9px] font-black ${q.ignoreCase ? 'bg-blue-600 text-white' : 'bg-white text-slate-400'}`}
+                            >Aa 무시</button>
+                          ) : (
+                            <button
+                              onClick={() => updateQuestionConfig(q.number, 'allowPartial', !q.allowPartial)}
+                              title="0점부터 배점까지 부분 점수를 입력합니다."
+                              className={`px-2 py-1 rounded text-[9px] font-black ${q.allowPartial ? 'bg-blue-600 text-white' : 'bg-white text-slate-400'}`}
+                            >부분 점수</button>
+                          )}
+                          <button
+                            onClick={() => updateQuestionConfig(q.number, 'isVoided', !q.isVoided)}
+                            title="문항 오류 시 모든 학생을 정답 처리합니다."
+                            className={`px-2 py-1 rounded text-[9px] font-black ${q.isVoided ? 'bg-red-500 text-white' : 'bg-white text-slate-400'}`}
+                          >전원 정답</button>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {(q.tags || []).map(tag => (
+                            <button
+                              key={tag}
+                              onClick={() => toggleQuestionTag(q.number, tag)}
+                              title="눌러서 영역 해제"
+                              className="px-2 py-1 rounded bg-indigo-100 text-indigo-700 text-[9px] font-black"
+                            >#{tag}</button>
+                          ))}
+                          <select
+                            value=""
+                            onChange={(e) => e.target.value === '__NEW__' ? addCustomTag(q.number) : toggleQuestionTag(q.number, e.target.value)}
+                            className="text-[9px] font-black bg-white border-none rounded px-1 text-slate-400"
+                          >
+                            <option value="">+ 영역</option>
+                            {skillTags.filter(tag => !q.tags?.includes(tag)).map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                            <option value="__NEW__">새 영역 추가…</option>
+                          </select>
+                        </div>
                       </div>
                     ))}
                   </div>
                 </div>
               )}
+              </div>
+              </fieldset>
 
               {/* Step 3: Grading Grid */}
               <div className="space-y-6">
                 <div className="flex justify-between items-center border-b border-slate-100 pb-4">
-                  <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">2. 학생별 답안 입력 (화살표 키로 이동 가능)</h4>
-                  <input type="text" placeholder="학생 이름 검색..." value={studentSearchTerm} onChange={(e) => setStudentSearchTerm(e.target.value)} className="px-5 py-3 bg-slate-50 rounded-2xl text-xs font-bold border-none outline-none" />
+                  <div>
+                    <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">2. 학생별 답안 입력</h4>
+                    <p className="text-[10px] font-bold text-slate-400 mt-1">
+                      방향키·Enter 이동 · Shift+방향키/클릭 범위 선택 · Ctrl+D 아래로 채우기 · 엑셀 범위 붙여넣기
+                      {invalidCellCount > 0 && <span className="ml-2 text-purple-600">허용되지 않는 답안 {invalidCellCount}칸</span>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {examType !== 'WORD_TEST' && (
+                      <button
+                        onClick={() => setIsKeypadMode(!isKeypadMode)}
+                        title="객관식은 번호, O/X 문항은 1/0을 한 번 누르면 다음 문항으로 넘어갑니다."
+                        className={`px-4 py-3 border rounded-2xl text-xs font-black transition-colors ${isKeypadMode ? 'bg-slate-900 border-slate-900 text-white' : 'bg-slate-50 border-slate-100 hover:bg-slate-100'}`}
+                      >🔢 숫자 패드 모드</button>
+                    )}
+                    <button onClick={() => setIsImportingAnswers(true)} className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs font-black hover:bg-slate-100 transition-colors">📥 CSV/엑셀 가져오기</button>
+                    {examType !== 'WORD_TEST' && (
+                      <button onClick={() => setIsOmrOpen(true)} className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs font-black hover:bg-slate-100 transition-colors">🧾 OMR 답안지</button>
+                    )}
+                    {examType === 'WORD_TEST' && (
+                      <button onClick={() => setOcrTarget('FORM')} className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs font-black hover:bg-slate-100 transition-colors">📷 사진으로 입력</button>
+                    )}
+                    <input type="text" placeholder="학생 이름 검색..." value={studentSearchTerm} onChange={(e) => setStudentSearchTerm(e.target.value)} className="px-5 py-3 bg-slate-50 rounded-2xl text-xs font-bold border-none outline-none" />
+                  </div>
                 </div>
 
-                <div className="space-y-4">
+                <div className="space-y-4" data-undo-scope onPaste={handleGridPaste}>
                   {filteredStudentsForInput.map((student, sIndex) => (
                     <div key={student.id} className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100 transition-all hover:bg-white">
                       <div className="flex justify-between items-center mb-4">
@@ -529,27 +1361,15 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                                type="number" 
                                value={simpleScores[student.id] ?? ''} 
                                onChange={(e) => updateSimpleScore(student.id, e.target.value === '' ? 0 : Number(e.target.value))}
-                               className="w-24 px-5 py-3 bg-white border-none rounded-2xl text-center font-black text-blue-600 outline-none shadow-sm text-lg"
-                               onKeyDown={(e) => {
-                                 // ArrowDown/ArrowUp default behavior prevents (numeric increment)
-                                 if (e.key === 'ArrowDown') {
-                                   e.preventDefault(); // Prevent score decrement
-                                   const next = filteredStudentsForInput[sIndex + 1];
-                                   if (next) document.getElementById(`ans-${next.id}-direct`)?.focus();
-                                 } else if (e.key === 'ArrowUp') {
-                                   e.preventDefault(); // Prevent score increment
-                                   const prev = filteredStudentsForInput[sIndex - 1];
-                                   if (prev) document.getElementById(`ans-${prev.id}-direct`)?.focus();
-                                 }
-                               }}
+                               onFocus={() => handleCellFocus(sIndex, 0)}
+                               onMouseDown={(e) => handleCellMouseDown(e, sIndex, 0)}
+                               onKeyDown={(e) => handleKeyDown(e, sIndex, 0)}
+                               className={`w-24 px-5 py-3 bg-white border-none rounded-2xl text-center font-black text-blue-600 outline-none shadow-sm text-lg ${isRangeSelection(selection) && isCellInSelection(selection, sIndex, 0) ? 'ring-2 ring-blue-400' : ''}`}
                              />
                           </div>
                         ) : (
                           <p className="text-2xl font-black text-blue-600">
-                            {questions.reduce((acc, q) => {
-                              const ans = (studentAnswers[student.id]?.[q.number] || '').trim();
-                              return acc + (q.type === 'MULTIPLE' ? (ans === q.correctAnswer && q.correctAnswer !== '' ? q.point : 0) : (ans === 'O' ? q.point : 0));
-                            }, 0)}
+                            {scoreAnswerSheet(questions, studentAnswers[student.id] || {}).score}
                             <span className="text-[10px] ml-1 opacity-40">{examType === 'RANKING' ? '점' : '개'}</span>
                           </p>
                         )}
@@ -557,9 +1377,17 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
 
                       {examType !== 'WORD_TEST' && (
                         <div className="grid grid-cols-5 sm:grid-cols-10 md:grid-cols-12 lg:grid-cols-20 gap-2">
-                          {questions.map((q) => {
+                          {questions.map((q, qIndex) => {
                             const val = studentAnswers[student.id]?.[q.number] || '';
-                            const isCorrect = q.type === 'MULTIPLE' ? (val.trim() === q.correctAnswer && q.correctAnswer !== '') : (val === 'O');
+                            const grade = gradeQuestion(q, val);
+                            const error = getCellError(q, val);
+                            const isSelected = isRangeSelection(selection) && isCellInSelection(selection, sIndex, qIndex);
+                            const cellEvents = {
+                              onMouseDown: (e: React.MouseEvent) => handleCellMouseDown(e, sIndex, qIndex),
+                              onKeyDown: (e: React.KeyboardEvent) => handleKeyDown(e, sIndex, qIndex)
+                            };
+                            // 허용되지 않는 답안은 보라색, 범위 선택은 파란 테두리
+                            const marks = `${error ? 'ring-2 ring-purple-500 ring-offset-1' : isSelected ? 'ring-2 ring-blue-400' : ''}`;
                             return (
                               <div key={q.number} className="flex flex-col items-center gap-1">
                                 <span className="text-[9px] font-black text-slate-400">{q.number}</span>
@@ -568,17 +1396,33 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
                                     id={`ans-${student.id}-${q.number}`}
                                     type="text"
                                     value={val}
-                                    onFocus={(e) => e.target.select()}
+                                    title={error || undefined}
+                                    onFocus={(e) => { e.target.select(); handleCellFocus(sIndex, qIndex); }}
+                                    onChange={(e) => updateStudentAnswer(student.id, q.number, e.target.value)}
+                                    {...cellEvents}
+                                    className={`w-full text-center py-2 rounded-xl text-xs font-black border-2 transition-all outline-none ${!val ? 'bg-white border-slate-100' : grade.isCorrect ? 'bg-green-50 border-green-500 text-green-700' : 'bg-red-50 border-red-500 text-red-700'} ${marks}`}
+                                  />
+                                ) : q.allowPartial ? (
+                                  <input
+                                    id={`ans-${student.id}-${q.number}`}
+                                    type="text"
+                                    inputMode="decimal"
+                                    placeholder={`/${q.point}`}
+                                    value={val}
+                                    title={error || undefined}
+                                    onFocus={(e) => { e.target.select(); handleCellFocus(sIndex, qIndex); }}
                                     onChange={(e) => updateStudentAnswer(student.id, q.number, e.target.value)}
-                                    onKeyDown={(e) => handleKeyDown(e, student.id, q.number, sIndex)}
-                                    className={`w-full text-center py-2 rounded-xl text-xs font-black border-2 transition-all outline-none ${!val ? 'bg-white border-slate-100' : isCorrect ? 'bg-green-50 border-green-500 text-green-700' : 'bg-red-50 border-red-500 text-red-700'}`}
+                                    {...cellEvents}
+                                    className={`w-full text-center py-2 rounded-xl text-xs font-black border-2 transition-all outline-none ${!val ? 'bg-white border-slate-100' : grade.isCorrect ? 'bg-green-50 border-green-500 text-green-700' : grade.earned > 0 ? 'bg-amber-50 border-amber-400 text-amber-700' : 'bg-red-50 border-red-500 text-red-700'} ${marks}`}
                                   />
                                 ) : (
                                   <button 
                                     id={`ans-${student.id}-${q.number}`}
-                                    onClick={() => updateStudentAnswer(student.id, q.number, val === 'O' ? 'X' : 'O')}
-                                    onKeyDown={(e) => handleKeyDown(e, student.id, q.number, sIndex)}
-                                    className={`w-full py-2 rounded-xl text-[10px] font-black border-2 transition-all ${val === 'O' ? 'bg-green-500 border-green-500 text-white' : 'bg-white border-slate-200 text-slate-300'}`}
+                                    title={error || undefined}
+                                    onClick={(e) => { if (!e.shiftKey) updateStudentAnswer(student.id, q.number, val === 'O' ? 'X' : 'O'); }}
+                                    onFocus={() => handleCellFocus(sIndex, qIndex)}
+                                    {...cellEvents}
+                                    className={`w-full py-2 rounded-xl text-[10px] font-black border-2 transition-all ${val === 'O' ? 'bg-green-500 border-green-500 text-white' : 'bg-white border-slate-200 text-slate-300'} ${marks}`}
                                   >
                                     {val === 'O' ? 'O' : 'X'}
                                   </button>
@@ -595,13 +1439,75 @@ const ExamManagement: React.FC<ExamManagementProps> = ({ students, exams, onAddE
             </div>
 
             <div className="p-10 border-t border-slate-100 bg-slate-50/50">
-              <button onClick={handleCreateOrUpdateExam} className="w-full bg-slate-900 text-white py-6 rounded-[2rem] font-black text-xl shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98]">
-                데이터 저장 및 동기화
-              </button>
+              {isDraftForm ? (
+                <div className="flex gap-4">
+                  <button onClick={() => handleSaveExam('DRAFT')} className="px-10 bg-white border border-slate-200 text-slate-600 py-6 rounded-[2rem] font-black text-lg hover:border-slate-400 transition-all active:scale-[0.98]">
+                    임시 저장
+                  </button>
+                  <button onClick={() => handleSaveExam('FINAL')} className="flex-1 bg-slate-900 text-white py-6 rounded-[2rem] font-black text-xl shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98]">
+                    채점 완료 및 저장
+                  </button>
+                </div>
+              ) : (
+                <button onClick={() => handleSaveExam('FINAL')} className="w-full bg-slate-900 text-white py-6 rounded-[2rem] font-black text-xl shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98]">
+                  데이터 저장 및 동기화
+                </button>
+              )}
             </div>
           </div>
         </div>
       )}
+
+      {isAdding && isBankPickerOpen && (
+        <BankPickerModal
+          items={bankItems}
+          exams={finalizedExams}
+          initialItemIds={questions.map(q => q.bankItemId).filter((id): id is string => !!id)}
+          onClose={() => setIsBankPickerOpen(false)}
+          onApply={applyBankItems}
+        />
+      )}
+
+      {isAdding && isImportingAnswers && (
+        <AnswerImportModal
+          students={filteredStudentsForInput}
+          questions={questions}
+          isWordTest={examType === 'WORD_TEST'}
+          onClose={() => setIsImportingAnswers(false)}
+          onApply={applyImportedAnswers}
+        />
+      )}
+
+      {isAdding && isOmrOpen && (
+        <OmrModal
+          examTitle={title}
+          questions={questions}
+          students={targetStudentsForInput}
+          savedRoster={omrRoster}
+          onRosterAssigned={assignOmrRoster}
+          onClose={() => setIsOmrOpen(false)}
+          onApply={applyOmrAnswers}
+        />
+      )}
+
+      {ocrTarget && (
+        <OcrCaptureModal
+          students={ocrTarget === 'FORM' ? filteredStudentsForInput : students}
+          applyLabel={ocrTarget === 'FORM' ? '입력표에 반영' : '새 단어 시험 입력표 만들기'}
+          onClose={() => setOcrTarget(null)}
+          onApply={(scores) => ocrTarget === 'FORM' ? applyImportedAnswers({}, scores) : startExamFromOcr(scores)}
+        />
+      )}
+
+      {isReportOpen && selectedExam && (
+        <ReportCardGenerator
+          students={students}
+          exams={finalizedExams}
+          classes={classes}
+          initialExamId={selectedExam.id}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
     </div>
   );
 };
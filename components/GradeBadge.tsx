@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface GradeBadgeProps {
+  grade?: string;
+  gradeIndex?: number;
+  bandCount: number;
+}
+
+const GradeBadge: React.FC<GradeBadgeProps> = ({ grade, gradeIndex, bandCount }) => {
+  if (grade === undefined || gradeIndex === undefined) return <span className="text-slate-200">-</span>;
+
+  // 상위 1/3 파랑, 중간 회색, 하위 1/3 빨강
+  const position = bandCount > 1 ? gradeIndex / (bandCount - 1) : 0;
+  const colorClass = position <= 0.34
+    ? 'bg-blue-50 text-blue-600 border-blue-100'
+    : position >= 0.66
+      ? 'bg-red-50 text-red-500 border-red-100'
+      : 'bg-slate-100 text-slate-500 border-slate-200';
+
+  return (
+    <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black border whitespace-nowrap ${colorClass}`}>
+      {/^\d+$/.test(grade) ? `${grade}등급` : grade}
+    </span>
+  );
+};
+
+export default GradeBadge;
@@ -0,0 +1,43 @@
+import React, { useMemo } from 'react';
+import { CalculatedResult, GradeScale } from '../types.ts';
+import { getGradeDistribution } from '../utils/gradingUtils.ts';
+import { 
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell
+} from 'recharts';
+
+interface GradeDistributionChartProps {
+  results: CalculatedResult[];
+  scale: GradeScale;
+  height?: number;
+}
+
+const GradeDistributionChart: React.FC<GradeDistributionChartProps> = ({ results, scale, height = 220 }) => {
+  const data = useMemo(() => getGradeDistribution(results, scale).map(stat => ({
+    ...stat,
+    name: /^\d+$/.test(stat.label) ? `${stat.label}등급` : stat.label
+  })), [results, scale]);
+
+  return (
+    <div style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 'bold'}} />
+          <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 'bold'}} />
+          <Tooltip 
+            cursor={{fill: '#f8fafc'}} 
+            contentStyle={{borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)', fontWeight: 'black'}} 
+            formatter={(value, name, props) => [`${value}명 (${props.payload.ratio.toFixed(1)}%)`, '인원']} 
+          />
+          <Bar dataKey="count" radius={[6, 6, 0, 0]} barSize={28}>
+            {data.map((entry, index) => (
+              <Cell key={`grade-${index}`} fill={index < data.length / 3 ? '#2563eb' : index >= (data.length * 2) / 3 ? '#ef4444' : '#94a3b8'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default GradeDistributionChart;
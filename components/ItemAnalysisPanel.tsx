@@ -0,0 +1,112 @@
+
+import React, { useMemo } from 'react';
+import { Exam, ScoreEntry } from '../types.ts';
+import { analyzeItems, ItemVerdict, ITEM_FLAG_LABELS, ITEM_VERDICT_LABELS, MIN_ITEM_SAMPLE, MIN_VERDICT_SAMPLE } from '../utils/itemAnalysisUtils.ts';
+
+interface ItemAnalysisPanelProps {
+  exam: Exam;
+  scores: ScoreEntry[]; // 반 필터를 적용한 성적
+  selectedQuestionNum: number;
+  onSelectQuestion: (num: number) => void;
+}
+
+const VERDICT_STYLES: Record<ItemVerdict, string> = {
+  GOOD: 'bg-emerald-50 text-emerald-600',
+  REVIEW: 'bg-amber-50 text-amber-600',
+  VOID: 'bg-red-50 text-red-500'
+};
+
+const formatStat = (value: number | null) => value === null ? '-' : value.toFixed(2);
+
+const ItemAnalysisPanel: React.FC<ItemAnalysisPanelProps> = ({ exam, scores, selectedQuestionNum, onSelectQuestion }) => {
+  const analysis = useMemo(() => analyzeItems(exam, scores), [exam, scores]);
+  const selected = analysis.items.find(i => i.questionNumber === selectedQuestionNum);
+  const flaggedCount = analysis.items.filter(i => i.verdict && i.verdict !== 'GOOD').length;
+
+  if (analysis.items.length === 0 || analysis.respondents === 0) return null;
+
+  return (
+    <div className="p-8 bg-white rounded-[2.5rem] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-black text-slate-800 flex items-center gap-2">🧪 문항 분석 (난이도 · 변별도 · 오답지)</h4>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+            응시 {analysis.respondents}명 · 상·하위 각 {analysis.groupSize}명 (27%) · 검토 대상 {flaggedCount}문항
+          </p>
+        </div>
+        {analysis.isSmallSample && (
+          <p className="text-xs font-bold text-amber-600">
+            {analysis.respondents < MIN_VERDICT_SAMPLE
+              ? `응시 인원이 ${MIN_VERDICT_SAMPLE}명 미만이라 문항을 판정하지 않습니다.`
+              : `응시 인원이 ${MIN_ITEM_SAMPLE}명 미만이라 수치는 참고용입니다.`}
+          </p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+              <th className="py-3 pr-4">문항</th>
+              <th className="py-3 pr-4" title="평균 득점률. 높을수록 쉬운 문항">정답률 (p)</th>
+              <th className="py-3 pr-4" title="상위 27% 정답률 - 하위 27% 정답률">변별도 (D)</th>
+              <th className="py-3 pr-4" title="문항 점수와 나머지 문항 총점의 상관">점이연 (r)</th>
+              <th className="py-3 pr-4">판정</th>
+              <th className="py-3">사유</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.items.map(item => (
+              <tr
+                key={item.questionNumber}
+                onClick={() => onSelectQuestion(item.questionNumber)}
+                className={`border-b border-slate-50 cursor-pointer transition-colors ${item.questionNumber === selectedQuestionNum ? 'bg-slate-50' : 'hover:bg-slate-50/50'}`}
+              >
+                <td className="py-3 pr-4 font-black text-slate-800">{item.questionNumber}번</td>
+                <td className="py-3 pr-4 font-bold text-slate-600">{(item.difficulty * 100).toFixed(0)}%</td>
+                <td className={`py-3 pr-4 font-black ${item.discrimination < 0 ? 'text-red-500' : item.discrimination < 0.2 ? 'text-amber-600' : 'text-slate-800'}`}>{formatStat(item.discrimination)}</td>
+                <td className={`py-3 pr-4 font-bold ${item.pointBiserial !== null && item.pointBiserial < 0 ? 'text-red-500' : 'text-slate-600'}`}>{formatStat(item.pointBiserial)}</td>
+                <td className="py-3 pr-4">
+                  {item.verdict
+                    ? <span className={`px-2 py-0.5 rounded text-[10px] font-black whitespace-nowrap ${VERDICT_STYLES[item.verdict]}`}>{ITEM_VERDICT_LABELS[item.verdict]}</span>
+                    : <span className="text-[10px] font-black text-slate-300">-</span>}
+                </td>
+                <td className="py-3 text-[11px] font-bold text-slate-400">{item.flags.map(f => ITEM_FLAG_LABELS[f]).join(' · ') || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && selected.distractors.length > 0 && (
+        <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-3">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{selected.questionNumber}번 선택지별 상·하위 집단 선택 인원</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+            {selected.distractors.map(d => (
+              <div
+                key={d.choice || 'blank'}
+                className={`p-4 rounded-2xl border ${d.isKey ? 'bg-blue-50 border-blue-200' : d.isFunctional ? 'bg-white border-slate-200' : 'bg-white border-dashed border-amber-300'}`}
+              >
+                <p className="text-sm font-black text-slate-800 flex items-center gap-1">
+                  {d.choice ? `${d.choice}번` : '미기입'}
+                  {d.isKey && <span className="bg-blue-600 text-white px-1.5 py-0.5 rounded text-[8px] uppercase">정답</span>}
+                </p>
+                <p className="text-[11px] font-bold text-slate-500 mt-1">전체 {d.total}명</p>
+                <p className="text-[11px] font-bold text-slate-500">상위 {d.upper} · 하위 {d.lower}</p>
+                {!d.isKey && d.choice && !d.isFunctional && <p className="text-[10px] font-black text-amber-600 mt-1">효과 없음</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {flaggedCount > 0 && (
+        <p className="text-[11px] font-bold text-slate-400">
+          '전원 정답 검토' 문항은 정답 오류나 문제 오류일 수 있습니다. 확인 후 시험 수정에서 정답을 고치거나 전원 정답 처리하세요.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ItemAnalysisPanel;
@@ -1,21 +1,36 @@
 
 import React from 'react';
-import { ViewMode } from '../types';
+import { ViewMode, UserRole } from '../types';
+import { ROLE_LABELS } from '../utils/authUtils.ts';
 
 interface LayoutProps {
   children: React.ReactNode;
   activeView: ViewMode;
   setView: (view: ViewMode) => void;
   isCloudConnected: boolean;
+  needsMigration: boolean;
+  syncStatus: SyncStatus;
+  onOpenSyncQueue: () => void;
+  account: { email: string; role?: UserRole } | null; // 로그인 사용 중일 때만
+  onSignOut: () => void;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, activeView, setView, isCloudConnected }) => {
+export interface SyncStatus {
+  pending: number;
+  failed: number;
+  isSyncing: boolean;
+  isOnline: boolean;
+}
+
+const Layout: React.FC<LayoutProps> = ({ children, activeView, setView, isCloudConnected, needsMigration, syncStatus, onOpenSyncQueue, account, onSignOut }) => {
   const navItems = [
     { id: ViewMode.DASHBOARD, label: '통계', icon: '📊' },
     { id: ViewMode.STUDENTS, label: '학생 명단', icon: '👥' },
+    { id: ViewMode.CLASSES, label: '반 관리', icon: '🏫' },
     { id: ViewMode.STUDENT_DETAIL, label: '학생 개별 관리', icon: '👤' }, // 추가
     { id: ViewMode.EXAMS, label: '시험 및 채점', icon: '📝' },
     { id: ViewMode.ANALYTICS, label: '심층 분석', icon: '💡' },
+    { id: ViewMode.QUESTION_BANK, label: '문제은행', icon: '🗂️' },
   ];
 
   return (
@@ -71,9 +86,53 @@ const Layout: React.FC<LayoutProps> = ({ children, activeView, setView, isCloudC
               <div className={`w-1.5 h-1.5 rounded-full ${isCloudConnected ? 'bg-blue-400 animate-ping' : 'bg-amber-500'}`}></div>
             </div>
             <p className={`text-[11px] font-black ${isCloudConnected ? 'text-blue-400' : 'text-slate-400'}`}>
-              {isCloudConnected ? 'CONNECTED' : 'LOCAL ONLY'}
+              {!isCloudConnected ? 'LOCAL ONLY' : syncStatus.isOnline ? 'CONNECTED' : 'OFFLINE'}
             </p>
+            {isCloudConnected && needsMigration && (
+              <button onClick={() => setView(ViewMode.SETTINGS)} className="mt-2 text-[10px] font-black text-amber-400 hover:text-amber-300">
+                ⚠️ DB 업데이트 필요
+              </button>
+            )}
           </div>
+
+          {isCloudConnected && (
+            <button
+              onClick={onOpenSyncQueue}
+              className={`w-full p-4 rounded-2xl border text-left transition-all ${
+                syncStatus.failed > 0
+                  ? 'bg-red-500/10 border-red-500/30 hover:bg-red-500/20'
+                  : syncStatus.pending > 0
+                    ? 'bg-amber-500/10 border-amber-500/30 hover:bg-amber-500/20'
+                    : 'bg-slate-800/50 border-slate-700 hover:bg-slate-800'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Sync Queue</span>
+                {syncStatus.isSyncing && <div className="w-3 h-3 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>}
+              </div>
+              <p className={`text-[11px] font-black ${
+                syncStatus.failed > 0 ? 'text-red-400' : syncStatus.pending > 0 ? 'text-amber-400' : 'text-emerald-400'
+              }`}>
+                {syncStatus.pending === 0 && syncStatus.failed === 0
+                  ? '모두 저장됨'
+                  : [
+                      syncStatus.pending > 0 ? `대기 ${syncStatus.pending}건` : '',
+                      syncStatus.failed > 0 ? `실패 ${syncStatus.failed}건` : ''
+                    ].filter(Boolean).join(' · ')}
+              </p>
+            </button>
+          )}
+
+          {account && (
+            <div className="p-4 rounded-2xl border bg-slate-800/50 border-slate-700">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Account</span>
+                {account.role && <span className="text-[9px] font-black text-blue-400">{ROLE_LABELS[account.role]}</span>}
+              </div>
+              <p className="text-[11px] font-black text-slate-300 truncate">{account.email}</p>
+              <button onClick={onSignOut} className="mt-2 text-[10px] font-black text-slate-500 hover:text-white">로그아웃</button>
+            </div>
+          )}
         </div>
       </aside>
 
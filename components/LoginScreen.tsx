@@ -0,0 +1,122 @@
+
+import React, { useState } from 'react';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+interface LoginScreenProps {
+  supabase: SupabaseClient;
+  onDisconnect: () => void; // 클라우드 연결 해제 후 로컬 모드로
+}
+
+type AuthMode = 'SIGN_IN' | 'SIGN_UP' | 'MAGIC_LINK';
+
+const MODE_LABELS: Record<AuthMode, string> = {
+  SIGN_IN: '로그인',
+  SIGN_UP: '계정 만들기',
+  MAGIC_LINK: '메일 링크로 로그인'
+};
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ supabase, onDisconnect }) => {
+  const [mode, setMode] = useState<AuthMode>('SIGN_IN');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'error' | 'info'; text: string } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || (mode !== 'MAGIC_LINK' && !password)) {
+      setMessage({ tone: 'error', text: '이메일과 비밀번호를 입력하세요.' });
+      return;
+    }
+    setIsSubmitting(true);
+    setMessage(null);
+    try {
+      if (mode === 'SIGN_IN') {
+        const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+        if (error) throw error;
+      } else if (mode === 'SIGN_UP') {
+        const { data, error } = await supabase.auth.signUp({ email: email.trim(), password });
+        if (error) throw error;
+        // 메일 인증을 켜 둔 프로젝트는 세션 없이 돌아옴
+        if (!data.session) setMessage({ tone: 'info', text: '인증 메일을 보냈습니다. 메일의 링크를 누른 뒤 로그인하세요. 권한은 원장이 지정합니다.' });
+      } else {
+        const { error } = await supabase.auth.signInWithOtp({ email: email.trim(), options: { emailRedirectTo: window.location.origin } });
+        if (error) throw error;
+        setMessage({ tone: 'info', text: '로그인 링크를 메일로 보냈습니다.' });
+      }
+    } catch (err: any) {
+      console.error("Auth Error:", err);
+      setMessage({ tone: 'error', text: err.message || '로그인에 실패했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[3rem] shadow-2xl overflow-hidden animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50">
+          <div className="flex items-center space-x-3 mb-1">
+            <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center font-black text-white italic">T</div>
+            <h1 className="text-xl font-black tracking-tighter text-slate-800">TwoTop Manager</h1>
+          </div>
+          <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">선생님 계정으로 로그인하세요</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-10 space-y-6">
+          <div className="bg-slate-100 p-1 rounded-2xl flex">
+            {(Object.keys(MODE_LABELS) as AuthMode[]).map(m => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => { setMode(m); setMessage(null); }}
+                className={`flex-1 px-2 py-2 rounded-xl text-[11px] font-black transition-all ${mode === m ? 'bg-white text-slate-900 shadow' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {MODE_LABELS[m]}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Email</label>
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" className="w-full px-6 py-4 bg-slate-50 border border-slate-100 rounded-2xl outline-none font-bold text-slate-800" />
+          </div>
+          {mode !== 'MAGIC_LINK' && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={mode === 'SIGN_UP' ? 'new-password' : 'current-password'}
+                className="w-full px-6 py-4 bg-slate-50 border border-slate-100 rounded-2xl outline-none font-bold text-slate-800"
+              />
+            </div>
+          )}
+
+          {message && (
+            <p className={`text-sm font-bold leading-relaxed ${message.tone === 'error' ? 'text-red-500' : 'text-blue-600'}`}>{message.text}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black text-lg shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98] disabled:opacity-50"
+          >
+            {isSubmitting ? '확인 중...' : MODE_LABELS[mode]}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => { if (window.confirm('클라우드 연결을 해제하고 이 기기의 로컬 데이터만 사용할까요?')) onDisconnect(); }}
+            className="w-full text-[10px] font-black text-slate-400 hover:text-slate-600 uppercase tracking-widest"
+          >
+            클라우드 연결 해제
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,59 @@
+
+import React from 'react';
+
+interface MarkdownViewProps {
+  content: string;
+}
+
+// **굵게** 처리만 하는 인라인 렌더러
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(/(\*\*[^*]+\*\*)/g).map((part, i) =>
+    part.startsWith('**') && part.endsWith('**')
+      ? <strong key={i} className="font-black text-slate-900">{part.slice(2, -2)}</strong>
+      : <React.Fragment key={i}>{part}</React.Fragment>
+  );
+
+// AI 리포트용 최소 마크다운 렌더러 (제목, 목록, 구분선, 문단)
+const MarkdownView: React.FC<MarkdownViewProps> = ({ content }) => {
+  const blocks: React.ReactNode[] = [];
+  let listItems: { ordered: boolean; text: string }[] = [];
+
+  const flushList = () => {
+    if (listItems.length === 0) return;
+    const ordered = listItems[0].ordered;
+    const items = listItems.map((item, i) => <li key={i}>{renderInline(item.text)}</li>);
+    blocks.push(ordered
+      ? <ol key={blocks.length} className="list-decimal pl-6 space-y-1">{items}</ol>
+      : <ul key={blocks.length} className="list-disc pl-6 space-y-1">{items}</ul>);
+    listItems = [];
+  };
+
+  content.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,4})\s+(.*)$/);
+    const bullet = line.match(/^[-*]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+    if (bullet || numbered) {
+      listItems.push({ ordered: !!numbered, text: (bullet || numbered)![1] });
+      return;
+    }
+    flushList();
+
+    if (!line) return;
+    if (heading) {
+      const level = heading[1].length;
+      const cls = level === 1 ? 'text-xl' : level === 2 ? 'text-lg' : 'text-base';
+      blocks.push(<p key={blocks.length} className={`${cls} font-black text-slate-900 pt-4`}>{renderInline(heading[2])}</p>);
+    } else if (/^(-{3,}|\*{3,})$/.test(line)) {
+      blocks.push(<hr key={blocks.length} className="border-slate-200" />);
+    } else {
+      blocks.push(<p key={blocks.length}>{renderInline(line)}</p>);
+    }
+  });
+  flushList();
+
+  return <div className="space-y-3 text-sm font-medium text-slate-600 leading-relaxed">{blocks}</div>;
+};
+
+export default MarkdownView;
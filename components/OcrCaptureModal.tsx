@@ -0,0 +1,279 @@
+
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Student } from '../types.ts';
+import { extractScoresFromImage } from '../services/geminiService.ts';
+import { AnswerPreviewRow, getAnswerRowErrors } from '../utils/importUtils.ts';
+import { buildOcrPreview, getOcrConfidence, imageFileToJpeg, captureVideoFrame } from '../utils/ocrUtils.ts';
+
+interface OcrCaptureModalProps {
+  students: Student[];
+  applyLabel: string;
+  onClose: () => void;
+  onApply: (scores: Record<string, number>) => void;
+}
+
+const OcrCaptureModal: React.FC<OcrCaptureModalProps> = ({ students, applyLabel, onClose, onApply }) => {
+  const [image, setImage] = useState<{ dataUrl: string; base64: string } | null>(null);
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [hasExtracted, setHasExtracted] = useState(false);
+  const [previewRows, setPreviewRows] = useState<AnswerPreviewRow[]>([]);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    setIsCameraOn(false);
+  };
+
+  // 모달이 닫히면 카메라를 반드시 해제
+  useEffect(() => stopCamera, []);
+
+  const rowErrors = useMemo(
+    () => previewRows.map(row => getAnswerRowErrors(row, previewRows)),
+    [previewRows]
+  );
+  const validCount = rowErrors.filter(errs => errs.length === 0).length;
+
+  const startCamera = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setIsCameraOn(true);
+      setImage(null);
+      // video 요소가 렌더된 뒤 연결
+      requestAnimationFrame(() => {
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          videoRef.current.play();
+        }
+      });
+    } catch (err: any) {
+      console.error("Camera error:", err);
+      alert(`카메라를 사용할 수 없습니다: ${err.message}`);
+    }
+  };
+
+  const handleCapture = () => {
+    if (!videoRef.current) return;
+    try {
+      setImage(captureVideoFrame(videoRef.current));
+      stopCamera();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      stopCamera();
+      setImage(await imageFileToJpeg(file));
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleExtract = async () => {
+    if (!image) return;
+    setIsExtracting(true);
+    try {
+      const extracted = await extractScoresFromImage(image.base64, students.map(s => s.name));
+      setPreviewRows(buildOcrPreview(extracted, students));
+      setHasExtracted(true);
+    } catch (err: any) {
+      alert(`점수 인식 실패: ${err.message}`);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const updateRowMatch = (rowNumber: number, studentId: string) => {
+    setPreviewRows(prev => prev.map(row => {
+      if (row.rowNumber !== rowNumber) return row;
+      if (!studentId) return { ...row, match: null };
+      const student = students.find(s => s.id === studentId);
+      // 직접 고른 매칭은 확실한 것으로 취급
+      return { ...row, match: student ? { student, similarity: 1 } : null };
+    }));
+  };
+
+  const updateRowScore = (rowNumber: number, value: string) => {
+    setPreviewRows(prev => prev.map(row => {
+      if (row.rowNumber !== rowNumber) return row;
+      const score = Number(value);
+      const isValid = value !== '' && !isNaN(score) && score >= 0;
+      return { ...row, score: isValid ? score : undefined, errors: isValid ? [] : ['점수를 인식하지 못했습니다.'] };
+    }));
+  };
+
+  const removeRow = (rowNumber: number) => {
+    setPreviewRows(prev => prev.filter(row => row.rowNumber !== rowNumber));
+  };
+
+  const handleApply = () => {
+    const scores: Record<string, number> = {};
+    previewRows.forEach((row, i) => {
+      if (rowErrors[i].length > 0 || !row.match || row.score === undefined) return;
+      scores[row.match.student.id] = row.score;
+    });
+    const applied = Object.keys(scores).length;
+    if (applied === 0) {
+      alert('반영할 수 있는 행이 없습니다.');
+      return;
+    }
+    const skipped = previewRows.length - applied;
+    if (skipped > 0 && !window.confirm(`확인이 필요한 ${skipped}행은 제외하고 ${applied}명의 점수를 반영합니다. 계속할까요?`)) return;
+    onApply(scores);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-6xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">성적표 사진으로 입력</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">AI OCR Score Capture</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-10 overflow-y-auto flex-1 space-y-8 custom-scrollbar">
+          <div className="flex flex-wrap items-center gap-4">
+            {isCameraOn ? (
+              <>
+                <button onClick={handleCapture} className="bg-blue-600 text-white px-6 py-3 rounded-xl font-black text-sm hover:bg-blue-700 shadow-lg">📸 촬영</button>
+                <button onClick={stopCamera} className="bg-slate-100 text-slate-600 px-6 py-3 rounded-xl font-black text-sm hover:bg-slate-200">취소</button>
+              </>
+            ) : (
+              <button onClick={startCamera} className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black text-sm hover:bg-slate-800 shadow-lg">📷 카메라 촬영</button>
+            )}
+            <label className="bg-slate-100 text-slate-600 px-6 py-3 rounded-xl font-black text-sm cursor-pointer hover:bg-slate-200">
+              이미지 파일 선택
+              <input type="file" accept="image/*" onChange={handleFile} className="hidden" />
+            </label>
+            {image && !isCameraOn && (
+              <button
+                onClick={handleExtract}
+                disabled={isExtracting}
+                className="ml-auto bg-indigo-600 text-white px-6 py-3 rounded-xl font-black text-sm hover:bg-indigo-700 shadow-lg disabled:opacity-50"
+              >
+                {isExtracting ? '인식 중...' : hasExtracted ? '🔄 다시 인식' : '✨ 점수 인식'}
+              </button>
+            )}
+          </div>
+
+          {(isCameraOn || image) && (
+            <div className="rounded-3xl overflow-hidden bg-slate-900 flex justify-center">
+              {isCameraOn
+                ? <video ref={videoRef} playsInline muted className="max-h-[420px]" />
+                : image && <img src={image.dataUrl} alt="성적표" className="max-h-[420px] object-contain" />}
+            </div>
+          )}
+
+          {hasExtracted && previewRows.length === 0 && (
+            <div className="py-10 text-center text-slate-400 font-bold">인식된 이름/점수가 없습니다. 더 선명한 사진으로 다시 시도하세요.</div>
+          )}
+
+          {previewRows.length > 0 && (
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">인식 결과 확인</h4>
+                <p className="text-[10px] font-black uppercase">
+                  <span className="text-green-600">{validCount}행 반영 가능</span>
+                  <span className="text-slate-300 mx-2">/</span>
+                  <span className="text-red-500">{previewRows.length - validCount}행 확인 필요</span>
+                </p>
+              </div>
+              <div className="flex gap-4 text-[10px] font-black text-slate-400">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-200"></span>확실한 매칭</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-200"></span>유사 이름 (확인 필요)</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-200"></span>명단에 없음</span>
+              </div>
+              <div className="rounded-2xl border border-slate-100 overflow-x-auto">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                      <th className="px-4 py-3">인식된 이름</th>
+                      <th className="px-4 py-3">명단 매칭</th>
+                      <th className="px-4 py-3">점수</th>
+                      <th className="px-4 py-3">검증</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {previewRows.map((row, i) => {
+                      const errors = rowErrors[i];
+                      const confidence = getOcrConfidence(row);
+                      return (
+                        <tr key={row.rowNumber} className={errors.length > 0 ? 'bg-red-50/50' : ''}>
+                          <td className="px-4 py-3 text-sm font-black text-slate-800">{row.rawName || '-'}</td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={row.match?.student.id || ''}
+                              onChange={(e) => updateRowMatch(row.rowNumber, e.target.value)}
+                              className={`px-3 py-2 rounded-xl border-2 outline-none text-xs font-black ${confidence === 'NONE' ? 'border-red-200 bg-white text-red-500' : confidence === 'LOW' ? 'border-amber-300 bg-amber-50 text-amber-700' : 'border-green-200 bg-green-50 text-green-700'}`}
+                            >
+                              <option value="">매칭 안 함</option>
+                              {row.candidates.map(c => (
+                                <option key={c.student.id} value={c.student.id}>
+                                  {c.student.name} ({c.student.school || '-'}) · {(c.similarity * 100).toFixed(0)}%
+                                </option>
+                              ))}
+                              <optgroup label="전체 명단">
+                                {students
+                                  .filter(s => !row.candidates.some(c => c.student.id === s.id))
+                                  .map(s => <option key={s.id} value={s.id}>{s.name} ({s.school || '-'})</option>)}
+                              </optgroup>
+                            </select>
+                          </td>
+                          <td className="px-4 py-3">
+                            <input
+                              type="number"
+                              value={row.score ?? ''}
+                              onChange={(e) => updateRowScore(row.rowNumber, e.target.value)}
+                              className="w-24 px-3 py-2 bg-slate-50 rounded-xl border-none outline-none text-sm font-black text-slate-800"
+                            />
+                          </td>
+                          <td className="px-4 py-3">
+                            {errors.length === 0 ? (
+                              <span className="text-[10px] font-black text-green-600 uppercase">OK</span>
+                            ) : (
+                              <ul className="text-[10px] font-bold text-red-500 space-y-0.5">
+                                {errors.map((err, j) => <li key={j}>{err}</li>)}
+                              </ul>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            <button onClick={() => removeRow(row.rowNumber)} className="text-slate-300 hover:text-red-500 font-black">✕</button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-8 border-t border-slate-100 bg-slate-50/50">
+          <button
+            onClick={handleApply}
+            disabled={validCount === 0}
+            className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black text-lg shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98] disabled:opacity-30"
+          >
+            {applyLabel} ({validCount}명)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OcrCaptureModal;
@@ -0,0 +1,92 @@
+
+import React from 'react';
+import { QuestionConfig } from '../types.ts';
+import {
+  getOmrLayout, OmrRosterEntry, OMR_PAGE, OMR_MARKERS, OMR_MARKER_SIZE, OMR_CHOICES, OMR_BUBBLE_RADIUS
+} from '../utils/omrUtils.ts';
+
+interface OmrAnswerSheetProps {
+  examTitle: string;
+  questions: QuestionConfig[];
+  roster: OmrRosterEntry[];
+}
+
+const PAGE_STYLE = { width: 794, height: 1123 }; // A4 (96dpi)
+
+// 인쇄용 OMR 답안지 + 수험번호 안내표. 좌표는 utils/omrUtils.ts 레이아웃과 동일해야 판독됨
+const OmrAnswerSheet = React.forwardRef<HTMLDivElement, OmrAnswerSheetProps>(({ examTitle, questions, roster }, ref) => {
+  const layout = getOmrLayout(questions);
+  const idX = layout.idColumns[0][0].x;
+  const idCenterX = (idX + layout.idColumns[layout.idColumns.length - 1][0].x) / 2;
+
+  return (
+    <div ref={ref} className="bg-white text-slate-900" style={{ width: PAGE_STYLE.width, fontFamily: "'Noto Sans KR', sans-serif" }}>
+      <svg width={PAGE_STYLE.width} height={PAGE_STYLE.height} viewBox={`0 0 ${OMR_PAGE.width} ${OMR_PAGE.height}`} style={{ display: 'block' }}>
+        <rect x={0} y={0} width={OMR_PAGE.width} height={OMR_PAGE.height} fill="#ffffff" />
+        {OMR_MARKERS.map(([x, y], i) => (
+          <rect key={i} x={x - OMR_MARKER_SIZE / 2} y={y - OMR_MARKER_SIZE / 2} width={OMR_MARKER_SIZE} height={OMR_MARKER_SIZE} fill="#000000" />
+        ))}
+
+        <text x={105} y={27} textAnchor="middle" fontSize={6} fontWeight={900}>{examTitle || '시험'} 답안지</text>
+        <text x={105} y={34} textAnchor="middle" fontSize={3} fill="#64748b">컴퓨터용 사인펜으로 ● 처럼 칸 안을 완전히 칠하세요. 수정 시 수정테이프를 사용하세요.</text>
+
+        <text x={26} y={48} fontSize={3.5} fontWeight={700}>이름</text>
+        <line x1={36} y1={49} x2={96} y2={49} stroke="#0f172a" strokeWidth={0.3} />
+        <text x={108} y={48} fontSize={3.5} fontWeight={700}>학교</text>
+        <line x1={118} y1={49} x2={184} y2={49} stroke="#0f172a" strokeWidth={0.3} />
+
+        {/* 수험번호 */}
+        <text x={idCenterX} y={59} textAnchor="middle" fontSize={3} fontWeight={900}>수험번호</text>
+        {layout.idColumns.map((column, col) => (
+          <rect key={col} x={column[0].x - 2.75} y={61.5} width={5.5} height={5.5} fill="none" stroke="#0f172a" strokeWidth={0.25} />
+        ))}
+        {layout.idColumns[0].map(b => (
+          <text key={b.digit} x={idX - 4.5} y={b.y + 1} textAnchor="middle" fontSize={2.6} fill="#64748b">{b.digit}</text>
+        ))}
+        {layout.idColumns.flat().map((b, i) => (
+          <circle key={i} cx={b.x} cy={b.y} r={OMR_BUBBLE_RADIUS} fill="none" stroke="#64748b" strokeWidth={0.3} />
+        ))}
+
+        {/* 객관식 답안 */}
+        {layout.answerColumns.map(column => (
+          <g key={column.labelX}>
+            <text x={column.labelX} y={67} textAnchor="middle" fontSize={2.6} fontWeight={900}>번호</text>
+            {OMR_CHOICES.map((choice, c) => (
+              <text key={choice} x={column.choiceXs[c]} y={67} textAnchor="middle" fontSize={2.6} fontWeight={900}>{choice}</text>
+            ))}
+          </g>
+        ))}
+        {layout.questionRows.map(row => (
+          <g key={row.number}>
+            <text x={row.labelX} y={row.y + 1} textAnchor="middle" fontSize={2.8} fontWeight={700}>{row.number}</text>
+            {row.bubbles.map(b => (
+              <circle key={b.choice} cx={b.x} cy={b.y} r={OMR_BUBBLE_RADIUS} fill="none" stroke="#64748b" strokeWidth={0.3} />
+            ))}
+          </g>
+        ))}
+
+        <text x={105} y={276} textAnchor="middle" fontSize={2.6} fill="#94a3b8">네 모서리의 검은 사각형이 모두 보이도록 스캔/촬영하세요.</text>
+      </svg>
+
+      {roster.length > 0 && (
+        <div className="p-12 space-y-6" style={{ minHeight: PAGE_STYLE.height }}>
+          <div className="border-b-4 border-slate-900 pb-4">
+            <h1 className="text-2xl font-black">{examTitle || '시험'} · 수험번호 안내</h1>
+            <p className="text-xs font-bold text-slate-500 mt-1">학생별 수험번호를 답안지 수험번호 칸에 마킹하세요.</p>
+          </div>
+          <div className="grid grid-cols-3 gap-x-6 gap-y-2">
+            {roster.map(entry => (
+              <div key={entry.student.id} className="flex items-center gap-3 text-sm border-b border-slate-100 py-1">
+                <span className="font-black font-mono">{String(entry.number).padStart(3, '0')}</span>
+                <span className="font-bold">{entry.student.name}</span>
+                <span className="text-[10px] text-slate-400">{entry.student.school || ''}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default OmrAnswerSheet;
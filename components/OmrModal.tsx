@@ -0,0 +1,298 @@
+
+import React, { useState, useMemo, useRef } from 'react';
+import { Student, QuestionConfig, OmrRosterAssignment } from '../types.ts';
+import {
+  extendOmrRoster, resolveOmrRoster, loadGrayImage, readOmrSheet, OmrSheetResult, OMR_CHOICES, OMR_MAX_QUESTIONS, OMR_MAX_STUDENT_NUMBER
+} from '../utils/omrUtils.ts';
+import { saveElementAsPdf } from '../utils/pdfUtils.ts';
+import OmrAnswerSheet from './OmrAnswerSheet.tsx';
+
+interface OmrModalProps {
+  examTitle: string;
+  questions: QuestionConfig[];
+  students: Student[]; // 응시 대상 (수험번호 부여 기준)
+  savedRoster: OmrRosterAssignment[]; // 이 시험에서 이미 인쇄한 수험번호
+  onRosterAssigned: (roster: OmrRosterAssignment[]) => void;
+  onClose: () => void;
+  onApply: (answers: Record<string, Record<number, string>>) => void;
+}
+
+interface ScannedSheet {
+  id: string;
+  fileName: string;
+  result: OmrSheetResult | null;
+  error?: string;
+  studentId: string;
+  resolved: Record<number, string>; // 선생님이 직접 정한 답 (이중 마킹/미기입 문항)
+}
+
+const OmrModal: React.FC<OmrModalProps> = ({ examTitle, questions, students, savedRoster, onRosterAssigned, onClose, onApply }) => {
+  const [sheets, setSheets] = useState<ScannedSheet[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const sheetRef = useRef<HTMLDivElement>(null);
+
+  // 인쇄할 번호표: 저장된 번호 + 번호가 없는 대상 학생
+  const printRoster = useMemo(() => extendOmrRoster(savedRoster, students), [savedRoster, students]);
+  const roster = useMemo(() => resolveOmrRoster(printRoster, students), [printRoster, students]);
+  const savedNumbers = useMemo(() => new Map(savedRoster.map(a => [a.studentId, a.number])), [savedRoster]);
+
+  // 판독한 수험번호는 인쇄 때 저장한 번호표로만 찾음 (모르는 번호는 매칭하지 않음)
+  const describeIdError = (result: OmrSheetResult | null) => {
+    if (result?.idIssue === 'MULTI') return '수험번호가 이중 마킹되었습니다.';
+    if (result?.studentNumber == null) return '수험번호를 읽지 못했습니다.';
+    if (savedRoster.length === 0) return '이 시험에서 인쇄한 수험번호가 없습니다. 학생을 직접 선택하세요.';
+    const assignment = savedRoster.find(a => a.number === result.studentNumber);
+    if (!assignment) return `수험번호 ${result.studentNumber}은(는) 이 시험에서 부여되지 않은 번호입니다.`;
+    if (students.some(s => s.id === assignment.studentId)) return '학생을 선택하세요.';
+    return `수험번호 ${result.studentNumber}의 학생이 응시 대상에 없습니다.`;
+  };
+  const multipleCount = questions.filter(q => q.type === 'MULTIPLE').length;
+
+  const sheetErrors = useMemo(() => sheets.map(sheet => {
+    const errors: string[] = [];
+    if (sheet.error) errors.push(sheet.error);
+    else if (!sheet.studentId) {
+      errors.push(describeIdError(sheet.result));
+    }
+    if (sheet.studentId && sheets.some(s => s !== sheet && s.studentId === sheet.studentId)) {
+      errors.push('다른 답안지와 같은 학생으로 매칭되었습니다.');
+    }
+    return errors;
+  }), [sheets, savedRoster]);
+
+  const validCount = sheetErrors.filter(errs => errs.length === 0).length;
+
+  const unresolvedCount = (sheet: ScannedSheet) =>
+    Object.keys(sheet.result?.issues || {}).filter(num => sheet.resolved[Number(num)] === undefined).length;
+
+  const handlePrint = async () => {
+    if (!sheetRef.current) return;
+    if (printRoster.some(a => a.number > OMR_MAX_STUDENT_NUMBER)) {
+      alert(`수험번호는 ${OMR_MAX_STUDENT_NUMBER}번까지 부여할 수 있습니다.`);
+      return;
+    }
+    // 인쇄한 번호를 시험에 고정해야 판독 때 같은 학생을 찾을 수 있음
+    if (printRoster.length !== savedRoster.length) onRosterAssigned(printRoster);
+    setIsPrinting(true);
+    try {
+      await saveElementAsPdf(sheetRef.current, `${examTitle || '시험'}_OMR답안지.pdf`);
+    } catch (e: any) {
+      console.error("OMR PDF Error:", e);
+      alert(`답안지 생성 실패: ${e.message}`);
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsReading(true);
+    const scanned: ScannedSheet[] = [];
+    // 한 장씩 순서대로 처리 (메모리 사용량 제한)
+    for (const file of files) {
+      const id = Math.random().toString(36).substr(2, 9);
+      try {
+        const result = readOmrSheet(await loadGrayImage(file), questions);
+        const assignment = savedRoster.find(a => a.number === result.studentNumber);
+        const studentId = assignment && students.some(s => s.id === assignment.studentId) ? assignment.studentId : '';
+        scanned.push({ id, fileName: file.name, result, studentId, resolved: {} });
+      } catch (err: any) {
+        console.error("OMR read error:", err);
+        scanned.push({ id, fileName: file.name, result: null, error: err.message, studentId: '', resolved: {} });
+      }
+    }
+    setSheets(prev => [...prev, ...scanned]);
+    setIsReading(false);
+  };
+
+  const updateSheet = (id: string, patch: Partial<ScannedSheet>) => {
+    setSheets(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  const handleApply = () => {
+    const answers: Record<string, Record<number, string>> = {};
+    let unresolved = 0;
+    sheets.forEach((sheet, i) => {
+      if (sheetErrors[i].length > 0 || !sheet.result) return;
+      answers[sheet.studentId] = { ...sheet.result.answers, ...sheet.resolved };
+      unresolved += unresolvedCount(sheet);
+    });
+    const applied = Object.keys(answers).length;
+    if (applied === 0) {
+      alert('반영할 수 있는 답안지가 없습니다.');
+      return;
+    }
+    const skipped = sheets.length - applied;
+    const notes = [
+      skipped > 0 ? `오류가 있는 ${skipped}장은 제외됩니다.` : '',
+      unresolved > 0 ? `확인하지 않은 ${unresolved}개 문항은 빈 답안으로 반영됩니다.` : ''
+    ].filter(Boolean).join('\n');
+    if (notes && !window.confirm(`${notes}\n${applied}명의 답안을 입력표에 반영할까요?`)) return;
+    onApply(answers);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-6xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">OMR 답안지</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">Print Template & Scan Recognition</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-10 overflow-y-auto flex-1 space-y-8 custom-scrollbar">
+          {multipleCount === 0 || multipleCount > OMR_MAX_QUESTIONS ? (
+            <div className="py-10 text-center text-slate-400 font-bold">
+              {multipleCount === 0 ? '객관식 문항이 없어 OMR 답안지를 만들 수 없습니다.' : `OMR 답안지는 객관식 ${OMR_MAX_QUESTIONS}문항까지 지원합니다.`}
+            </div>
+          ) : (
+            <>
+              <div className="space-y-4">
+                <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">1. 답안지 인쇄</h4>
+                <div className="flex flex-wrap items-center gap-4">
+                  <button onClick={handlePrint} disabled={isPrinting} className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black text-sm hover:bg-slate-800 shadow-lg disabled:opacity-50">
+                    {isPrinting ? '생성 중...' : '🖨️ 답안지 PDF 다운로드'}
+                  </button>
+                  <p className="text-xs font-bold text-slate-400">
+                    객관식 {multipleCount}문항 · 수험번호 안내표 {roster.length}명 포함. 처음 인쇄할 때 번호가 시험에 고정되고, 새로 추가된 학생은 뒷번호를 받습니다. 서술형은 입력표에서 직접 채점하세요.
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">2. 스캔/사진 판독</h4>
+                <label className="inline-block bg-blue-600 text-white px-6 py-3 rounded-xl font-black text-sm cursor-pointer hover:bg-blue-700 shadow-lg">
+                  {isReading ? '판독 중...' : '답안지 이미지 선택 (여러 장 가능)'}
+                  <input type="file" accept="image/*" multiple onChange={handleFiles} disabled={isReading} className="hidden" />
+                </label>
+              </div>
+
+              {sheets.length > 0 && (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">3. 판독 결과 검토</h4>
+                    <p className="text-[10px] font-black uppercase">
+                      <span className="text-green-600">{validCount}장 반영 가능</span>
+                      <span className="text-slate-300 mx-2">/</span>
+                      <span className="text-red-500">{sheets.length - validCount}장 오류</span>
+                    </p>
+                  </div>
+                  <div className="rounded-2xl border border-slate-100 overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead>
+                        <tr className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                          <th className="px-4 py-3">파일</th>
+                          <th className="px-4 py-3">수험번호</th>
+                          <th className="px-4 py-3">학생</th>
+                          <th className="px-4 py-3">확인 필요 문항</th>
+                          <th className="px-4 py-3">검증</th>
+                          <th className="px-4 py-3"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-50">
+                        {sheets.map((sheet, i) => {
+                          const errors = sheetErrors[i];
+                          const issues = Object.entries(sheet.result?.issues || {});
+                          return (
+                            <tr key={sheet.id} className={errors.length > 0 ? 'bg-red-50/50' : ''}>
+                              <td className="px-4 py-3 text-xs font-bold text-slate-500 max-w-[160px] truncate">{sheet.fileName}</td>
+                              <td className="px-4 py-3 text-sm font-black font-mono text-slate-800">
+                                {sheet.result?.studentNumber != null ? String(sheet.result.studentNumber).padStart(3, '0') : '-'}
+                              </td>
+                              <td className="px-4 py-3">
+                                {sheet.result && (
+                                  <select
+                                    value={sheet.studentId}
+                                    onChange={(e) => updateSheet(sheet.id, { studentId: e.target.value })}
+                                    className={`px-3 py-2 rounded-xl border-2 outline-none text-xs font-black ${sheet.studentId ? 'border-green-200 bg-green-50 text-green-700' : 'border-red-200 bg-white text-red-500'}`}
+                                  >
+                                    <option value="">학생 선택</option>
+                                    {roster.map(r => (
+                                      <option key={r.student.id} value={r.student.id}>
+                                        {savedNumbers.has(r.student.id) ? String(savedNumbers.get(r.student.id)).padStart(3, '0') : '---'} · {r.student.name} ({r.student.school || '-'})
+                                      </option>
+                                    ))}
+                                  </select>
+                                )}
+                              </td>
+                              <td className="px-4 py-3">
+                                {issues.length === 0 ? (
+                                  <span className="text-[10px] font-bold text-slate-300">없음</span>
+                                ) : (
+                                  <div className="flex flex-wrap gap-1">
+                                    {issues.map(([num, issue]) => {
+                                      const qNum = Number(num);
+                                      const isResolved = sheet.resolved[qNum] !== undefined;
+                                      return (
+                                        <label key={num} className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-black ${isResolved ? 'bg-slate-100 text-slate-500' : issue === 'MULTI' ? 'bg-red-100 text-red-600' : 'bg-amber-100 text-amber-700'}`}>
+                                          {qNum}번 {issue === 'MULTI' ? '이중' : '미기입'}
+                                          <select
+                                            value={sheet.resolved[qNum] ?? ''}
+                                            onChange={(e) => {
+                                              const resolved = { ...sheet.resolved };
+                                              if (e.target.value === '') delete resolved[qNum];
+                                              else resolved[qNum] = e.target.value === 'BLANK' ? '' : e.target.value;
+                                              updateSheet(sheet.id, { resolved });
+                                            }}
+                                            className="bg-white rounded px-1 outline-none"
+                                          >
+                                            <option value="">?</option>
+                                            {OMR_CHOICES.map(c => <option key={c} value={c}>{c}</option>)}
+                                            <option value="BLANK">빈칸</option>
+                                          </select>
+                                        </label>
+                                      );
+                                    })}
+                                  </div>
+                                )}
+                              </td>
+                              <td className="px-4 py-3">
+                                {errors.length === 0 ? (
+                                  <span className="text-[10px] font-black text-green-600 uppercase">OK</span>
+                                ) : (
+                                  <ul className="text-[10px] font-bold text-red-500 space-y-0.5">
+                                    {errors.map((err, j) => <li key={j}>{err}</li>)}
+                                  </ul>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-right">
+                                <button onClick={() => setSheets(prev => prev.filter(s => s.id !== sheet.id))} className="text-slate-300 hover:text-red-500 font-black">✕</button>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {/* PDF 캡처용 (화면 밖 렌더링) */}
+              <div style={{ position: 'fixed', left: -10000, top: 0 }} aria-hidden="true">
+                <OmrAnswerSheet ref={sheetRef} examTitle={examTitle} questions={questions} roster={roster} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-8 border-t border-slate-100 bg-slate-50/50">
+          <button
+            onClick={handleApply}
+            disabled={validCount === 0}
+            className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black text-lg shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98] disabled:opacity-30"
+          >
+            입력표에 반영 ({validCount}명)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OmrModal;
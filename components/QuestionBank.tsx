@@ -0,0 +1,386 @@
+import React, { useMemo, useState } from 'react';
+import { BankDifficulty, BankItem, Exam, QuestionType } from '../types.ts';
+import { Permissions } from '../utils/authUtils.ts';
+import { collectSkillTags, normalizeTag } from '../utils/masteryUtils.ts';
+import { OMR_CHOICES } from '../utils/omrUtils.ts';
+import { parseAcceptedAnswers } from '../utils/scoringUtils.ts';
+import {
+  BankFilter, DIFFICULTY_LABELS, collectBankSources, filterBankItems, getBankItemStats, suggestDifficulty
+} from '../utils/questionBankUtils.ts';
+
+interface QuestionBankProps {
+  items: BankItem[];
+  exams: Exam[]; // 통계 집계용 (채점 완료 시험)
+  permissions: Permissions;
+  onAddItems: (items: BankItem[]) => void;
+  onUpdateItem: (item: BankItem) => void;
+  onDeleteItem: (id: string) => void;
+}
+
+const CHOICE_MARKS = ['①', '②', '③', '④', '⑤'];
+const DIFFICULTIES: BankDifficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+const difficultyStyle = (difficulty?: BankDifficulty) =>
+  difficulty === 'HARD' ? 'bg-red-50 text-red-600' : difficulty === 'MEDIUM' ? 'bg-amber-50 text-amber-600' : difficulty === 'EASY' ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-400';
+
+const emptyDraft = (): BankItem => ({
+  id: Math.random().toString(36).substr(2, 9),
+  stem: '',
+  choices: OMR_CHOICES.map(() => ''),
+  type: 'MULTIPLE',
+  answer: '',
+  point: 1,
+  tags: [],
+  createdAt: Date.now()
+});
+
+const QuestionBank: React.FC<QuestionBankProps> = ({ items, exams, permissions, onAddItems, onUpdateItem, onDeleteItem }) => {
+  const [filter, setFilter] = useState<BankFilter>({ query: '', tag: 'all', source: 'all', difficulty: 'all' });
+  const [draft, setDraft] = useState<BankItem | null>(null);
+  const [tagInput, setTagInput] = useState('');
+
+  const stats = useMemo(() => getBankItemStats(exams), [exams]);
+  const sources = useMemo(() => collectBankSources(items), [items]);
+  const tags = useMemo(() => {
+    const known = collectSkillTags(exams);
+    const extra = Array.from(new Set<string>(items.flatMap(i => i.tags || []))).filter(t => !known.includes(t)).sort((a, b) => a.localeCompare(b, 'ko'));
+    return [...known, ...extra];
+  }, [exams, items]);
+
+  const visibleItems = useMemo(
+    () => filterBankItems(items, filter).sort((a, b) => b.createdAt - a.createdAt),
+    [items, filter]
+  );
+
+  // 실제 정답률과 지정 난이도가 다른 문항
+  const outdatedItems = useMemo(
+    () => items.filter(item => {
+      const suggested = suggestDifficulty(stats.get(item.id));
+      return suggested !== null && suggested !== item.difficulty;
+    }),
+    [items, stats]
+  );
+
+  const isEditingExisting = !!draft && items.some(i => i.id === draft.id);
+  const draftStats = draft ? stats.get(draft.id) : undefined;
+
+  const openNew = () => {
+    setDraft(emptyDraft());
+    setTagInput('');
+  };
+
+  const openEdit = (item: BankItem) => {
+    setDraft({ ...item, choices: OMR_CHOICES.map((_, i) => item.choices?.[i] || ''), tags: [...(item.tags || [])] });
+    setTagInput('');
+  };
+
+  const updateDraft = (changes: Partial<BankItem>) => setDraft(prev => prev ? { ...prev, ...changes } : prev);
+
+  const toggleDraftTag = (tag: string) => {
+    if (!draft) return;
+    const current = draft.tags || [];
+    updateDraft({ tags: current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag] });
+  };
+
+  const addCustomTag = () => {
+    const tag = normalizeTag(tagInput);
+    if (!tag || !draft) return;
+    if (!draft.tags?.includes(tag)) updateDraft({ tags: [...(draft.tags || []), tag] });
+    setTagInput('');
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.stem.trim()) {
+      alert('발문을 입력해주세요.');
+      return;
+    }
+    if (!draft.answer.trim()) {
+      alert('정답을 입력해주세요.');
+      return;
+    }
+    const choices = draft.type === 'MULTIPLE' ? draft.choices?.map(c => c.trim()) : undefined;
+    const item: BankItem = {
+      ...draft,
+      stem: draft.stem.trim(),
+      answer: draft.answer.trim(),
+      // 선택지를 하나도 안 적었으면 저장하지 않음 (지문만 있는 문항)
+      choices: choices?.some(Boolean) ? choices : undefined,
+      ignoreCase: draft.type === 'SUBJECTIVE' ? draft.ignoreCase : undefined,
+      allowPartial: draft.type === 'SUBJECTIVE' ? draft.allowPartial : undefined,
+      explanation: draft.explanation?.trim() || undefined,
+      source: draft.source?.trim() || undefined,
+      tags: draft.tags?.length ? draft.tags : undefined
+    };
+    if (isEditingExisting) onUpdateItem(item);
+    else onAddItems([item]);
+    setDraft(null);
+  };
+
+  const applySuggestedDifficulty = (item: BankItem) => {
+    const suggested = suggestDifficulty(stats.get(item.id));
+    if (suggested) onUpdateItem({ ...item, difficulty: suggested });
+  };
+
+  const applyAllSuggestions = () => {
+    if (!window.confirm(`${outdatedItems.length}개 문항의 난이도를 실제 정답률 기준으로 바꿉니다.`)) return;
+    outdatedItems.forEach(applySuggestedDifficulty);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="p-8 bg-white rounded-[2.5rem] border border-slate-200 shadow-sm space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">문제은행</h3>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+              {items.length}문항 · 출제될 때마다 정답률·변별도가 문항별로 누적됩니다
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {permissions.canManageBank && outdatedItems.length > 0 && (
+              <button onClick={applyAllSuggestions} className="px-5 py-3 bg-amber-50 text-amber-600 rounded-2xl text-xs font-black hover:bg-amber-100 transition-all">
+                📈 난이도 통계 반영 ({outdatedItems.length})
+              </button>
+            )}
+            {permissions.canManageBank && (
+              <button onClick={openNew} className="px-5 py-3 bg-slate-900 text-white rounded-2xl text-xs font-black hover:bg-slate-800 transition-all">
+                + 새 문항
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            placeholder="발문·선택지·해설 검색..."
+            value={filter.query}
+            onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            className="flex-1 min-w-[200px] px-4 py-3 bg-slate-50 rounded-xl text-xs font-bold border-none outline-none"
+          />
+          <select value={filter.tag} onChange={(e) => setFilter({ ...filter, tag: e.target.value })} className="bg-slate-50 border-none text-slate-700 text-xs font-black rounded-xl px-4 py-3 outline-none">
+            <option value="all">전체 영역</option>
+            {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+          </select>
+          <select value={filter.source} onChange={(e) => setFilter({ ...filter, source: e.target.value })} className="bg-slate-50 border-none text-slate-700 text-xs font-black rounded-xl px-4 py-3 outline-none">
+            <option value="all">전체 출처</option>
+            {sources.map(source => <option key={source} value={source}>{source}</option>)}
+          </select>
+          <select value={filter.difficulty} onChange={(e) => setFilter({ ...filter, difficulty: e.target.value as BankFilter['difficulty'] })} className="bg-slate-50 border-none text-slate-700 text-xs font-black rounded-xl px-4 py-3 outline-none">
+            <option value="all">전체 난이도</option>
+            {DIFFICULTIES.map(d => <option key={d} value={d}>난이도 {DIFFICULTY_LABELS[d]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {visibleItems.length === 0 && (
+          <p className="py-16 text-center text-sm font-bold text-slate-300">
+            {items.length === 0 ? '등록된 문항이 없습니다. 새 문항을 만들거나 시험 설정에서 문항을 문제은행에 등록하세요.' : '조건에 맞는 문항이 없습니다.'}
+          </p>
+        )}
+        {visibleItems.map(item => {
+          const itemStats = stats.get(item.id);
+          const suggested = suggestDifficulty(itemStats);
+          return (
+            <div key={item.id} className="p-6 bg-white rounded-[2rem] border border-slate-200 shadow-sm hover:border-slate-400 transition-all flex flex-col md:flex-row gap-6">
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded text-[9px] font-black ${difficultyStyle(item.difficulty)}`}>
+                    {item.difficulty ? `난이도 ${DIFFICULTY_LABELS[item.difficulty]}` : '난이도 미정'}
+                  </span>
+                  <span className="px-2 py-0.5 bg-slate-900 text-white rounded text-[9px] font-black">{item.type === 'MULTIPLE' ? '객관식' : '주관식'} · {item.point}점</span>
+                  {item.tags?.map(tag => <span key={tag} className="px-2 py-0.5 bg-indigo-50 text-indigo-600 rounded text-[9px] font-black">{tag}</span>)}
+                  {item.source && <span className="text-[10px] font-bold text-slate-400">{item.source}</span>}
+                </div>
+                <p className="text-sm font-bold text-slate-800 line-clamp-2 whitespace-pre-line">{item.stem}</p>
+                <p className="text-[11px] font-black text-blue-600">
+                  정답 {item.type === 'MULTIPLE' ? parseAcceptedAnswers(item.answer).map(a => CHOICE_MARKS[Number(a) - 1] || a).join(', ') : item.answer}
+                </p>
+              </div>
+
+              <div className="flex md:flex-col items-center md:items-end justify-between gap-3 md:w-56 shrink-0">
+                {itemStats ? (
+                  <div className="text-right">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">출제 {itemStats.usages.length}회 · {itemStats.respondents}명</p>
+                    <p className="text-sm font-black text-slate-800">
+                      정답률 {Math.round(itemStats.difficulty * 100)}%
+                      <span className="ml-2 text-[11px] text-slate-500">변별도 {itemStats.discrimination.toFixed(2)}</span>
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">출제 기록 없음</p>
+                )}
+                <div className="flex items-center gap-2">
+                  {permissions.canManageBank && suggested && suggested !== item.difficulty && (
+                    <button
+                      onClick={() => applySuggestedDifficulty(item)}
+                      title="누적 정답률 기준 난이도로 변경"
+                      className="px-2.5 py-1 bg-amber-50 text-amber-600 rounded-lg text-[10px] font-black hover:bg-amber-100"
+                    >
+                      통계 반영 → {DIFFICULTY_LABELS[suggested]}
+                    </button>
+                  )}
+                  <button onClick={() => openEdit(item)} className="text-slate-300 hover:text-blue-500 transition-colors">⚙️</button>
+                  {permissions.canDeleteBankItems && (
+                    <button onClick={() => onDeleteItem(item.id)} className="text-slate-300 hover:text-red-500 transition-colors">✕</button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {draft && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white w-full max-w-3xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+            <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+              <div>
+                <h3 className="text-2xl font-black text-slate-800">{isEditingExisting ? '문항 수정' : '새 문항'}</h3>
+                <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">Question Bank Item</p>
+              </div>
+              <button onClick={() => setDraft(null)} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+            </div>
+
+            <fieldset disabled={!permissions.canManageBank} className="p-10 overflow-y-auto flex-1 space-y-8 custom-scrollbar">
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">발문 · 지문</label>
+                <textarea
+                  value={draft.stem}
+                  onChange={(e) => updateDraft({ stem: e.target.value })}
+                  rows={5}
+                  placeholder="다음 글의 주제로 가장 적절한 것은?"
+                  className="w-full px-5 py-4 bg-slate-50 rounded-2xl border-none outline-none font-bold text-slate-800 resize-y"
+                />
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="bg-slate-100 p-1 rounded-xl flex">
+                  {(['MULTIPLE', 'SUBJECTIVE'] as QuestionType[]).map(type => (
+                    <button
+                      key={type}
+                      onClick={() => updateDraft({ type })}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${draft.type === type ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}
+                    >
+                      {type === 'MULTIPLE' ? '객관식' : '주관식'}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-xs font-black text-slate-500">
+                  배점
+                  <input type="number" min={0} step={0.5} value={draft.point} onChange={(e) => updateDraft({ point: Number(e.target.value) || 0 })} className="w-20 px-3 py-2 bg-slate-50 rounded-xl border-none outline-none font-black text-slate-800" />
+                </label>
+                <select value={draft.difficulty || ''} onChange={(e) => updateDraft({ difficulty: (e.target.value || undefined) as BankDifficulty | undefined })} className="bg-slate-50 border-none text-slate-700 text-xs font-black rounded-xl px-4 py-2 outline-none">
+                  <option value="">난이도 미정</option>
+                  {DIFFICULTIES.map(d => <option key={d} value={d}>난이도 {DIFFICULTY_LABELS[d]}</option>)}
+                </select>
+              </div>
+
+              {draft.type === 'MULTIPLE' ? (
+                <div className="space-y-2">
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">선택지 · 정답 (번호 클릭, 복수 정답 가능)</label>
+                  {OMR_CHOICES.map((choice, i) => {
+                    const keys = parseAcceptedAnswers(draft.answer);
+                    const isKey = keys.includes(choice);
+                    return (
+                      <div key={choice} className="flex items-center gap-3">
+                        <button
+                          onClick={() => updateDraft({ answer: (isKey ? keys.filter(k => k !== choice) : [...keys, choice].sort()).join(',') })}
+                          className={`w-10 h-10 rounded-xl text-sm font-black transition-all shrink-0 ${isKey ? 'bg-blue-600 text-white shadow-lg' : 'bg-slate-100 text-slate-400 hover:bg-slate-200'}`}
+                        >
+                          {CHOICE_MARKS[i]}
+                        </button>
+                        <input
+                          type="text"
+                          value={draft.choices?.[i] || ''}
+                          onChange={(e) => updateDraft({ choices: OMR_CHOICES.map((_, j) => j === i ? e.target.value : draft.choices?.[j] || '') })}
+                          className="flex-1 px-4 py-2.5 bg-slate-50 rounded-xl border-none outline-none text-sm font-bold text-slate-800"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">정답 (복수 정답은 / 로 구분, 답 안의 / 와 , 는 \/ \, 로 입력)</label>
+                  <input type="text" value={draft.answer} onChange={(e) => updateDraft({ answer: e.target.value })} placeholder="예: color/colour" className="w-full px-5 py-4 bg-slate-50 rounded-2xl border-none outline-none font-black text-slate-800" />
+                  <div className="flex gap-4">
+                    <label className="flex items-center gap-2 text-xs font-black text-slate-500">
+                      <input type="checkbox" checked={!!draft.ignoreCase} onChange={(e) => updateDraft({ ignoreCase: e.target.checked })} />
+                      대소문자·공백 무시
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-black text-slate-500">
+                      <input type="checkbox" checked={!!draft.allowPartial} onChange={(e) => updateDraft({ allowPartial: e.target.checked })} />
+                      부분 점수 허용
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">해설</label>
+                <textarea value={draft.explanation || ''} onChange={(e) => updateDraft({ explanation: e.target.value })} rows={3} className="w-full px-5 py-4 bg-slate-50 rounded-2xl border-none outline-none font-bold text-slate-800 resize-y" />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">출처 (교재 · 모의고사 회차)</label>
+                  <input type="text" list="bank-sources" value={draft.source || ''} onChange={(e) => updateDraft({ source: e.target.value })} placeholder="예: 2025 6월 모의고사" className="w-full px-5 py-4 bg-slate-50 rounded-2xl border-none outline-none font-black text-slate-800" />
+                  <datalist id="bank-sources">
+                    {sources.map(source => <option key={source} value={source} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">영역</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {Array.from(new Set([...tags, ...(draft.tags || [])])).map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => toggleDraftTag(tag)}
+                        className={`px-2.5 py-1 rounded-lg text-[10px] font-black transition-all ${draft.tags?.includes(tag) ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400 hover:bg-slate-200'}`}
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                    <input
+                      type="text"
+                      value={tagInput}
+                      onChange={(e) => setTagInput(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addCustomTag(); } }}
+                      placeholder="+ 새 영역"
+                      className="w-24 px-2.5 py-1 bg-slate-50 rounded-lg border-none outline-none text-[10px] font-black"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {draftStats && (
+                <div className="space-y-2">
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">출제 이력</label>
+                  {draftStats.usages.map(u => (
+                    <div key={`${u.examId}-${u.questionNumber}`} className="flex justify-between p-3 bg-slate-50 rounded-xl text-xs font-bold text-slate-600">
+                      <span>{u.date} · {u.title} <span className="text-slate-400">{u.questionNumber}번</span></span>
+                      <span>{u.respondents}명 · 정답률 {Math.round(u.difficulty * 100)}% · 변별도 {u.discrimination.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </fieldset>
+
+            {permissions.canManageBank && (
+              <div className="p-10 border-t border-slate-100 bg-slate-50/50">
+                <button onClick={handleSave} className="w-full bg-slate-900 text-white py-6 rounded-[2rem] font-black text-xl shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98]">
+                  문항 저장
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBank;
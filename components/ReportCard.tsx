@@ -0,0 +1,135 @@
+
+import React from 'react';
+import { StudentReport } from '../utils/reportUtils.ts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
+
+interface ReportCardProps {
+  report: StudentReport;
+  comment: string;
+  periodLabel: string;
+}
+
+// A4 폭(794px) 기준 인쇄용 성적표. PDF 캡처를 위해 애니메이션/반응형 컨테이너를 쓰지 않음
+const ReportCard = React.forwardRef<HTMLDivElement, ReportCardProps>(({ report, comment, periodLabel }, ref) => {
+  const { student, classNames, rows } = report;
+  const latest = rows[rows.length - 1];
+  const hasClassAverage = rows.some(r => r.classAverage !== undefined);
+  const wrongRows = rows.filter(r => r.wrongItems.length > 0);
+
+  return (
+    <div ref={ref} className="bg-white text-slate-900 p-12 space-y-8" style={{ width: 794, minHeight: 1123, fontFamily: "'Noto Sans KR', sans-serif" }}>
+      <div className="flex justify-between items-end border-b-4 border-slate-900 pb-6">
+        <div>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] mb-1">TwoTop English Academy</p>
+          <h1 className="text-3xl font-black">개인 성적표</h1>
+          <p className="text-xs font-bold text-slate-500 mt-1">{periodLabel}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-black">{student.name}</p>
+          <p className="text-xs font-bold text-slate-500">
+            {student.school || '-'}{classNames.length > 0 && ` · ${classNames.join(', ')}`}
+          </p>
+        </div>
+      </div>
+
+      {latest && (
+        <div className="grid grid-cols-4 gap-4">
+          <div className="p-4 rounded-2xl bg-slate-50">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">응시 횟수</p>
+            <p className="text-2xl font-black">{rows.length}건</p>
+          </div>
+          <div className="p-4 rounded-2xl bg-slate-50">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">최근 성적</p>
+            <p className="text-2xl font-black text-blue-600">{latest.score}{latest.unit}</p>
+          </div>
+          <div className="p-4 rounded-2xl bg-slate-50">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">최근 석차</p>
+            <p className="text-2xl font-black">{latest.rank} / {latest.total}</p>
+          </div>
+          <div className="p-4 rounded-2xl bg-slate-50">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">최근 백분위</p>
+            <p className="text-2xl font-black">상위 {latest.percentile.toFixed(0)}%</p>
+          </div>
+        </div>
+      )}
+
+      {rows.length > 1 && (
+        <div>
+          <h2 className="text-sm font-black mb-3">성장 추이 (평균 대비)</h2>
+          <LineChart width={698} height={220} data={rows}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis dataKey="title" tick={{ fontSize: 10, fontWeight: 'bold' }} />
+            <YAxis tick={{ fontSize: 10, fontWeight: 'bold' }} />
+            <Legend verticalAlign="top" height={28} iconType="circle" />
+            <Line isAnimationActive={false} name="본인 점수" type="monotone" dataKey="score" stroke="#2563eb" strokeWidth={3} />
+            <Line isAnimationActive={false} name="전체 평균" type="monotone" dataKey="average" stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+            {hasClassAverage && (
+              <Line isAnimationActive={false} name="반 평균" type="monotone" dataKey="classAverage" stroke="#f59e0b" strokeWidth={2} strokeDasharray="3 3" dot={false} />
+            )}
+          </LineChart>
+        </div>
+      )}
+
+      <div>
+        <h2 className="text-sm font-black mb-3">시험별 성적</h2>
+        <table className="w-full text-left border border-slate-200">
+          <thead>
+            <tr className="bg-slate-100 text-[10px] font-black text-slate-500">
+              <th className="px-3 py-2">날짜</th>
+              <th className="px-3 py-2">시험명</th>
+              <th className="px-3 py-2">성적</th>
+              <th className="px-3 py-2">전체 평균</th>
+              {hasClassAverage && <th className="px-3 py-2">반 평균</th>}
+              <th className="px-3 py-2">석차</th>
+              <th className="px-3 py-2">상위 %</th>
+              <th className="px-3 py-2">등급</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 text-xs font-bold">
+            {rows.map(row => (
+              <tr key={row.examId}>
+                <td className="px-3 py-2 text-slate-400">{row.date}</td>
+                <td className="px-3 py-2">{row.title}</td>
+                <td className={`px-3 py-2 font-black ${row.score < row.average ? 'text-red-500' : ''}`}>{row.score}{row.unit}</td>
+                <td className="px-3 py-2 text-slate-500">{row.average}</td>
+                {hasClassAverage && <td className="px-3 py-2 text-slate-500">{row.classAverage ?? '-'}</td>}
+                <td className="px-3 py-2">{row.rank} / {row.total}</td>
+                <td className="px-3 py-2">{row.percentile.toFixed(0)}%</td>
+                <td className="px-3 py-2">{row.grade ? (/^\d+$/.test(row.grade) ? `${row.grade}등급` : row.grade) : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {wrongRows.length > 0 && (
+        <div>
+          <h2 className="text-sm font-black mb-3">오답 문항 및 정답</h2>
+          <div className="space-y-3">
+            {wrongRows.map(row => (
+              <div key={row.examId} className="p-4 border border-slate-200 rounded-2xl">
+                <p className="text-xs font-black mb-2">{row.title}</p>
+                <div className="flex flex-wrap gap-2">
+                  {row.wrongItems.map(item => (
+                    <span key={item.number} className="px-2 py-1 bg-red-50 border border-red-100 rounded-lg text-[10px] font-black text-red-600">
+                      {item.number}번 · 제출 {item.studentAnswer} → 정답 {item.correctAnswer}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h2 className="text-sm font-black mb-3">선생님 코멘트</h2>
+        <div className="p-5 border-2 border-slate-200 rounded-2xl min-h-[100px] text-sm font-medium whitespace-pre-wrap leading-relaxed">
+          {comment || ' '}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default ReportCard;
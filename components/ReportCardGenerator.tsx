@@ -0,0 +1,188 @@
+
+import React, { useState, useMemo, useRef } from 'react';
+import { Student, Exam, ClassGroup } from '../types.ts';
+import { buildStudentReport, filterExamsByRange } from '../utils/reportUtils.ts';
+import { saveElementAsPdf } from '../utils/pdfUtils.ts';
+import ReportCard from './ReportCard.tsx';
+
+interface ReportCardGeneratorProps {
+  students: Student[];
+  exams: Exam[];
+  classes: ClassGroup[];
+  initialStudentId?: string; // 지정 시 개별 모드, 없으면 일괄 모드
+  initialExamId?: string;
+  onClose: () => void;
+}
+
+type ReportScope = 'EXAM' | 'RANGE';
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
+const ReportCardGenerator: React.FC<ReportCardGeneratorProps> = ({ students, exams, classes, initialStudentId, initialExamId, onClose }) => {
+  const isBatch = !initialStudentId;
+  const [scope, setScope] = useState<ReportScope>(initialExamId || isBatch ? 'EXAM' : 'RANGE');
+  const [selectedExamId, setSelectedExamId] = useState(initialExamId || exams[exams.length - 1]?.id || '');
+  const [includeHistory, setIncludeHistory] = useState(true);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [commonComment, setCommonComment] = useState('');
+  const [previewStudentId, setPreviewStudentId] = useState(initialStudentId || '');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const selectedExam = exams.find(e => e.id === selectedExamId);
+
+  const scopedExams = useMemo(() => {
+    if (scope === 'RANGE') return filterExamsByRange(exams, { from, to });
+    if (!selectedExam) return [];
+    if (!includeHistory) return [selectedExam];
+    const cutoff = new Date(selectedExam.date).getTime();
+    return exams.filter(e => new Date(e.date).getTime() <= cutoff);
+  }, [scope, exams, from, to, selectedExam, includeHistory]);
+
+  const targetStudents = useMemo(() => {
+    if (!isBatch) return students.filter(s => s.id === initialStudentId);
+    const takerIds = new Set(
+      (scope === 'EXAM' && selectedExam ? [selectedExam] : scopedExams).flatMap(e => e.scores.map(s => s.studentId))
+    );
+    return students
+      .filter(s => takerIds.has(s.id))
+      .sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+  }, [isBatch, students, initialStudentId, scope, selectedExam, scopedExams]);
+
+  const activePreviewId = previewStudentId || targetStudents[0]?.id || '';
+  const previewStudent = students.find(s => s.id === activePreviewId);
+  const previewReport = useMemo(
+    () => previewStudent ? buildStudentReport(previewStudent, scopedExams, students, classes) : null,
+    [previewStudent, scopedExams, students, classes]
+  );
+
+  const periodLabel = scope === 'EXAM'
+    ? (selectedExam ? `${includeHistory ? '~ ' : ''}${selectedExam.title}` : '')
+    : `${from || '처음'} ~ ${to || '현재'}`;
+
+  const commentFor = (studentId: string) => comments[studentId] ?? commonComment;
+
+  const handleGenerate = async () => {
+    if (targetStudents.length === 0) {
+      alert('성적표를 만들 학생이 없습니다.');
+      return;
+    }
+    setProgress({ done: 0, total: targetStudents.length });
+    try {
+      for (let i = 0; i < targetStudents.length; i++) {
+        const student = targetStudents[i];
+        setPreviewStudentId(student.id);
+        await nextFrame();
+        if (reportRef.current) {
+          await saveElementAsPdf(reportRef.current, `${student.name}_성적표.pdf`);
+        }
+        setProgress({ done: i + 1, total: targetStudents.length });
+      }
+    } catch (e: any) {
+      console.error("Report PDF Error:", e);
+      alert(`PDF 생성 실패: ${e.message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-6xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">{isBatch ? '성적표 일괄 생성' : '개인 성적표 생성'}</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">Printable Report Card (PDF)</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col lg:flex-row">
+          {/* Options */}
+          <div className="lg:w-80 p-8 space-y-6 border-r border-slate-100 overflow-y-auto custom-scrollbar">
+            <div>
+              <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">범위</label>
+              <div className="flex bg-slate-100 p-1 rounded-xl">
+                <button onClick={() => setScope('EXAM')} className={`flex-1 px-3 py-2 rounded-lg text-[10px] font-black transition-all ${scope === 'EXAM' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}>시험 선택</button>
+                <button onClick={() => setScope('RANGE')} className={`flex-1 px-3 py-2 rounded-lg text-[10px] font-black transition-all ${scope === 'RANGE' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}>기간 선택</button>
+              </div>
+            </div>
+
+            {scope === 'EXAM' ? (
+              <div className="space-y-3">
+                <select value={selectedExamId} onChange={(e) => { setSelectedExamId(e.target.value); setPreviewStudentId(initialStudentId || ''); }} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none outline-none font-black text-xs text-slate-800">
+                  {exams.slice().reverse().map(e => <option key={e.id} value={e.id}>{e.title}</option>)}
+                </select>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={includeHistory} onChange={(e) => setIncludeHistory(e.target.checked)} className="w-4 h-4 rounded" />
+                  <span className="text-[10px] font-black text-slate-400 uppercase">이전 시험 기록 포함</span>
+                </label>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="px-3 py-3 bg-slate-50 rounded-xl border-none outline-none font-bold text-xs" />
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="px-3 py-3 bg-slate-50 rounded-xl border-none outline-none font-bold text-xs" />
+              </div>
+            )}
+
+            {isBatch && (
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">대상 학생 ({targetStudents.length}명)</label>
+                <select value={activePreviewId} onChange={(e) => setPreviewStudentId(e.target.value)} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none outline-none font-black text-xs text-slate-800">
+                  {targetStudents.map(s => <option key={s.id} value={s.id}>{s.name} ({s.school || '-'})</option>)}
+                </select>
+              </div>
+            )}
+
+            {isBatch && (
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">공통 코멘트</label>
+                <textarea value={commonComment} onChange={(e) => setCommonComment(e.target.value)} rows={3} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none outline-none font-medium text-xs" />
+              </div>
+            )}
+
+            {previewStudent && (
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">{previewStudent.name} 코멘트</label>
+                <textarea
+                  value={commentFor(previewStudent.id)}
+                  onChange={(e) => setComments(prev => ({ ...prev, [previewStudent.id]: e.target.value }))}
+                  rows={5}
+                  placeholder="학부모님께 전달할 코멘트를 입력하세요."
+                  className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none outline-none font-medium text-xs"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 bg-slate-100 p-8 overflow-auto custom-scrollbar">
+            {previewReport && previewReport.rows.length > 0 ? (
+              <div className="shadow-2xl w-fit mx-auto">
+                <ReportCard ref={reportRef} report={previewReport} comment={commentFor(previewReport.student.id)} periodLabel={periodLabel} />
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center text-slate-400 font-black">선택한 범위에 성적 기록이 없습니다.</div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-slate-100 bg-slate-50/50">
+          <button
+            onClick={handleGenerate}
+            disabled={!!progress || !previewReport || previewReport.rows.length === 0}
+            className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black text-lg shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98] disabled:opacity-30"
+          >
+            {progress
+              ? `PDF 생성 중... (${progress.done}/${progress.total})`
+              : isBatch ? `${targetStudents.length}명 성적표 PDF 저장 (학생별 1개)` : 'PDF 저장'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportCardGenerator;
@@ -0,0 +1,120 @@
+
+import React, { useMemo, useState } from 'react';
+import { SupabaseConfig } from '../types.ts';
+import { BackupArchive, BackupContent, RestoreMode, EntityDiff, diffBackup, applyBackup } from '../utils/backupUtils.ts';
+
+interface RestoreBackupModalProps {
+  archive: BackupArchive;
+  current: BackupContent;
+  onRestore: (data: BackupContent, config?: SupabaseConfig) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 12;
+
+const NameList: React.FC<{ names: string[]; tone: string }> = ({ names, tone }) => (
+  <p className={`text-xs font-bold ${tone} leading-relaxed`}>
+    {names.slice(0, PREVIEW_LIMIT).join(', ')}
+    {names.length > PREVIEW_LIMIT && ` 외 ${names.length - PREVIEW_LIMIT}건`}
+  </p>
+);
+
+const RestoreBackupModal: React.FC<RestoreBackupModalProps> = ({ archive, current, onRestore, onClose }) => {
+  const [mode, setMode] = useState<RestoreMode>('MERGE');
+  const [restoreConfig, setRestoreConfig] = useState(false);
+  const diff = useMemo(() => diffBackup(current, archive.data), [current, archive]);
+  const backupConfig = archive.data.settings.supabaseConfig;
+
+  const sections: { label: string; icon: string; diff: EntityDiff; total: number }[] = [
+    { label: '학생', icon: '👥', diff: diff.students, total: archive.data.students.length },
+    { label: '시험', icon: '📝', diff: diff.exams, total: archive.data.exams.length },
+    { label: '반', icon: '🏫', diff: diff.classes, total: archive.data.classes.length },
+    { label: '문제은행', icon: '📚', diff: diff.questionBank, total: archive.data.questionBank.length }
+  ];
+  const removedCount = sections.reduce((sum, s) => sum + s.diff.missing.length, 0);
+
+  const handleRestore = () => {
+    if (mode === 'REPLACE' && removedCount > 0
+      && !window.confirm(`현재 기기에만 있는 ${removedCount}건이 삭제됩니다. 계속하시겠습니까?`)) return;
+    onRestore(applyBackup(current, archive.data, mode), restoreConfig && backupConfig ? backupConfig : undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-4xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">백업 복원</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">
+              {new Date(archive.createdAt).toLocaleString('ko-KR')} 백업 · v{archive.version} · 체크섬 확인됨 ✓
+            </p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-10 overflow-y-auto flex-1 space-y-8 custom-scrollbar">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {sections.map(s => (
+              <div key={s.label} className="p-6 rounded-[2rem] bg-slate-50 border border-slate-100 space-y-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{s.icon} {s.label} · 백업 {s.total}건</p>
+                <div className="grid grid-cols-2 gap-2 text-sm font-black">
+                  <span className="text-emerald-600">추가 {s.diff.added.length}</span>
+                  <span className="text-blue-600">변경 {s.diff.changed.length}</span>
+                  <span className="text-slate-400">동일 {s.diff.unchanged}</span>
+                  <span className="text-red-500">기기에만 {s.diff.missing.length}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            {sections.map(s => (s.diff.added.length + s.diff.changed.length + s.diff.missing.length) > 0 && (
+              <div key={s.label} className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">{s.label} 차이</label>
+                {s.diff.added.length > 0 && <NameList names={s.diff.added.map(n => `+ ${n}`)} tone="text-emerald-600" />}
+                {s.diff.changed.length > 0 && <NameList names={s.diff.changed.map(n => `~ ${n}`)} tone="text-blue-600" />}
+                {s.diff.missing.length > 0 && <NameList names={s.diff.missing.map(n => `− ${n}`)} tone="text-red-500" />}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {([
+              { id: 'MERGE', title: '병합', desc: '현재 데이터를 유지하고 백업 내용을 합칩니다. 같은 항목은 더 최근에 수정된 쪽을 남깁니다.' },
+              { id: 'REPLACE', title: '교체', desc: '현재 기기의 학생·시험·반·문제은행을 모두 백업 내용으로 바꿉니다. 기기에만 있는 항목은 삭제됩니다.' }
+            ] as { id: RestoreMode; title: string; desc: string }[]).map(option => (
+              <button
+                key={option.id}
+                onClick={() => setMode(option.id)}
+                className={`p-6 rounded-[2rem] border-2 text-left transition-all ${
+                  mode === option.id ? 'border-blue-500 bg-blue-50' : 'border-slate-100 hover:border-slate-200'
+                }`}
+              >
+                <p className="font-black text-slate-800">{option.title}</p>
+                <p className="text-xs font-bold text-slate-500 mt-1">{option.desc}</p>
+              </button>
+            ))}
+          </div>
+
+          {backupConfig && (
+            <label className="flex items-center gap-3 text-sm font-bold text-slate-600">
+              <input type="checkbox" checked={restoreConfig} onChange={e => setRestoreConfig(e.target.checked)} className="w-4 h-4" />
+              클라우드 연결 설정도 복원 ({backupConfig.url}) · 복원 후 앱을 새로고침합니다
+            </label>
+          )}
+        </div>
+
+        <div className="p-8 border-t border-slate-100 bg-slate-50/50">
+          <button
+            onClick={handleRestore}
+            className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black text-lg shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98]"
+          >
+            {mode === 'MERGE' ? '병합하여 복원' : '교체하여 복원'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreBackupModal;
@@ -0,0 +1,172 @@
+
+import React, { useState, useMemo } from 'react';
+import { Student } from '../types.ts';
+import {
+  parseSpreadsheetFile, guessRosterMapping, buildRosterPreview, columnLabel,
+  RosterField, RosterMapping, ROSTER_FIELD_LABELS
+} from '../utils/importUtils.ts';
+
+interface RosterImportModalProps {
+  students: Student[];
+  onClose: () => void;
+  onImport: (rows: { name: string; school: string; phone: string; note: string }[]) => void;
+}
+
+const RosterImportModal: React.FC<RosterImportModalProps> = ({ students, onClose, onImport }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<RosterMapping>({ name: -1, school: -1, phone: -1, note: -1 });
+  const [isParsing, setIsParsing] = useState(false);
+
+  const columnCount = useMemo(() => rows.reduce((max, r) => Math.max(max, r.length), 0), [rows]);
+  const header = hasHeader ? rows[0] || [] : [];
+
+  const preview = useMemo(() => {
+    if (rows.length === 0 || mapping.name < 0) return [];
+    return buildRosterPreview(rows, mapping, students, hasHeader);
+  }, [rows, mapping, students, hasHeader]);
+
+  const validRows = preview.filter(r => r.errors.length === 0);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsParsing(true);
+    try {
+      const parsed = await parseSpreadsheetFile(file);
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessRosterMapping(parsed[0] || []));
+    } catch (err: any) {
+      console.error("Import parse error:", err);
+      alert(`파일을 읽지 못했습니다: ${err.message}`);
+    } finally {
+      setIsParsing(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleImport = () => {
+    if (validRows.length === 0) {
+      alert('등록할 수 있는 행이 없습니다.');
+      return;
+    }
+    const skipped = preview.length - validRows.length;
+    if (skipped > 0 && !window.confirm(`오류가 있는 ${skipped}행은 제외하고 ${validRows.length}명을 등록합니다. 계속할까요?`)) return;
+    onImport(validRows.map(({ name, school, phone, note }) => ({ name, school, phone, note })));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-5xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">학생 명단 가져오기</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">CSV / Excel Roster Import</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-10 overflow-y-auto flex-1 space-y-8 custom-scrollbar">
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black text-sm cursor-pointer hover:bg-slate-800 shadow-lg">
+              {isParsing ? '읽는 중...' : '파일 선택 (.csv, .xlsx)'}
+              <input type="file" accept=".csv,.txt,.tsv,.xlsx,.xls" onChange={handleFile} className="hidden" />
+            </label>
+            {fileName && <span className="text-xs font-bold text-slate-500">{fileName} · {rows.length}행</span>}
+            {rows.length > 0 && (
+              <label className="flex items-center gap-2 cursor-pointer ml-auto">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="w-4 h-4 rounded" />
+                <span className="text-[10px] font-black text-slate-400 uppercase">첫 행은 제목 행</span>
+              </label>
+            )}
+          </div>
+
+          {rows.length > 0 && (
+            <div className="space-y-4">
+              <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">1. 열 매핑</h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {(Object.keys(ROSTER_FIELD_LABELS) as RosterField[]).map(field => (
+                  <div key={field}>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">
+                      {ROSTER_FIELD_LABELS[field]}{field === 'name' && ' (필수)'}
+                    </label>
+                    <select
+                      value={mapping[field]}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+                      className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none outline-none font-bold text-xs text-slate-800"
+                    >
+                      <option value={-1}>사용 안 함</option>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <option key={i} value={i}>{columnLabel(i, header[i])}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {preview.length > 0 && (
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest">2. 미리보기 및 검증</h4>
+                <p className="text-[10px] font-black uppercase">
+                  <span className="text-green-600">{validRows.length}명 등록 가능</span>
+                  <span className="text-slate-300 mx-2">/</span>
+                  <span className="text-red-500">{preview.length - validRows.length}행 오류</span>
+                </p>
+              </div>
+              <div className="rounded-2xl border border-slate-100 overflow-hidden">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                      <th className="px-4 py-3">행</th>
+                      <th className="px-4 py-3">이름</th>
+                      <th className="px-4 py-3">학교</th>
+                      <th className="px-4 py-3">연락처</th>
+                      <th className="px-4 py-3">검증</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {preview.map(row => (
+                      <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50/50' : ''}>
+                        <td className="px-4 py-3 text-[10px] font-black text-slate-400">{row.rowNumber}</td>
+                        <td className="px-4 py-3 text-sm font-black text-slate-800">{row.name || '-'}</td>
+                        <td className="px-4 py-3 text-xs font-bold text-slate-500">{row.school || '-'}</td>
+                        <td className="px-4 py-3 text-xs font-medium text-slate-400">{row.phone || '-'}</td>
+                        <td className="px-4 py-3">
+                          {row.errors.length === 0 ? (
+                            <span className="text-[10px] font-black text-green-600 uppercase">OK</span>
+                          ) : (
+                            <ul className="text-[10px] font-bold text-red-500 space-y-0.5">
+                              {row.errors.map((err, i) => <li key={i}>{err}</li>)}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-10 border-t border-slate-100 bg-slate-50/50">
+          <button
+            onClick={handleImport}
+            disabled={validRows.length === 0}
+            className="w-full bg-slate-900 text-white py-6 rounded-[2rem] font-black text-xl shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98] disabled:opacity-30"
+          >
+            {validRows.length}명 명단에 등록
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RosterImportModal;
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { CalculatedResult, Exam, ExamSummary } from '../types.ts';
+import { buildScoreHistogram, getReliability, RELIABILITY_METHOD_LABELS } from '../utils/statsUtils.ts';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+
+interface ScoreDistributionChartProps {
+  exam: Exam;
+  results: CalculatedResult[];
+  summary: ExamSummary;
+  height?: number;
+}
+
+// 신뢰도 해석 (학원 자체 시험 기준 0.7 이상이면 무난)
+const describeReliability = (value: number) =>
+  value >= 0.8 ? '높음' : value >= 0.7 ? '양호' : value >= 0.6 ? '보통' : '낮음';
+
+const ScoreDistributionChart: React.FC<ScoreDistributionChartProps> = ({ exam, results, summary, height = 220 }) => {
+  const bins = useMemo(() => buildScoreHistogram(results.map(r => r.score), exam.maxScore), [results, exam.maxScore]);
+  const reliability = useMemo(() => getReliability(exam, exam.scores), [exam]);
+  const top = bins[bins.length - 1]?.end || exam.maxScore;
+  const unit = exam.type === 'RANKING' ? '점' : '개';
+  const threshold = exam.passThreshold;
+  const toPercent = (value: number) => `${top > 0 ? Math.min(100, Math.max(0, (value / top) * 100)) : 0}%`;
+
+  const stats = [
+    { label: '평균', value: summary.average.toFixed(1) },
+    { label: '중앙값', value: summary.median.toFixed(1) },
+    { label: '표준편차', value: summary.standardDeviation.toFixed(2) },
+    { label: 'Q1 / Q3', value: `${summary.q1.toFixed(1)} / ${summary.q3.toFixed(1)}` },
+    { label: '왜도', value: summary.skewness.toFixed(2), hint: summary.skewness > 0.5 ? '저득점 쏠림' : summary.skewness < -0.5 ? '고득점 쏠림' : '대칭에 가까움' },
+    reliability
+      ? { label: RELIABILITY_METHOD_LABELS[reliability.method], value: reliability.coefficient.toFixed(2), hint: describeReliability(reliability.coefficient) }
+      : { label: '신뢰도', value: '-', hint: '문항 답안 2문항·2명 이상 필요' },
+    { label: '측정 표준오차', value: reliability ? `±${reliability.sem.toFixed(1)}${unit}` : '-' }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        {stats.map(s => (
+          <div key={s.label} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{s.label}</p>
+            <p className="text-lg font-black text-slate-800 mt-1">{s.value}</p>
+            {s.hint && <p className="text-[10px] font-bold text-slate-400">{s.hint}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={bins} barCategoryGap={1}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis
+              type="number"
+              dataKey="mid"
+              domain={[bins[0]?.start ?? 0, top]}
+              ticks={bins.length <= 21 ? bins.map(b => b.mid) : undefined}
+              tickFormatter={(mid) => bins.find(b => b.mid === mid)?.label ?? String(mid)}
+              axisLine={false}
+              tickLine={false}
+              tick={{fontSize: 10, fontWeight: 'bold'}}
+            />
+            <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 'bold'}} />
+            <Tooltip
+              cursor={{fill: '#f8fafc'}}
+              contentStyle={{borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)', fontWeight: 'black'}}
+              labelFormatter={(mid) => `${bins.find(b => b.mid === mid)?.label ?? mid}${unit}`}
+              formatter={(value) => [`${value}명`, '인원']}
+            />
+            <Bar dataKey="count" fill="#6366f1" radius={[6, 6, 0, 0]} />
+            {threshold !== undefined && (
+              <ReferenceLine x={threshold} stroke="#ef4444" strokeDasharray="4 4" label={{ value: `통과 ${threshold}${unit}`, position: 'top', fill: '#ef4444', fontSize: 10, fontWeight: 'bold' }} />
+            )}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* 상자 그림: 최저~최고 수염, Q1~Q3 상자, 중앙값 선 */}
+      {results.length > 0 && (
+        <div className="px-2">
+          <div className="relative h-10">
+            <div className="absolute top-1/2 h-px bg-slate-300" style={{ left: toPercent(summary.lowestScore), right: `calc(100% - ${toPercent(summary.highestScore)})` }} />
+            <div className="absolute top-2 bottom-2 w-px bg-slate-400" style={{ left: toPercent(summary.lowestScore) }} />
+            <div className="absolute top-2 bottom-2 w-px bg-slate-400" style={{ left: toPercent(summary.highestScore) }} />
+            <div
+              className="absolute top-1 bottom-1 bg-indigo-100 border-2 border-indigo-500 rounded-lg"
+              style={{ left: toPercent(summary.q1), right: `calc(100% - ${toPercent(summary.q3)})` }}
+            />
+            <div className="absolute top-1 bottom-1 w-0.5 bg-indigo-700" style={{ left: toPercent(summary.median) }} />
+            {threshold !== undefined && (
+              <div className="absolute -top-1 -bottom-1 border-l-2 border-dashed border-red-500" style={{ left: toPercent(threshold) }} />
+            )}
+          </div>
+          <div className="flex justify-between text-[10px] font-bold text-slate-400 mt-1">
+            <span>최저 {summary.lowestScore}{unit}</span>
+            <span>중앙값 {summary.median.toFixed(1)}{unit}</span>
+            <span>최고 {summary.highestScore}{unit}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreDistributionChart;
@@ -1,14 +1,25 @@
 
 import React, { useState } from 'react';
-import { SupabaseConfig, Student, Exam } from '../types';
+import { SupabaseConfig, UserProfile, UserRole } from '../types';
+import RestoreBackupModal from './RestoreBackupModal.tsx';
+import { BackupArchive, BackupContent, createBackup, downloadBackup, parseBackup } from '../utils/backupUtils.ts';
+import { Permissions, ROLE_LABELS } from '../utils/authUtils.ts';
+import { SCHEMA_MIGRATIONS, LATEST_SCHEMA_VERSION, getPendingMigrations, buildMigrationScript } from '../utils/migrationUtils.ts';
 
 interface SettingsProps {
   config: SupabaseConfig | null;
   onSaveConfig: (config: SupabaseConfig) => void;
   onClearConfig: () => void;
-  onPushToCloud: () => Promise<void>;
-  localData: { students: Student[], exams: Exam[] };
+  onPushToCloud: () => Promise<{ conflictCount: number }>;
+  localData: BackupContent;
   isCloudConnected: boolean;
+  schemaVersion: number | null; // null = 확인 불가 (미연결/네트워크 오류)
+  onRecheckSchema: () => Promise<void>;
+  onRestoreBackup: (data: BackupContent, config?: SupabaseConfig) => void;
+  permissions: Permissions;
+  profiles: UserProfile[]; // 로그인 사용 중일 때만 채워짐
+  currentUserId?: string;
+  onUpdateUserRole: (userId: string, role: UserRole) => void;
 }
 
 const Settings: React.FC<SettingsProps> = ({ 
@@ -17,58 +28,25 @@ const Settings: React.FC<SettingsProps> = ({
   onClearConfig, 
   onPushToCloud,
   localData,
-  isCloudConnected
+  isCloudConnected,
+  schemaVersion,
+  onRecheckSchema,
+  onRestoreBackup,
+  permissions,
+  profiles,
+  currentUserId,
+  onUpdateUserRole
 }) => {
   const [url, setUrl] = useState(config?.url || '');
   const [key, setKey] = useState(config?.anonKey || '');
   const [isPushing, setIsPushing] = useState(false);
-  const [showSql, setShowSql] = useState(false);
-
-  const sqlCode = `
--- ⚠️ 주의: 이 코드는 기존 데이터를 모두 지우고 테이블을 새로 만듭니다.
--- 1. 기존 테이블 삭제
-DROP TABLE IF EXISTS exams;
-DROP TABLE IF EXISTS students;
-
--- 2. 학생(students) 테이블 생성
-CREATE TABLE students (
-  id TEXT PRIMARY KEY,
-  name TEXT NOT NULL,
-  school TEXT,
-  phone TEXT,
-  note TEXT,
-  created_at BIGINT
-);
-
--- 3. 시험(exams) 테이블 생성 (questions 컬럼 추가됨)
-CREATE TABLE exams (
-  id TEXT PRIMARY KEY,
-  title TEXT NOT NULL,
-  date TEXT NOT NULL,
-  type TEXT NOT NULL,
-  total_questions INTEGER NOT NULL,
-  max_score INTEGER NOT NULL,
-  pass_threshold INTEGER,
-  questions JSONB,
-  target_schools JSONB,
-  scores JSONB NOT NULL
-);
-
--- 4. 실시간 동기화 설정
-BEGIN;
-  DROP PUBLICATION IF EXISTS supabase_realtime;
-  CREATE PUBLICATION supabase_realtime FOR TABLE students, exams;
-COMMIT;
-
--- 5. 보안 정책(RLS) 해제
-ALTER TABLE students ENABLE ROW LEVEL SECURITY;
-ALTER TABLE exams ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow All" ON students FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Allow All" ON exams FOR ALL USING (true) WITH CHECK (true);
-
--- 6. 서버 캐시 새로고침
-NOTIFY pgrst, 'reload schema';
-  `.trim();
+  const [openMigration, setOpenMigration] = useState<number | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [includeConfig, setIncludeConfig] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<BackupArchive | null>(null);
+
+  const pendingMigrations = getPendingMigrations(schemaVersion ?? 0);
+  const isSchemaKnown = isCloudConnected && schemaVersion !== null;
 
   const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
@@ -81,6 +59,30 @@ NOTIFY pgrst, 'reload schema';
     window.location.reload();
   };
 
+  const handleBackup = async () => {
+    try {
+      const archive = await createBackup({
+        ...localData,
+        settings: { supabaseConfig: includeConfig ? config : null }
+      });
+      downloadBackup(archive);
+    } catch (e: any) {
+      console.error("Backup Error:", e);
+      alert(`백업 실패: ${e.message}`);
+    }
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingRestore(await parseBackup(await file.text()));
+    } catch (err: any) {
+      alert(`백업 파일을 읽을 수 없습니다.\n${err.message}`);
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     alert('SQL 코드가 복사되었습니다!');
@@ -98,33 +100,156 @@ NOTIFY pgrst, 'reload schema';
         </p>
       </div>
 
-      <div className="bg-red-600 text-white p-10 rounded-[3rem] shadow-2xl relative overflow-hidden">
-        <div className="relative z-10">
-          <div className="flex items-center gap-4 mb-6">
-            <div className="w-12 h-12 bg-white text-red-600 rounded-2xl flex items-center justify-center text-2xl font-black">!</div>
-            <div>
-              <h3 className="text-2xl font-black">DB 구조 재설정 (v3.0 - 정답지 기능)</h3>
-              <p className="text-red-100 text-sm font-bold opacity-90">정답지 기능을 사용하려면 아래 SQL을 다시 실행해야 합니다.</p>
-            </div>
-          </div>
-          
-          <button 
-            onClick={() => setShowSql(!showSql)}
-            className="bg-white text-red-600 px-6 py-3 rounded-xl font-black text-sm hover:bg-red-50 transition-all"
-          >
-            {showSql ? '가이드 닫기' : '최신 SQL 코드 보기'}
+      <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm space-y-6">
+        <div>
+          <h3 className="text-xl font-black text-slate-800">백업 및 복원</h3>
+          <p className="text-sm font-bold text-slate-400 mt-1">
+            학생 {localData.students.length}명 · 시험 {localData.exams.length}개 · 반 {localData.classes.length}개 · 문제은행 {localData.questionBank.length}문항을 JSON 파일 하나로 저장하고, 다른 기기에서 그대로 불러옵니다.
+          </p>
+        </div>
+        {config && (
+          <label className="flex items-center gap-3 text-sm font-bold text-slate-600">
+            <input type="checkbox" checked={includeConfig} onChange={e => setIncludeConfig(e.target.checked)} className="w-4 h-4" />
+            클라우드 연결 설정(URL, API Key) 포함
+          </label>
+        )}
+        <div className={`grid grid-cols-1 gap-4 ${permissions.canManageSettings ? 'md:grid-cols-2' : ''}`}>
+          <button onClick={handleBackup} className="bg-slate-900 text-white py-5 rounded-2xl font-black text-lg hover:bg-slate-800 transition-all">
+            💾 백업 파일 다운로드
           </button>
+          {/* 복원은 기기 데이터를 통째로 바꾸므로 원장만 */}
+          {permissions.canManageSettings && (
+            <label className="bg-slate-100 text-slate-700 py-5 rounded-2xl font-black text-lg hover:bg-slate-200 transition-all text-center cursor-pointer">
+              📂 백업 파일에서 복원
+              <input type="file" accept=".json,application/json" onChange={handleRestoreFile} className="hidden" />
+            </label>
+          )}
+        </div>
+      </div>
 
-          {showSql && (
-            <div className="mt-6 bg-black/40 rounded-3xl p-6 border border-white/20">
-              <div className="flex justify-between items-center mb-4">
-                <span className="text-[10px] font-black uppercase tracking-widest text-red-200">DB Schema Script v3.0</span>
-                <button onClick={() => copyToClipboard(sqlCode)} className="bg-white text-red-600 px-4 py-2 rounded-lg text-xs font-black">복사</button>
+      {profiles.length > 0 && permissions.canManageSettings && (
+        <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm space-y-6">
+          <div>
+            <h3 className="text-xl font-black text-slate-800">계정 및 권한</h3>
+            <p className="text-sm font-bold text-slate-400 mt-1">
+              새로 가입한 계정은 채점 알바로 시작합니다. 학생·시험 삭제는 원장만, 채점 알바는 배정된 시험의 답안 입력만 가능합니다.
+            </p>
+          </div>
+          <div className="divide-y divide-slate-100">
+            {profiles.map(p => (
+              <div key={p.id} className="flex items-center justify-between gap-4 py-4">
+                <div className="min-w-0">
+                  <p className="font-black text-slate-800 truncate">{p.displayName || p.email}</p>
+                  {p.displayName && <p className="text-xs font-bold text-slate-400 truncate">{p.email}</p>}
+                </div>
+                <select
+                  value={p.role}
+                  disabled={p.id === currentUserId}
+                  onChange={(e) => onUpdateUserRole(p.id, e.target.value as UserRole)}
+                  className="px-4 py-3 bg-slate-50 rounded-2xl border-none outline-none font-black text-slate-800 text-sm disabled:opacity-50"
+                >
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
               </div>
-              <pre className="text-[11px] font-mono text-red-100 overflow-x-auto max-h-60 custom-scrollbar">{sqlCode}</pre>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {pendingRestore && permissions.canManageSettings && (
+        <RestoreBackupModal
+          archive={pendingRestore}
+          current={localData}
+          onRestore={(data, restoredConfig) => {
+            onRestoreBackup(data, restoredConfig);
+            setPendingRestore(null);
+          }}
+          onClose={() => setPendingRestore(null)}
+        />
+      )}
+
+      <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm space-y-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+          <div>
+            <h3 className="text-xl font-black text-slate-800">DB 스키마 마이그레이션</h3>
+            <p className="text-sm font-bold text-slate-400 mt-1">
+              기존 데이터는 지우지 않고 필요한 테이블과 컬럼만 추가합니다. 대기 중인 SQL을 Supabase SQL Editor에서 실행하세요.
+            </p>
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            <div className={`px-4 py-2 rounded-xl text-xs font-black ${
+              !isSchemaKnown ? 'bg-slate-100 text-slate-400'
+                : pendingMigrations.length > 0 ? 'bg-amber-50 text-amber-600' : 'bg-emerald-50 text-emerald-600'
+            }`}>
+              서버 {isSchemaKnown ? `v${schemaVersion}` : '확인 불가'} / 앱 v{LATEST_SCHEMA_VERSION}
             </div>
-          )}
+            {isCloudConnected && (
+              <button
+                onClick={async () => {
+                  setIsChecking(true);
+                  try { await onRecheckSchema(); } finally { setIsChecking(false); }
+                }}
+                disabled={isChecking}
+                className="px-4 py-2 bg-slate-900 text-white rounded-xl text-xs font-black hover:bg-slate-800 disabled:opacity-30"
+              >
+                {isChecking ? '확인 중...' : '다시 확인'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {SCHEMA_MIGRATIONS.map(m => {
+            const isApplied = isSchemaKnown && m.version <= (schemaVersion ?? 0);
+            return (
+              <div key={m.version} className={`p-6 rounded-[2rem] border ${isApplied ? 'border-slate-100 bg-slate-50/50' : 'border-amber-100 bg-amber-50/40'}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-start gap-4">
+                    <div className={`w-10 h-10 rounded-xl flex items-center justify-center font-black shrink-0 ${isApplied ? 'bg-emerald-500 text-white' : 'bg-amber-400 text-white'}`}>
+                      {m.version}
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-black text-slate-800">{m.title}</h4>
+                        <span className={`text-[10px] font-black px-2 py-0.5 rounded-full ${isApplied ? 'bg-emerald-100 text-emerald-600' : 'bg-amber-100 text-amber-600'}`}>
+                          {isApplied ? '적용됨' : '대기'}
+                        </span>
+                      </div>
+                      <p className="text-sm font-bold text-slate-500 mt-1">{m.description}</p>
+                      <ul className="mt-2 space-y-1">
+                        {m.changes.map(change => (
+                          <li key={change} className="text-xs font-bold text-slate-400">· {change}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setOpenMigration(openMigration === m.version ? null : m.version)}
+                    className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-[11px] font-black text-slate-500 shrink-0"
+                  >
+                    {openMigration === m.version ? 'SQL 닫기' : 'SQL 보기'}
+                  </button>
+                </div>
+                {openMigration === m.version && (
+                  <pre className="mt-4 p-4 bg-slate-900 text-slate-100 rounded-2xl text-[11px] font-mono overflow-x-auto max-h-60 custom-scrollbar">{m.sql}</pre>
+                )}
+              </div>
+            );
+          })}
         </div>
+
+        {(pendingMigrations.length > 0 || !isSchemaKnown) && (
+          <button
+            onClick={() => copyToClipboard(buildMigrationScript(isSchemaKnown ? pendingMigrations : SCHEMA_MIGRATIONS))}
+            className="w-full bg-amber-500 text-white py-5 rounded-2xl font-black text-lg hover:bg-amber-600 transition-all"
+          >
+            {isSchemaKnown
+              ? `대기 중인 마이그레이션 ${pendingMigrations.length}개 SQL 복사`
+              : '전체 마이그레이션 SQL 복사 (처음 설치 / 버전 확인 불가)'}
+          </button>
+        )}
       </div>
 
       <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm">
@@ -143,19 +268,21 @@ NOTIFY pgrst, 'reload schema';
         </form>
       </div>
 
-      {isCloudConnected && (
+      {isCloudConnected && permissions.canManageSettings && (
         <div className="bg-blue-600 p-10 rounded-[3rem] shadow-xl text-white">
           <div className="flex flex-col md:flex-row items-center justify-between gap-8">
             <div className="flex-1">
               <h3 className="text-xl font-black mb-2">데이터 최종 업로드</h3>
-              <p className="text-blue-100 text-sm font-bold">학생 명단과 시험 기록을 서버로 모두 강제 전송합니다.</p>
+              <p className="text-blue-100 text-sm font-bold">학생 명단, 반 정보와 시험 기록을 서버로 모두 강제 전송합니다.</p>
             </div>
             <button
               onClick={async () => {
                 setIsPushing(true);
                 try {
-                  await onPushToCloud();
-                  alert('모든 데이터가 성공적으로 서버에 동기화되었습니다!');
+                  const { conflictCount } = await onPushToCloud();
+                  alert(conflictCount > 0
+                    ? `전송을 완료했습니다.\n양쪽에서 모두 수정된 ${conflictCount}건은 병합 화면에서 선택해 주세요.`
+                    : '모든 데이터가 성공적으로 서버에 동기화되었습니다!');
                 } catch(e: any) {
                   alert(`전송 실패: ${e.message}`);
                 } finally { setIsPushing(false); }
@@ -0,0 +1,118 @@
+
+import React, { useMemo, useState } from 'react';
+import { Student, Exam, ClassGroup } from '../types.ts';
+import { getSkillMastery, collectSkillTags, SkillMastery, WEAK_MASTERY_RATE } from '../utils/masteryUtils.ts';
+import { getClassMemberIds } from '../utils/classUtils.ts';
+
+interface SkillMasteryHeatmapProps {
+  students: Student[];
+  exams: Exam[];
+  classes: ClassGroup[];
+  classFilter: string; // 'all' 또는 반 id (학생별 보기에서 대상 학생 제한)
+}
+
+type HeatmapMode = 'CLASS' | 'STUDENT';
+
+interface HeatmapRow {
+  id: string;
+  label: string;
+  mastery: Map<string, SkillMastery>;
+  weakest?: SkillMastery;
+}
+
+const cellStyle = (rate: number) =>
+  rate < WEAK_MASTERY_RATE ? 'bg-red-50 text-red-600' : rate < 0.8 ? 'bg-amber-50 text-amber-600' : 'bg-emerald-50 text-emerald-600';
+
+const toRow = (id: string, label: string, list: SkillMastery[]): HeatmapRow => ({
+  id,
+  label,
+  mastery: new Map(list.map(m => [m.tag, m])),
+  weakest: list[0] // 성취율 오름차순
+});
+
+const SkillMasteryHeatmap: React.FC<SkillMasteryHeatmapProps> = ({ students, exams, classes, classFilter }) => {
+  const [mode, setMode] = useState<HeatmapMode>(classes.length > 0 ? 'CLASS' : 'STUDENT');
+
+  const overall = useMemo(() => getSkillMastery(exams), [exams]);
+  // 기본 영역 순서대로, 집계된 영역만
+  const tags = useMemo(() => collectSkillTags(exams).filter(tag => overall.some(m => m.tag === tag)), [exams, overall]);
+
+  const rows = useMemo((): HeatmapRow[] => {
+    if (mode === 'CLASS') {
+      return [
+        toRow('all', '전체', overall),
+        ...classes.map(c => toRow(c.id, c.name, getSkillMastery(exams, getClassMemberIds(classes, [c.id]) || new Set())))
+      ].filter(r => r.mastery.size > 0);
+    }
+    const memberIds = classFilter === 'all' ? null : getClassMemberIds(classes, [classFilter]);
+    return students
+      .filter(s => !memberIds || memberIds.has(s.id))
+      .map(s => toRow(s.id, s.name, getSkillMastery(exams, new Set([s.id]))))
+      .filter(r => r.mastery.size > 0)
+      .sort((a, b) => (a.weakest?.rate ?? 1) - (b.weakest?.rate ?? 1));
+  }, [mode, overall, exams, classes, students, classFilter]);
+
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="p-8 bg-white rounded-[2.5rem] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-black text-slate-800 flex items-center gap-2">🧭 영역별 성취도 (전체 시험 누적)</h4>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+            획득 점수 / 배점 · {Math.round(WEAK_MASTERY_RATE * 100)}% 미만은 취약 영역
+          </p>
+        </div>
+        <div className="bg-slate-100 p-1 rounded-xl flex">
+          {(['CLASS', 'STUDENT'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${mode === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}
+            >
+              {m === 'CLASS' ? '반별' : '학생별'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto max-h-[480px] custom-scrollbar">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+              <th className="py-3 pr-4">{mode === 'CLASS' ? '반' : '학생'}</th>
+              {tags.map(tag => <th key={tag} className="py-3 px-2 text-center whitespace-nowrap">{tag}</th>)}
+              <th className="py-3 pl-4">최약 영역</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.id} className="border-b border-slate-50">
+                <td className="py-2 pr-4 font-black text-slate-800 whitespace-nowrap">{row.label}</td>
+                {tags.map(tag => {
+                  const m = row.mastery.get(tag);
+                  return (
+                    <td key={tag} className="py-2 px-1 text-center">
+                      {m ? (
+                        <span title={`${m.questionCount}문항 · ${m.trend.length}회`} className={`inline-block w-14 py-1.5 rounded-lg text-[11px] font-black ${cellStyle(m.rate)}`}>
+                          {Math.round(m.rate * 100)}%
+                        </span>
+                      ) : <span className="text-slate-200">-</span>}
+                    </td>
+                  );
+                })}
+                <td className="py-2 pl-4 text-xs font-black whitespace-nowrap">
+                  {row.weakest && row.weakest.rate < WEAK_MASTERY_RATE
+                    ? <span className="text-red-500">{row.weakest.tag}</span>
+                    : <span className="text-slate-300">없음</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SkillMasteryHeatmap;
@@ -1,7 +1,11 @@
 
 import React, { useState, useMemo } from 'react';
-import { Student, Exam } from '../types.ts';
-import { calculateExamResults, getExamSummary } from '../utils/gradingUtils.ts';
+import { Student, Exam, ClassGroup } from '../types.ts';
+import { calculateExamResults, getExamSummary, getScoreMetricValue, ScoreMetric, SCORE_METRIC_LABELS } from '../utils/gradingUtils.ts';
+import { getStudentClasses } from '../utils/classUtils.ts';
+import GradeBadge from './GradeBadge.tsx';
+import ReportCardGenerator from './ReportCardGenerator.tsx';
+import StudentSkillMastery from './StudentSkillMastery.tsx';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, AreaChart, Area
 } from 'recharts';
@@ -9,16 +13,21 @@ import {
 interface StudentDetailViewProps {
   students: Student[];
   exams: Exam[];
+  classes: ClassGroup[];
+  onShowHistory: (student: Student) => void;
 }
 
-const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }) => {
+const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams, classes, onShowHistory }) => {
   const [selectedStudentId, setSelectedStudentId] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [classFilter, setClassFilter] = useState<string>('all');
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [scoreMetric, setScoreMetric] = useState<ScoreMetric>('RAW');
 
   // 각 학생의 가장 최근 성적 정보 맵 생성
   const studentLatestScoreMap = useMemo(() => {
     if (exams.length === 0) return {};
-    const map: Record<string, { score: number; unit: string; rank: number; total: number }> = {};
+    const map: Record<string, { score: number; unit: string; rank: number; total: number; percentile: number }> = {};
     
     // 최근 시험부터 역순으로 돌며 학생 성적 찾기
     [...exams].reverse().forEach(exam => {
@@ -29,7 +38,8 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
             score: res.score,
             unit: exam.type === 'RANKING' ? '점' : '개',
             rank: res.rank,
-            total: results.length
+            total: results.length,
+            percentile: res.percentile
           };
         }
       });
@@ -42,10 +52,14 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
     if (searchTerm.trim()) {
       list = list.filter(s => s.name.toLowerCase().includes(searchTerm.toLowerCase()));
     }
+    if (classFilter !== 'all') {
+      const memberIds = classes.find(c => c.id === classFilter)?.studentIds || [];
+      list = list.filter(s => memberIds.includes(s.id));
+    }
     
     // 최근 성적이 낮은 학생을 찾기 쉽도록 성적 정보가 있는 리스트와 이름순 정렬
     return list.sort((a, b) => a.name.localeCompare(b.name, 'ko'));
-  }, [students, searchTerm]);
+  }, [students, searchTerm, classFilter, classes]);
 
   const selectedStudent = useMemo(() => {
     return students.find(s => s.id === selectedStudentId);
@@ -69,17 +83,31 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
           type: exam.type,
           score: studentResult.score,
           average: Number(summary.average.toFixed(1)),
+          metricValue: getScoreMetricValue(studentResult, scoreMetric),
+          zScore: studentResult.zScore,
+          tScore: studentResult.tScore,
+          standardScore: studentResult.standardScore,
           rank: studentResult.rank,
           total: summary.totalStudents,
           percentile: studentResult.percentile,
           isPassed: studentResult.isPassed,
+          grade: studentResult.grade,
+          gradeIndex: studentResult.gradeIndex,
+          gradeBandCount: exam.gradeScale?.bands.length ?? 0,
           hasThreshold: exam.passThreshold !== undefined,
           unit: exam.type === 'RANKING' ? '점' : '개'
         };
       })
       .filter((item): item is NonNullable<typeof item> => item !== null)
       .sort((a, b) => a.timestamp - b.timestamp);
-  }, [exams, selectedStudentId, students]);
+  }, [exams, selectedStudentId, students, scoreMetric]);
+
+  // 표준화 점수의 전체 평균은 정의상 0 / 50 / 100
+  const metricBaseline: Record<ScoreMetric, number | null> = { RAW: null, Z: 0, T: 50, STANDARD: 100 };
+  const chartData = studentExamHistory.map(h => ({
+    ...h,
+    averageValue: metricBaseline[scoreMetric] ?? h.average
+  }));
 
   const stats = useMemo(() => {
     if (studentExamHistory.length === 0) return null;
@@ -112,6 +140,20 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
               <span className="absolute right-5 top-1/2 -translate-y-1/2 opacity-20">🔍</span>
             </div>
           </div>
+          {classes.length > 0 && (
+            <div className="w-full md:w-60">
+              <label htmlFor="student-class-filter" className="block text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">반 필터</label>
+              <select
+                id="student-class-filter"
+                value={classFilter}
+                onChange={(e) => setClassFilter(e.target.value)}
+                className="w-full px-6 py-4 bg-slate-50 border border-slate-100 rounded-2xl outline-none font-bold text-slate-900"
+              >
+                <option value="all">전체 반</option>
+                {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+          )}
           <div className="flex-1 text-right text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] pb-1">
             Student Quick Insight Selection
           </div>
@@ -121,7 +163,7 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
           {filteredStudents.map(student => {
             const latest = studentLatestScoreMap[student.id];
             const isSelected = selectedStudentId === student.id;
-            const isLowScore = latest && (latest.rank / latest.total) >= 0.8; // 하위 20%
+            const isLowScore = latest && latest.percentile >= 80; // 하위 20%
 
             return (
               <button 
@@ -139,7 +181,7 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
                 {latest ? (
                   <div className={`text-[10px] font-bold flex flex-col ${isSelected ? 'text-white/50' : isLowScore ? 'text-red-400' : 'text-slate-400'}`}>
                     <span>최근: {latest.score}{latest.unit}</span>
-                    <span>상위 {((latest.rank / latest.total) * 100).toFixed(0)}%</span>
+                    <span>상위 {latest.percentile.toFixed(0)}%</span>
                   </div>
                 ) : (
                   <span className="text-[10px] font-bold opacity-30">기록 없음</span>
@@ -158,6 +200,35 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
         </div>
       ) : (
         <div className="space-y-8 animate-in fade-in slide-in-from-bottom-6 duration-700">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {getStudentClasses(classes, selectedStudent.id).length > 0 && (
+                <>
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">소속 반</span>
+                  {getStudentClasses(classes, selectedStudent.id).map(c => (
+                    <span key={c.id} className="px-3 py-1 bg-slate-900 text-white rounded-full text-[10px] font-black">
+                      {c.name}{c.teacher ? ` · ${c.teacher}` : ''}
+                    </span>
+                  ))}
+                </>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onShowHistory(selectedStudent)}
+                className="px-6 py-3 bg-white border border-slate-200 text-slate-700 rounded-2xl font-black text-xs hover:bg-slate-50 transition-all"
+              >
+                🕘 변경 이력
+              </button>
+              <button
+                onClick={() => setIsReportOpen(true)}
+                className="px-6 py-3 bg-slate-900 text-white rounded-2xl font-black text-xs shadow-lg hover:bg-slate-800 transition-all"
+              >
+                📄 성적표 PDF
+              </button>
+            </div>
+          </div>
+
           {/* Quick Stats Overview */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
             <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm">
@@ -184,13 +255,28 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
 
           {/* Chart Section */}
           <div className="bg-white p-8 rounded-[3rem] border border-slate-200 shadow-sm">
-            <h3 className="text-sm font-black text-slate-800 mb-8 flex items-center gap-2">
-              <span className="w-2 h-6 bg-blue-600 rounded-full"></span>
-              성장 곡선 및 평균 대비 분석(*상승,하락은 참고 x / 평균 이상인지 이하인지만 체크)
-            </h3>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+              <h3 className="text-sm font-black text-slate-800 flex items-center gap-2">
+                <span className="w-2 h-6 bg-blue-600 rounded-full"></span>
+                {scoreMetric === 'RAW'
+                  ? '성장 곡선 및 평균 대비 분석(*상승,하락은 참고 x / 평균 이상인지 이하인지만 체크)'
+                  : `성장 곡선 (${SCORE_METRIC_LABELS[scoreMetric]} · 시험별 응시자 기준이라 만점이 다른 시험끼리도 비교 가능)`}
+              </h3>
+              <div className="bg-slate-100 p-1 rounded-xl flex shrink-0">
+                {(Object.keys(SCORE_METRIC_LABELS) as ScoreMetric[]).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setScoreMetric(m)}
+                    className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${scoreMetric === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}
+                  >
+                    {SCORE_METRIC_LABELS[m]}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className="h-80">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={studentExamHistory}>
+                <AreaChart data={chartData}>
                   <defs>
                     <linearGradient id="colorScore" x1="0" y1="0" x2="0" y2="1">
                       <stop offset="5%" stopColor="#2563eb" stopOpacity={0.1}/>
@@ -204,13 +290,22 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
                     contentStyle={{borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)', fontWeight: 'black'}} 
                   />
                   <Legend verticalAlign="top" height={36} iconType="circle" />
-                  <Area name="본인 점수" type="monotone" dataKey="score" stroke="#2563eb" strokeWidth={4} fillOpacity={1} fill="url(#colorScore)" />
-                  <Line name="전체 평균" type="monotone" dataKey="average" stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                  <Area name={scoreMetric === 'RAW' ? '본인 점수' : `본인 ${SCORE_METRIC_LABELS[scoreMetric]}`} type="monotone" dataKey="metricValue" stroke="#2563eb" strokeWidth={4} fillOpacity={1} fill="url(#colorScore)" />
+                  <Line name="전체 평균" type="monotone" dataKey="averageValue" stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 5" dot={false} />
                 </AreaChart>
               </ResponsiveContainer>
             </div>
           </div>
 
+          {/* Skill Mastery */}
+          <div className="bg-white p-8 rounded-[3rem] border border-slate-200 shadow-sm">
+            <h3 className="text-sm font-black text-slate-800 mb-8 flex items-center gap-2">
+              <span className="w-2 h-6 bg-indigo-500 rounded-full"></span>
+              영역별 성취도 (취약 영역 순)
+            </h3>
+            <StudentSkillMastery exams={exams} studentId={selectedStudent.id} />
+          </div>
+
           {/* Full History Table */}
           <div className="bg-white rounded-[3rem] border border-slate-200 overflow-hidden shadow-sm">
             <div className="p-8 border-b border-slate-50 bg-slate-50/50">
@@ -223,7 +318,9 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
                     <th className="px-10 py-5">날짜</th>
                     <th className="px-10 py-5">시험명</th>
                     <th className="px-10 py-5">성적</th>
+                    <th className="px-10 py-5">표준점수 (T)</th>
                     <th className="px-10 py-5">석차 / 인원</th>
+                    <th className="px-10 py-5">등급</th>
                     <th className="px-10 py-5">상태</th>
                   </tr>
                 </thead>
@@ -240,10 +337,17 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
                           </span>
                           <span className="text-[10px] ml-2 font-bold text-slate-300">평균: {history.average}</span>
                         </td>
+                        <td className="px-10 py-5 font-black text-slate-700">
+                          {history.standardScore.toFixed(1)}
+                          <span className="ml-2 text-[10px] font-bold text-slate-400">T {history.tScore.toFixed(1)} · z {history.zScore.toFixed(2)}</span>
+                        </td>
                         <td className="px-10 py-5 font-bold text-slate-700">
                           {history.rank} / {history.total}위
                           <span className="ml-2 text-[10px] text-slate-400">({history.percentile.toFixed(0)}%)</span>
                         </td>
+                        <td className="px-10 py-5">
+                          <GradeBadge grade={history.grade} gradeIndex={history.gradeIndex} bandCount={history.gradeBandCount} />
+                        </td>
                         <td className="px-10 py-5 font-black">
                           {history.hasThreshold && history.isPassed !== undefined ? (
                             <span className={`px-3 py-1 rounded-full text-[10px] ${history.isPassed ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-500'}`}>
@@ -260,6 +364,16 @@ const StudentDetailView: React.FC<StudentDetailViewProps> = ({ students, exams }
           </div>
         </div>
       )}
+
+      {isReportOpen && selectedStudent && (
+        <ReportCardGenerator
+          students={students}
+          exams={exams}
+          classes={classes}
+          initialStudentId={selectedStudent.id}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,28 +1,39 @@
 
 import React, { useState, useMemo } from 'react';
-import { Student, Exam } from '../types.ts';
+import { Student, Exam, ClassGroup } from '../types.ts';
 import { calculateExamResults } from '../utils/gradingUtils.ts';
+import { Permissions } from '../utils/authUtils.ts';
+import { getStudentClasses } from '../utils/classUtils.ts';
+import RosterImportModal from './RosterImportModal.tsx';
 
 interface StudentManagementProps {
   students: Student[];
   exams: Exam[];
+  classes: ClassGroup[];
   onAddStudent: (name: string, school: string, phone: string) => void;
+  onImportStudents: (rows: { name: string; school: string; phone: string; note: string }[]) => void;
   onUpdateStudent: (student: Student) => void;
   onDeleteStudent: (id: string) => void;
+  permissions: Permissions;
 }
 
 const StudentManagement: React.FC<StudentManagementProps> = ({ 
   students, 
   exams, 
+  classes,
   onAddStudent, 
+  onImportStudents,
   onUpdateStudent,
-  onDeleteStudent 
+  onDeleteStudent,
+  permissions
 }) => {
   const [name, setName] = useState('');
   const [school, setSchool] = useState('');
   const [phone, setPhone] = useState('');
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [filterSchool, setFilterSchool] = useState<string>('all');
+  const [filterClass, setFilterClass] = useState<string>('all');
+  const [isImporting, setIsImporting] = useState(false);
 
   // 수정 관련 상태
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
@@ -42,8 +53,12 @@ const StudentManagement: React.FC<StudentManagementProps> = ({
     if (filterSchool !== 'all') {
       list = list.filter(s => s.school === filterSchool);
     }
+    if (filterClass !== 'all') {
+      const memberIds = classes.find(c => c.id === filterClass)?.studentIds || [];
+      list = list.filter(s => memberIds.includes(s.id));
+    }
     return list.sort((a, b) => a.name.localeCompare(b.name, 'ko'));
-  }, [students, filterSchool]);
+  }, [students, filterSchool, filterClass, classes]);
 
   const studentStatusMap = useMemo(() => {
     if (exams.length === 0) return {};
@@ -149,8 +164,12 @@ const StudentManagement: React.FC<StudentManagementProps> = ({
   return (
     <div className="space-y-6">
       {/* 학생 추가 섹션 */}
+      {permissions.canManageStudents && (
       <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
-        <h3 className="text-sm font-black mb-4 text-slate-800 uppercase tracking-widest">New Student</h3>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest">New Student</h3>
+          <button onClick={() => setIsImporting(true)} className="bg-slate-50 border border-slate-100 px-4 py-2 rounded-xl text-xs font-black hover:bg-slate-100 transition-colors">📥 CSV/엑셀 가져오기</button>
+        </div>
         <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <input type="text" placeholder="이름 (필수)" value={name} onChange={(e) => setName(e.target.value)} className="px-4 py-3 bg-slate-50 border-none rounded-xl outline-none font-bold text-sm" required />
           <input type="text" placeholder="학교명" value={school} onChange={(e) => setSchool(e.target.value)} className="px-4 py-3 bg-slate-50 border-none rounded-xl outline-none font-bold text-sm" />
@@ -158,6 +177,7 @@ const StudentManagement: React.FC<StudentManagementProps> = ({
           <button type="submit" className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black text-sm hover:bg-slate-800 shadow-lg">학생 추가</button>
         </form>
       </div>
+      )}
 
       {/* 필터 및 벌크 액션 */}
       <div className="flex flex-col gap-4 bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
@@ -168,6 +188,12 @@ const StudentManagement: React.FC<StudentManagementProps> = ({
               <option value="all">전체 ({students.length})</option>
               {uniqueSchools.map(sch => <option key={sch} value={sch}>{sch}</option>)}
             </select>
+            {classes.length > 0 && (
+              <select value={filterClass} onChange={(e) => setFilterClass(e.target.value)} className="bg-slate-50 border-none text-slate-700 text-xs font-black rounded-xl px-4 py-2 outline-none">
+                <option value="all">전체 반</option>
+                {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            )}
             <div className="h-4 w-px bg-slate-200 mx-2" />
             <button onClick={() => selectByStatus(true)} className="bg-green-50 text-green-600 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-tight">Pass Only</button>
             <button onClick={() => selectByStatus(false)} className="bg-red-50 text-red-600 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-tight">Fail Only</button>
@@ -198,6 +224,7 @@ const StudentManagement: React.FC<StudentManagementProps> = ({
                 </th>
                 <th className="px-8 py-5">Name</th>
                 <th className="px-8 py-5">School</th>
+                <th className="px-8 py-5">Class</th>
                 <th className="px-8 py-5">Status</th>
                 <th className="px-8 py-5">Phone</th>
                 <th className="px-8 py-5 text-right">Action</th>
@@ -205,7 +232,7 @@ const StudentManagement: React.FC<StudentManagementProps> = ({
             </thead>
             <tbody className="divide-y divide-slate-50">
               {filteredAndSortedStudents.length === 0 ? (
-                <tr><td colSpan={6} className="px-8 py-20 text-center text-slate-300 font-bold uppercase tracking-widest text-xs">No students found</td></tr>
+                <tr><td colSpan={7} className="px-8 py-20 text-center text-slate-300 font-bold uppercase tracking-widest text-xs">No students found</td></tr>
               ) : (
                 filteredAndSortedStudents.map((student) => {
                   const status = studentStatusMap[student.id];
@@ -218,6 +245,13 @@ const StudentManagement: React.FC<StudentManagementProps> = ({
                       </td>
                       <td className="px-8 py-5 font-black text-slate-800">{student.name}</td>
                       <td className="px-8 py-5 text-xs font-bold text-slate-500">{student.school || '-'}</td>
+                      <td className="px-8 py-5">
+                        <div className="flex flex-wrap gap-1">
+                          {getStudentClasses(classes, student.id).map(c => (
+                            <span key={c.id} className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded-md text-[9px] font-black">{c.name}</span>
+                          ))}
+                        </div>
+                      </td>
                       <td className="px-8 py-5">
                         {hasThreshold ? (
                           <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-tighter ${status.isPass ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
@@ -228,8 +262,12 @@ const StudentManagement: React.FC<StudentManagementProps> = ({
                       <td className="px-8 py-5 text-xs font-medium text-slate-400">{student.phone || '-'}</td>
                       <td className="px-8 py-5 text-right">
                         <div className="flex justify-end gap-3">
-                          <button onClick={() => handleEditClick(student)} className="text-[10px] font-black text-blue-500 hover:text-blue-700 uppercase tracking-widest">수정</button>
-                          <button onClick={() => onDeleteStudent(student.id)} className="text-slate-200 hover:text-red-500 transition-colors">✕</button>
+                          {permissions.canManageStudents && (
+                            <button onClick={() => handleEditClick(student)} className="text-[10px] font-black text-blue-500 hover:text-blue-700 uppercase tracking-widest">수정</button>
+                          )}
+                          {permissions.canDeleteStudents && (
+                            <button onClick={() => onDeleteStudent(student.id)} className="text-slate-200 hover:text-red-500 transition-colors">✕</button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -241,6 +279,10 @@ const StudentManagement: React.FC<StudentManagementProps> = ({
         </div>
       </div>
 
+      {isImporting && (
+        <RosterImportModal students={students} onClose={() => setIsImporting(false)} onImport={onImportStudents} />
+      )}
+
       {/* 수정 모달 (Edit Modal) */}
       {editingStudent && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
@@ -0,0 +1,91 @@
+
+import React, { useMemo } from 'react';
+import { Exam } from '../types.ts';
+import { getSkillMastery, WEAK_MASTERY_RATE } from '../utils/masteryUtils.ts';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+
+interface StudentSkillMasteryProps {
+  exams: Exam[];
+  studentId: string;
+}
+
+const TREND_COLORS = ['#ef4444', '#f59e0b', '#6366f1'];
+const TREND_TAG_COUNT = 3; // 추이는 취약 영역 3개만
+
+const StudentSkillMastery: React.FC<StudentSkillMasteryProps> = ({ exams, studentId }) => {
+  const mastery = useMemo(() => getSkillMastery(exams, new Set([studentId])), [exams, studentId]);
+  const overall = useMemo(() => new Map(getSkillMastery(exams).map(m => [m.tag, m.rate])), [exams]);
+  const weakest = useMemo(() => mastery.slice(0, TREND_TAG_COUNT), [mastery]);
+
+  // 시험별 한 줄: { title, [영역]: 성취율 % }
+  const trendData = useMemo(() => {
+    const rows = new Map<string, { title: string; timestamp: number } & Record<string, number | string>>();
+    weakest.forEach(m => m.trend.forEach(p => {
+      const row = rows.get(p.examId) || { title: p.title, timestamp: new Date(p.date).getTime() };
+      row[m.tag] = Math.round(p.rate * 100);
+      rows.set(p.examId, row);
+    }));
+    return Array.from(rows.values()).sort((a, b) => a.timestamp - b.timestamp);
+  }, [weakest]);
+
+  if (mastery.length === 0) {
+    return (
+      <p className="py-10 text-center text-sm font-bold text-slate-300">
+        영역이 지정된 문항의 답안 기록이 없습니다. 시험 설정에서 문항별 영역을 지정하세요.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="space-y-4">
+        {mastery.map((m, idx) => {
+          const average = overall.get(m.tag);
+          const isWeak = m.rate < WEAK_MASTERY_RATE;
+          return (
+            <div key={m.tag} className="space-y-1.5">
+              <div className="flex justify-between text-xs font-black">
+                <span className="flex items-center gap-2 text-slate-800">
+                  {m.tag}
+                  {idx === 0 && isWeak && <span className="bg-red-500 text-white px-1.5 py-0.5 rounded text-[8px]">최약 영역</span>}
+                  <span className="text-[10px] font-bold text-slate-300">{m.questionCount}문항 · {m.trend.length}회</span>
+                </span>
+                <span className={isWeak ? 'text-red-500' : 'text-slate-600'}>
+                  {Math.round(m.rate * 100)}%
+                  {average !== undefined && <span className="ml-2 text-[10px] font-bold text-slate-400">전체 {Math.round(average * 100)}%</span>}
+                </span>
+              </div>
+              <div className="relative h-2 w-full bg-slate-100 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${isWeak ? 'bg-red-400' : 'bg-blue-600'}`} style={{ width: `${m.rate * 100}%` }} />
+                {average !== undefined && <div className="absolute top-0 bottom-0 w-0.5 bg-slate-900" style={{ left: `${average * 100}%` }} />}
+              </div>
+            </div>
+          );
+        })}
+        <p className="text-[10px] font-bold text-slate-400">검은 선은 전체 학생 평균 성취율입니다.</p>
+      </div>
+
+      <div>
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">취약 영역 성취율 추이 (%)</p>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={trendData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="title" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 'bold'}} />
+              <YAxis domain={[0, 100]} axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 'bold'}} />
+              <Tooltip contentStyle={{borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)', fontWeight: 'black'}} formatter={(value) => `${value}%`} />
+              <Legend verticalAlign="top" height={36} iconType="circle" />
+              {weakest.map((m, i) => (
+                <Line key={m.tag} name={m.tag} type="monotone" dataKey={m.tag} stroke={TREND_COLORS[i]} strokeWidth={3} connectNulls />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudentSkillMastery;
@@ -0,0 +1,102 @@
+
+import React, { useMemo } from 'react';
+import { OutboxItem, getHeldOutboxIds } from '../services/outboxService.ts';
+
+interface SyncQueueModalProps {
+  items: OutboxItem[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  onRetry: (id?: number) => void;
+  onDiscard: (id: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ko-KR', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const SyncQueueModal: React.FC<SyncQueueModalProps> = ({ items, isOnline, isSyncing, onRetry, onDiscard, onClose }) => {
+  const failedCount = items.filter(i => i.status === 'FAILED').length;
+  const heldIds = useMemo(() => getHeldOutboxIds(items), [items]);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-3xl rounded-[3rem] shadow-2xl overflow-hidden max-h-[95vh] flex flex-col animate-in zoom-in duration-200">
+        <div className="p-10 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-800">서버 전송 대기열</h3>
+            <p className="text-sm text-slate-400 font-bold uppercase tracking-tight mt-1">
+              {isOnline ? (isSyncing ? 'Syncing...' : 'Online') : 'Offline · 연결되면 자동 전송'}
+            </p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white shadow-sm flex items-center justify-center text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-10 overflow-y-auto flex-1 space-y-4 custom-scrollbar">
+          {items.length === 0 ? (
+            <div className="py-16 text-center">
+              <p className="text-4xl mb-4">✅</p>
+              <p className="text-slate-400 font-black">모든 변경 사항이 서버에 저장되었습니다.</p>
+            </div>
+          ) : items.map(item => (
+            <div
+              key={item.id}
+              className={`p-6 rounded-[2rem] border ${item.status === 'FAILED' ? 'bg-red-50 border-red-100' : 'bg-slate-50 border-slate-100'}`}
+            >
+              <div className="flex justify-between items-start gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-[10px] font-black px-2 py-0.5 rounded-full ${
+                      item.status === 'FAILED' ? 'bg-red-500 text-white' : heldIds.has(item.id) ? 'bg-slate-400 text-white' : 'bg-amber-400 text-white'
+                    }`}>
+                      {item.status === 'FAILED' ? '실패' : heldIds.has(item.id) ? '보류' : '대기'}
+                    </span>
+                    <p className="font-black text-slate-800 truncate">{item.label}</p>
+                  </div>
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">
+                    {formatTime(item.createdAt)} · 시도 {item.attempts}회
+                    {item.status === 'PENDING' && item.attempts > 0 && ` · 다음 재시도 ${formatTime(item.nextAttemptAt)}`}
+                  </p>
+                  {heldIds.has(item.id) && (
+                    <p className="text-xs font-bold mt-2 text-slate-500">같은 항목의 앞선 변경이 실패했습니다. 실패한 변경을 재시도하거나 삭제하면 전송됩니다.</p>
+                  )}
+                  {item.lastError && (
+                    <p className={`text-xs font-bold mt-2 break-all ${item.status === 'FAILED' ? 'text-red-500' : 'text-slate-500'}`}>
+                      {item.lastError}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => onRetry(item.id)}
+                    disabled={!isOnline}
+                    className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-600 hover:bg-slate-100 disabled:opacity-30"
+                  >
+                    재시도
+                  </button>
+                  <button
+                    onClick={() => onDiscard(item.id)}
+                    className="px-4 py-2 bg-white border border-red-100 rounded-xl text-xs font-black text-red-500 hover:bg-red-50"
+                  >
+                    삭제
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-8 border-t border-slate-100 bg-slate-50/50">
+          <button
+            onClick={() => onRetry()}
+            disabled={items.length === 0 || !isOnline || isSyncing}
+            className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black text-lg shadow-2xl hover:bg-slate-800 transition-all active:scale-[0.98] disabled:opacity-30"
+          >
+            {failedCount > 0 ? `실패 ${failedCount}건 포함 모두 재시도` : '지금 전송'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncQueueModal;
@@ -0,0 +1,57 @@
+import { AuditEntry } from "../types.ts";
+
+// 변경 이력은 기기에도 남겨 오프라인/로컬 모드에서도 조회 가능 (추가만 하고 지우지 않음)
+const DB_NAME = 'twotop-audit';
+const STORE = 'entries';
+const DEVICE_KEY = 'device_id';
+
+const openDB = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore(STORE, { keyPath: 'id' });
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+// 기기 식별자: 처음 실행할 때 한 번 만들어 계속 사용
+export const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = `dev-${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+};
+
+export const appendAuditEntries = async (entries: AuditEntry[]) => {
+  if (entries.length === 0) return;
+  const db = await openDB();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      // 이미 있는 id는 건드리지 않음
+      entries.forEach(entry => store.add(entry).onerror = (e) => { e.preventDefault(); e.stopPropagation(); });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadAuditEntries = async (filter: (entry: AuditEntry) => boolean): Promise<AuditEntry[]> => {
+  const db = await openDB();
+  try {
+    const all = await new Promise<AuditEntry[]>((resolve, reject) => {
+      const req = db.transaction(STORE, 'readonly').objectStore(STORE).getAll();
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return all.filter(filter);
+  } finally {
+    db.close();
+  }
+};
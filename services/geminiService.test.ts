@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { extractScoresFromImage, getAIInsights, GeminiClient } from './geminiService.ts';
+import { ExamSummary } from '../types.ts';
+
+// 네트워크 없이 응답만 돌려주는 로컬 스텁
+const stubClient = (respond: () => Promise<{ text?: string }>) => {
+  const generateContent = vi.fn<GeminiClient['models']['generateContent']>(respond);
+  const client: GeminiClient = { models: { generateContent } };
+  return { client, generateContent };
+};
+
+const summary = { totalStudents: 2, average: 75, highestScore: 90, lowestScore: 60 } as ExamSummary;
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('extractScoresFromImage', () => {
+  it('sends the image with the roster and parses the JSON response', async () => {
+    const { client, generateContent } = stubClient(async () => ({ text: '[{"name":"김민준","score":95}]' }));
+    await expect(extractScoresFromImage('BASE64', ['김민준', '이서연'], client)).resolves.toEqual([{ name: '김민준', score: 95 }]);
+
+    expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({
+      contents: {
+        parts: [
+          { inlineData: { mimeType: 'image/jpeg', data: 'BASE64' } },
+          { text: expect.stringContaining('김민준, 이서연') }
+        ]
+      }
+    }));
+  });
+
+  it('returns an empty list for an empty or non-array response', async () => {
+    await expect(extractScoresFromImage('x', [], stubClient(async () => ({ text: '' })).client)).resolves.toEqual([]);
+    await expect(extractScoresFromImage('x', [], stubClient(async () => ({ text: '{"name":"a"}' })).client)).resolves.toEqual([]);
+  });
+
+  it('rethrows API failures so callers can tell them apart from "nothing recognised"', async () => {
+    const { client } = stubClient(async () => { throw new Error('quota exceeded'); });
+    await expect(extractScoresFromImage('x', [], client)).rejects.toThrow('quota exceeded');
+  });
+
+  it('rethrows when the response is not valid JSON', async () => {
+    const { client } = stubClient(async () => ({ text: 'not json' }));
+    await expect(extractScoresFromImage('x', [], client)).rejects.toThrow(SyntaxError);
+  });
+});
+
+describe('getAIInsights', () => {
+  it('returns the generated report text', async () => {
+    const { client } = stubClient(async () => ({ text: '## 리포트' }));
+    await expect(getAIInsights('3월 모의고사', summary, [], undefined, client)).resolves.toBe('## 리포트');
+  });
+
+  it('throws instead of returning an empty report', async () => {
+    const { client } = stubClient(async () => ({ text: undefined }));
+    await expect(getAIInsights('3월 모의고사', summary, [], undefined, client)).rejects.toThrow('분석 결과를 생성하지 못했습니다');
+  });
+});
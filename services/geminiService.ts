@@ -1,15 +1,30 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI, GenerateContentParameters, Type } from "@google/genai";
 import { CalculatedResult, ExamSummary } from "../types.ts";
+import { SchoolStat } from "../utils/gradingUtils.ts";
+
+// 서비스가 쓰는 Gemini 호출만 추린 형태 (테스트에서는 로컬 스텁으로 대체)
+export interface GeminiClient {
+  models: {
+    generateContent: (params: GenerateContentParameters) => Promise<{ text?: string }>;
+  };
+}
+
+// Always use process.env.API_KEY directly for initialization
+export const createGeminiClient = (): GeminiClient => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+export interface AIInsightDetails {
+  questionWrongRates: { number: number; wrongRate: number }[]; // 오답률(%)
+  schoolStats: SchoolStat[];
+}
 
 export const getAIInsights = async (
   examTitle: string,
   summary: ExamSummary,
-  results: CalculatedResult[]
+  results: CalculatedResult[],
+  details?: AIInsightDetails,
+  ai: GeminiClient = createGeminiClient()
 ) => {
-  // Always use process.env.API_KEY directly for initialization
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   const prompt = `
     당신은 베테랑 학원 강사입니다. 다음 시험 데이터를 분석하여 한국어로 전문적인 교육 리포트를 작성하세요.
     
@@ -18,12 +33,23 @@ export const getAIInsights = async (
     - 응시 인원: ${summary.totalStudents}명
     - 평균 점수: ${summary.average.toFixed(2)}점
     - 최고/최저 점수: ${summary.highestScore}점 / ${summary.lowestScore}점
+${details && details.questionWrongRates.length > 0 ? `
+    [문항별 오답률]
+    ${details.questionWrongRates.map(q => `${q.number}번 ${q.wrongRate.toFixed(0)}%`).join(', ')}
+` : ''}${details && details.schoolStats.length > 0 ? `
+    [학교별 현황]
+    ${details.schoolStats.map(s => `${s.schoolName}: ${s.studentCount}명, 평균 ${s.average.toFixed(1)}점, 최고 ${s.highestScore}점`).join('\n    ')}
+` : ''}
+    [점수 분포]
+    ${results.map(r => r.score).join(', ')}
 
     [요구사항]
     1. 전반적인 성취도 평가를 수행하세요.
     2. 점수대별(상위권/중위권/하위권) 맞춤형 학습 조언을 제공하세요.
     3. 향후 수업 방향과 보강이 필요한 개념을 추천하세요.
     4. 선생님이 학부모 상담 시 활용할 수 있는 핵심 코멘트를 포함하세요.
+    5. 오답률이 높은 문항과 학교별 편차가 있다면 원인을 짚어주세요.
+    6. 마크다운(제목, 목록, 굵게)으로 작성하세요.
     
     톤앤매너: 전문적이고 신뢰감 있으며 격려하는 어조.
   `;
@@ -36,17 +62,20 @@ export const getAIInsights = async (
         thinkingConfig: { thinkingBudget: 16384 }
       }
     });
-    return response.text || "분석 결과를 생성하지 못했습니다. 다시 시도해주세요.";
+    if (!response.text) throw new Error("분석 결과를 생성하지 못했습니다. 다시 시도해주세요.");
+    return response.text;
   } catch (error) {
+    // 호출부에서 실패 결과를 캐시하지 않도록 오류를 그대로 전달
     console.error("Gemini Analytics Error:", error);
-    return `AI 분석 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`;
+    throw error;
   }
 };
 
-export const extractScoresFromImage = async (base64Image: string, studentNames: string[]) => {
-  // Always use process.env.API_KEY directly for initialization
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
+export const extractScoresFromImage = async (
+  base64Image: string,
+  studentNames: string[],
+  ai: GeminiClient = createGeminiClient()
+) => {
   const prompt = `
     이미지(시험지 또는 성적표)에서 학생의 이름과 점수를 정확히 추출하세요.
     
@@ -89,9 +118,11 @@ export const extractScoresFromImage = async (base64Image: string, studentNames:
       }
     });
 
-    return JSON.parse(response.text || "[]");
+    const parsed = JSON.parse(response.text || "[]");
+    return Array.isArray(parsed) ? parsed as { name: string; score: number }[] : [];
   } catch (error) {
+    // 인식 실패와 "인식된 항목 없음"을 구분할 수 있도록 오류를 그대로 전달
     console.error("OCR Error:", error);
-    return [];
+    throw error;
   }
 };
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { OutboxItem, OutboxOp, getHeldOutboxIds } from './outboxService.ts';
+
+const item = (id: number, ops: OutboxOp[], status: OutboxItem['status'] = 'PENDING'): OutboxItem =>
+  ({ id, label: `#${id}`, ops, status, attempts: 0, createdAt: 0, nextAttemptAt: 0 });
+
+const updateStudent = (id: string): OutboxOp => ({ kind: 'update', table: 'students', values: { id }, match: { id } });
+
+describe('getHeldOutboxIds', () => {
+  it('holds later changes to the same record as a failed item', () => {
+    const held = getHeldOutboxIds([
+      item(1, [updateStudent('a')], 'FAILED'),
+      item(2, [updateStudent('b')]),
+      item(3, [{ kind: 'delete', table: 'students', match: { id: 'a' } }])
+    ]);
+    expect([...held]).toEqual([3]);
+  });
+
+  it('keeps holding records touched by an already held item', () => {
+    const held = getHeldOutboxIds([
+      item(1, [updateStudent('a')], 'FAILED'),
+      item(2, [{ kind: 'upsert', table: 'students', rows: [{ id: 'a' }, { id: 'b' }] }]),
+      item(3, [updateStudent('b')])
+    ]);
+    expect([...held]).toEqual([2, 3]);
+  });
+
+  it('matches exam scores by exam and ignores append-only audit rows', () => {
+    const held = getHeldOutboxIds([
+      item(1, [
+        { kind: 'upsert', table: 'exam_scores', rows: [{ exam_id: 'e1', student_id: 'a' }] },
+        { kind: 'upsert', table: 'audit_log', rows: [{ id: 'log1' }], ignoreDuplicates: true }
+      ], 'FAILED'),
+      item(2, [{ kind: 'delete', table: 'exam_scores', match: { exam_id: 'e1' }, inColumn: { column: 'student_id', values: ['a'] } }]),
+      item(3, [{ kind: 'upsert', table: 'audit_log', rows: [{ id: 'log1' }], ignoreDuplicates: true }]),
+      item(4, [{ kind: 'upsert', table: 'exams', rows: [{ id: 'e1' }] }])
+    ]);
+    expect([...held]).toEqual([2]);
+  });
+});
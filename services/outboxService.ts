@@ -0,0 +1,182 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+// 서버에 보낼 변경 한 건. 재시도해도 결과가 같도록 insert 대신 upsert만 사용
+export type OutboxOp =
+  | { kind: 'upsert'; table: string; rows: Record<string, any>[]; ignoreDuplicates?: boolean } // 추가 전용 테이블은 이미 있으면 무시
+  | { kind: 'update'; table: string; values: Record<string, any>; match: Record<string, string> }
+  | { kind: 'delete'; table: string; match: Record<string, string>; inColumn?: { column: string; values: string[] } };
+
+export type OutboxStatus = 'PENDING' | 'FAILED';
+
+export interface OutboxItem {
+  id: number;         // IndexedDB 자동 증가 키 (= 전송 순서)
+  label: string;      // 오류 목록에 보여줄 설명
+  ops: OutboxOp[];
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface OutboxRunResult {
+  nextRetryAt: number | null;  // 네트워크 오류로 멈춘 경우 다음 재시도 시각
+  schemaMismatch: boolean;     // 서버 테이블 구조가 달라 거절된 항목이 있는지
+  authRequired: boolean;       // 로그인 전·세션 만료로 거절되어 로그인 후 다시 보내야 하는지
+}
+
+const DB_NAME = 'twotop-sync';
+const STORE = 'outbox';
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+const openDB = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDB();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadOutbox = () => withStore<OutboxItem[]>('readonly', store => store.getAll());
+
+export const enqueueOutbox = (label: string, ops: OutboxOp[]) => {
+  const now = Date.now();
+  const item: Omit<OutboxItem, 'id'> = { label, ops, status: 'PENDING', attempts: 0, createdAt: now, nextAttemptAt: now };
+  return withStore<IDBValidKey>('readwrite', store => store.add(item));
+};
+
+const putOutboxItem = (item: OutboxItem) => withStore<IDBValidKey>('readwrite', store => store.put(item));
+
+export const removeOutboxItem = (id: number) => withStore<undefined>('readwrite', store => store.delete(id));
+
+// 실패 항목을 다시 대기열로 돌림 (id 미지정 시 전체)
+export const resetOutboxItems = async (id?: number) => {
+  const items = await loadOutbox();
+  for (const item of items) {
+    if (id !== undefined && item.id !== id) continue;
+    await putOutboxItem({ ...item, status: 'PENDING', nextAttemptAt: 0 });
+  }
+};
+
+const getRetryDelay = (attempts: number) => Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+
+// fetch 자체가 실패한 경우는 연결이 돌아올 때까지 순서를 지켜 대기
+const isNetworkError = (message: string) =>
+  !navigator.onLine || /fetch|network|timeout|load failed/i.test(message);
+
+// 항목이 건드리는 레코드 (테이블:id). 추가 전용 테이블은 순서와 무관하므로 제외
+const getRecordKeys = (item: OutboxItem): string[] => item.ops.flatMap(op => {
+  if (op.kind === 'upsert') return op.ignoreDuplicates ? [] : op.rows.map(row => `${op.table}:${row.id ?? row.exam_id}`);
+  return [`${op.table}:${op.match.id ?? op.match.exam_id}`];
+});
+
+// 앞선 실패 항목과 같은 레코드를 건드려 보류 중인 항목 (실패 항목을 재시도·삭제할 때까지 전송하지 않음)
+export const getHeldOutboxIds = (items: OutboxItem[]): Set<number> => {
+  const heldKeys = new Set<string>();
+  const held = new Set<number>();
+  items.forEach(item => {
+    const keys = getRecordKeys(item);
+    const isHeld = item.status === 'PENDING' && keys.some(key => heldKeys.has(key));
+    if (isHeld) held.add(item.id);
+    if (isHeld || item.status === 'FAILED') keys.forEach(key => heldKeys.add(key));
+  });
+  return held;
+};
+
+// 로그인 전이거나 세션이 만료된 경우 (익명 요청은 401). 로그인 후 그대로 다시 보냄
+// 로그인한 계정의 권한 부족(403, 42501)은 데이터별 거절이므로 일반 실패로 처리
+const isSessionError = (e: any) => e?.status === 401 || e?.code === 'PGRST301';
+
+// 서버에 저장된 레코드 버전. 버전을 관리하는 테이블(id, updated_at)만 돌려받음
+export interface AckedRow {
+  id: string;
+  updated_at: number | null;
+}
+
+const isVersioned = (values: Record<string, any>) => values.id !== undefined && 'updated_at' in values;
+
+const runOp = async (client: SupabaseClient, op: OutboxOp): Promise<AckedRow[]> => {
+  let result;
+  if (op.kind === 'upsert') {
+    if (op.rows.length === 0) return [];
+    const query = client.from(op.table).upsert(op.rows, op.ignoreDuplicates ? { ignoreDuplicates: true } : undefined);
+    result = isVersioned(op.rows[0]) ? await query.select('id, updated_at') : await query;
+  } else if (op.kind === 'update') {
+    let query = client.from(op.table).update(op.values);
+    Object.entries(op.match).forEach(([column, value]) => { query = query.eq(column, value); });
+    result = isVersioned(op.values) ? await query.select('id, updated_at') : await query;
+  } else {
+    let query = client.from(op.table).delete();
+    Object.entries(op.match).forEach(([column, value]) => { query = query.eq(column, value); });
+    if (op.inColumn) {
+      if (op.inColumn.values.length === 0) return [];
+      query = query.in(op.inColumn.column, op.inColumn.values);
+    }
+    result = await query;
+  }
+  if (result.error) throw Object.assign(result.error, { status: result.status });
+  return (result.data as AckedRow[] | null) || [];
+};
+
+// 대기 중인 변경을 순서대로 전송. 서버가 거절한 항목은 FAILED로 남기고,
+// 같은 레코드를 건드리는 뒤 항목은 보류한 채 다른 레코드의 항목만 진행
+// 전송이 확인된 항목은 onAcked로 서버에 저장된 버전을 알려 줌
+export const processOutbox = async (
+  client: SupabaseClient,
+  force = false,
+  onAcked?: (table: string, rows: AckedRow[]) => void
+): Promise<OutboxRunResult> => {
+  const items = await loadOutbox();
+  const heldKeys = new Set<string>();
+  let schemaMismatch = false;
+
+  for (const item of items) {
+    const keys = getRecordKeys(item);
+    if (item.status === 'FAILED' || keys.some(key => heldKeys.has(key))) {
+      keys.forEach(key => heldKeys.add(key));
+      continue;
+    }
+    if (!force && item.nextAttemptAt > Date.now()) return { nextRetryAt: item.nextAttemptAt, schemaMismatch, authRequired: false };
+
+    try {
+      const acked: { table: string; rows: AckedRow[] }[] = [];
+      for (const op of item.ops) acked.push({ table: op.table, rows: await runOp(client, op) });
+      await removeOutboxItem(item.id);
+      acked.forEach(({ table, rows }) => { if (rows.length > 0) onAcked?.(table, rows); });
+    } catch (e: any) {
+      const message = e?.message || String(e);
+      const attempts = item.attempts + 1;
+      if (isNetworkError(message)) {
+        const nextAttemptAt = Date.now() + getRetryDelay(attempts);
+        await putOutboxItem({ ...item, attempts, nextAttemptAt, lastError: message });
+        return { nextRetryAt: nextAttemptAt, schemaMismatch, authRequired: false };
+      }
+      if (isSessionError(e)) {
+        await putOutboxItem({ ...item, attempts, nextAttemptAt: 0, lastError: message });
+        return { nextRetryAt: null, schemaMismatch, authRequired: true };
+      }
+      console.error("Outbox item rejected:", item.label, e);
+      if (e?.code === 'PGRST204' || message.includes('column')) schemaMismatch = true;
+      await putOutboxItem({ ...item, attempts, status: 'FAILED', lastError: message });
+      keys.forEach(key => heldKeys.add(key));
+    }
+  }
+  return { nextRetryAt: null, schemaMismatch, authRequired: false };
+};
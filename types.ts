@@ -6,16 +6,77 @@ export interface Student {
   phone?: string;
   note?: string;
   createdAt: number;
+  updatedAt?: number; // 마지막 수정 시각 (충돌 감지용 버전)
+  revision?: number;
+}
+
+export type Weekday = 'MON' | 'TUE' | 'WED' | 'THU' | 'FRI' | 'SAT' | 'SUN';
+
+export interface ClassSchedule {
+  day: Weekday;
+  startTime: string; // HH:mm
+  endTime: string;   // HH:mm
+}
+
+export interface ClassGroup {
+  id: string;
+  name: string;
+  teacher?: string;
+  schedule: ClassSchedule[];
+  studentIds: string[];
+  createdAt: number;
+  teacherId?: string; // 담당 선생님 계정 (Supabase Auth user id)
 }
 
 export type ExamType = 'RANKING' | 'VOCAB' | 'WORD_TEST';
+export type ExamStatus = 'DRAFT' | 'FINAL';
+export type RankingMode = 'COMPETITION' | 'DENSE' | 'FRACTIONAL';
+export type GradePreset = 'CSAT_9' | 'ABSOLUTE' | 'CUSTOM';
+export type GradeBasis = 'PERCENT' | 'SCORE';
+
+export interface GradeBand {
+  label: string;  // 예: '1', 'A', '우수'
+  cutoff: number; // PERCENT: 누적 상위 % 상한, SCORE: 최저 점수
+}
+
+export interface GradeScale {
+  preset: GradePreset;
+  basis: GradeBasis;
+  bands: GradeBand[]; // 높은 등급부터 순서대로
+}
+
 export type QuestionType = 'MULTIPLE' | 'SUBJECTIVE';
 
 export interface QuestionConfig {
   number: number;
   type: QuestionType;
-  correctAnswer: string;
+  correctAnswer: string;  // 복수 정답은 ',' 또는 '/'로 구분 (예: "2,4", "color/colour"), 답 안의 구분자는 '\'로 이스케이프 (예: "1\/2")
   point: number;
+  ignoreCase?: boolean;   // 대소문자·공백 차이 무시 (영어 단어 등)
+  allowPartial?: boolean; // 서술형 부분 점수 허용 (0 ~ point)
+  isVoided?: boolean;     // 문항 오류로 전원 정답 처리
+  tags?: string[];        // 영역 (어휘, 문법, 빈칸 등) - 영역별 성취도 집계용
+  bankItemId?: string;    // 문제은행에서 불러온 문항 - 출제 이력·문항 통계 누적용
+}
+
+export type BankDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+// 문제은행 문항: 여러 시험에 재사용하고 출제될 때마다 통계가 누적됨
+export interface BankItem {
+  id: string;
+  stem: string;              // 발문·지문
+  choices?: string[];        // 객관식 선택지 (①~⑤ 순서)
+  type: QuestionType;
+  answer: string;            // QuestionConfig.correctAnswer와 같은 형식
+  point: number;
+  ignoreCase?: boolean;
+  allowPartial?: boolean;
+  explanation?: string;
+  tags?: string[];
+  source?: string;           // 출처 (교재명, 모의고사 회차 등)
+  difficulty?: BankDifficulty; // 출제자 예상 또는 실제 정답률에서 반영한 난이도
+  createdAt: number;
+  updatedAt?: number;
 }
 
 export interface ScoreEntry {
@@ -25,6 +86,19 @@ export interface ScoreEntry {
   studentAnswers?: Record<number, string>; // 문항번호: 학생답안
 }
 
+export interface AIReport {
+  content: string;    // 마크다운
+  dataHash: string;   // 생성 당시 입력 데이터 해시
+  generatedAt: number;
+  isEdited?: boolean; // 선생님이 직접 수정했는지 여부
+}
+
+// 수험번호 → 학생. 인쇄한 답안지와 판독 결과가 같은 학생을 가리키도록 시험에 저장
+export interface OmrRosterAssignment {
+  number: number;
+  studentId: string;
+}
+
 export interface Exam {
   id: string;
   title: string;
@@ -34,8 +108,17 @@ export interface Exam {
   totalQuestions: number;
   questions?: QuestionConfig[]; // 문항별 상세 설정
   targetSchools?: string[];
+  targetClassIds?: string[];
   passThreshold?: number; 
+  rankingMode?: RankingMode; // 기본값: COMPETITION
+  gradeScale?: GradeScale;
+  aiReport?: AIReport;
+  graderIds?: string[]; // 답안 입력을 맡은 채점 도우미 계정
+  status?: ExamStatus; // 없으면 FINAL (초안 도입 이전 시험)
+  omrRoster?: OmrRosterAssignment[]; // OMR 답안지 인쇄 때 고정한 수험번호
   scores: ScoreEntry[];
+  updatedAt?: number; // 마지막 수정 시각 (충돌 감지용 버전)
+  revision?: number;
 }
 
 export interface CalculatedResult {
@@ -44,11 +127,17 @@ export interface CalculatedResult {
   school: string;
   score: number;
   rank: number;
-  percentile: number;
+  percentile: number;     // 상위 % (100 - percentileRank)
+  percentileRank: number; // 백분위 순위: 하위 인원 + 동점자 절반의 비율
+  zScore: number;         // 시험 응시자 전체 기준 (평균 0, 표준편차 1)
+  tScore: number;         // 평균 50, 표준편차 10
+  standardScore: number;  // 수능식 표준점수: 평균 100, 표준편차 20
   schoolRank?: number;
   schoolTotal?: number;
   schoolPercentile?: number;
   isPassed?: boolean;
+  grade?: string;
+  gradeIndex?: number; // 0 = 최상위 등급
   wrongQuestions?: number[];
 }
 
@@ -57,6 +146,11 @@ export interface ExamSummary {
   totalStudents: number;
   highestScore: number;
   lowestScore: number;
+  median: number;
+  standardDeviation: number;
+  q1: number; // 하위 25% 지점
+  q3: number; // 상위 25% 지점
+  skewness: number;
   questionStats?: Record<number, number>; 
 }
 
@@ -64,11 +158,43 @@ export enum ViewMode {
   DASHBOARD = 'DASHBOARD',
   STUDENTS = 'STUDENTS',
   STUDENT_DETAIL = 'STUDENT_DETAIL',
+  CLASSES = 'CLASSES',
   EXAMS = 'EXAMS',
   ANALYTICS = 'ANALYTICS',
+  QUESTION_BANK = 'QUESTION_BANK',
   SETTINGS = 'SETTINGS'
 }
 
+export type UserRole = 'OWNER' | 'TEACHER' | 'GRADER';
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  displayName?: string;
+  role: UserRole;
+}
+
+export type AuditEntity = 'STUDENT' | 'EXAM' | 'SCORE' | 'BACKUP';
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+// 변경 이력 한 건 (추가만 가능, 수정·삭제 없음)
+export interface AuditEntry {
+  id: string;
+  entity: AuditEntity;
+  action: AuditAction;
+  entityId: string;     // 학생 id / 시험 id / 성적은 `${examId}:${studentId}`
+  examId?: string;
+  studentId?: string;
+  summary: string;
+  before?: any;         // 변경 전 스냅샷 (생성이면 없음)
+  after?: any;          // 변경 후 스냅샷 (삭제면 없음)
+  actorId?: string;
+  actor: string;        // 로그인 이메일 또는 '이 기기'
+  deviceId: string;
+  createdAt: number;
+  revertOf?: string;    // 되돌리기로 생긴 기록이면 원래 기록 id
+}
+
 export interface SupabaseConfig {
   url: string;
   anonKey: string;
@@ -0,0 +1,68 @@
+
+import { Student, Exam, ExamSummary, CalculatedResult } from "../types.ts";
+import { calculateExamResults, getExamSummary, getSchoolBreakdown } from "./gradingUtils.ts";
+import { AIInsightDetails } from "../services/geminiService.ts";
+
+const CACHE_KEY = 'ai_report_cache';
+const CACHE_LIMIT = 50;
+
+export interface AIReportInput {
+  summary: ExamSummary;
+  results: CalculatedResult[];
+  details: AIInsightDetails;
+  dataHash: string;
+}
+
+// djb2 해시 (캐시 키 용도로 충분)
+export const hashString = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const buildAIReportInput = (exam: Exam, students: Student[]): AIReportInput => {
+  const results = calculateExamResults(exam, students);
+  const summary = getExamSummary(results, exam.totalQuestions);
+  const total = results.length;
+
+  const details: AIInsightDetails = {
+    questionWrongRates: exam.type === 'WORD_TEST'
+      ? []
+      : Array.from({ length: exam.totalQuestions }, (_, i) => ({
+          number: i + 1,
+          wrongRate: total > 0 ? ((summary.questionStats?.[i + 1] || 0) / total) * 100 : 0
+        })),
+    schoolStats: getSchoolBreakdown(results)
+  };
+
+  // 프롬프트에 들어가는 값만 해시 → 데이터가 같으면 같은 키
+  const dataHash = hashString(JSON.stringify([
+    exam.title,
+    summary,
+    details,
+    results.map(r => r.score)
+  ]));
+
+  return { summary, results, details, dataHash };
+};
+
+const readCache = (): Record<string, { content: string; savedAt: number }> => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const getCachedAIReport = (examId: string, dataHash: string): string | null =>
+  readCache()[`${examId}:${dataHash}`]?.content ?? null;
+
+export const setCachedAIReport = (examId: string, dataHash: string, content: string) => {
+  const cache = readCache();
+  cache[`${examId}:${dataHash}`] = { content, savedAt: Date.now() };
+  // 오래된 항목부터 정리
+  const entries = Object.entries(cache).sort((a, b) => b[1].savedAt - a[1].savedAt).slice(0, CACHE_LIMIT);
+  localStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+};
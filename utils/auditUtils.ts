@@ -0,0 +1,185 @@
+
+import { Student, Exam, ScoreEntry, AuditEntry, AuditAction } from "../types.ts";
+import { diffScores } from "./syncUtils.ts";
+
+// 누가, 어느 기기에서 바꿨는지
+export interface AuditContext {
+  actorId?: string;
+  actor: string;
+  deviceId: string;
+  revertOf?: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: '추가',
+  UPDATE: '수정',
+  DELETE: '삭제'
+};
+
+const STUDENT_FIELD_LABELS: Record<string, string> = {
+  name: '이름',
+  school: '학교',
+  phone: '연락처',
+  note: '메모',
+  createdAt: '등록일'
+};
+
+const EXAM_FIELD_LABELS: Record<string, string> = {
+  title: '제목',
+  date: '날짜',
+  type: '종류',
+  totalQuestions: '문항 수',
+  maxScore: '만점',
+  questions: '정답·배점',
+  passThreshold: '통과 기준',
+  rankingMode: '순위 방식',
+  gradeScale: '등급 기준',
+  targetSchools: '대상 학교',
+  targetClassIds: '대상 반',
+  graderIds: '채점 알바',
+  aiReport: 'AI 리포트',
+  omrRoster: 'OMR 수험번호',
+  status: '상태'
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// 수정 시각·버전은 비교와 스냅샷에서 제외
+const withoutStamp = <T extends { updatedAt?: number; revision?: number }>({ updatedAt, revision, ...rest }: T) => rest;
+
+// 시험 설정만 (성적은 학생별 기록으로 따로 남김)
+export const examMeta = (exam: Exam): Omit<Exam, 'scores' | 'updatedAt' | 'revision'> => {
+  const { scores, ...meta } = withoutStamp(exam);
+  return meta;
+};
+
+const changedFields = (before: Record<string, any>, after: Record<string, any>, labels: Record<string, string>) =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => !same(before[key], after[key]))
+    .map(key => labels[key] || key);
+
+// 성적을 뺀 시험 설정이 바뀌었는지
+export const hasExamMetaChanged = (before: Exam, after: Exam) =>
+  changedFields(examMeta(before), examMeta(after), EXAM_FIELD_LABELS).length > 0;
+
+const createEntry = (
+  ctx: AuditContext,
+  fields: Pick<AuditEntry, 'entity' | 'action' | 'entityId' | 'summary'> & Partial<AuditEntry>
+): AuditEntry => ({
+  id: Math.random().toString(36).substr(2, 9),
+  createdAt: Date.now(),
+  actorId: ctx.actorId,
+  actor: ctx.actor,
+  deviceId: ctx.deviceId,
+  revertOf: ctx.revertOf,
+  ...fields
+});
+
+export const auditStudentChange = (ctx: AuditContext, before?: Student, after?: Student): AuditEntry[] => {
+  if (before && after) {
+    const fields = changedFields(withoutStamp(before), withoutStamp(after), STUDENT_FIELD_LABELS);
+    if (fields.length === 0) return [];
+    return [createEntry(ctx, {
+      entity: 'STUDENT', action: 'UPDATE', entityId: after.id, studentId: after.id,
+      summary: `${after.name} 정보 수정 (${fields.join(', ')})`,
+      before: withoutStamp(before), after: withoutStamp(after)
+    })];
+  }
+  const student = after || before;
+  if (!student) return [];
+  return [createEntry(ctx, {
+    entity: 'STUDENT', action: after ? 'CREATE' : 'DELETE', entityId: student.id, studentId: student.id,
+    summary: `${student.name} ${after ? '등록' : '삭제'}`,
+    before: before && withoutStamp(before), after: after && withoutStamp(after)
+  })];
+};
+
+const describeScoreChange = (before?: ScoreEntry, after?: ScoreEntry) => {
+  if (!before) return `${after!.score}점 입력`;
+  if (!after) return `${before.score}점 기록 삭제`;
+  const questions = Object.keys({ ...before.studentAnswers, ...after.studentAnswers })
+    .map(Number)
+    .filter(q => (before.studentAnswers?.[q] || '') !== (after.studentAnswers?.[q] || ''))
+    .sort((a, b) => a - b);
+  const answers = questions.length > 0 ? ` (${questions.join(', ')}번 답안 변경)` : '';
+  return `${before.score}점 → ${after.score}점${answers}`;
+};
+
+const auditScoreChange = (ctx: AuditContext, exam: Exam, studentName: string, before?: ScoreEntry, after?: ScoreEntry) => {
+  const studentId = (after || before)!.studentId;
+  return createEntry(ctx, {
+    entity: 'SCORE',
+    action: !before ? 'CREATE' : !after ? 'DELETE' : 'UPDATE',
+    entityId: `${exam.id}:${studentId}`,
+    examId: exam.id,
+    studentId,
+    summary: `${studentName} · ${exam.title}: ${describeScoreChange(before, after)}`,
+    before, after
+  });
+};
+
+/**
+ * 시험 변경을 이력으로 변환
+ * - 시험 설정 변경은 한 건, 성적은 학생별로 한 건씩
+ * - 시험 삭제는 성적까지 포함한 스냅샷 한 건 (되돌리면 성적도 복구)
+ */
+export const auditExamChange = (
+  ctx: AuditContext,
+  before: Exam | undefined,
+  after: Exam | undefined,
+  studentName: (id: string) => string
+): AuditEntry[] => {
+  if (!after) {
+    if (!before) return [];
+    return [createEntry(ctx, {
+      entity: 'EXAM', action: 'DELETE', entityId: before.id, examId: before.id,
+      summary: `시험 삭제: ${before.title} (성적 ${before.scores.length}건 포함)`,
+      before: { ...examMeta(before), scores: before.scores }
+    })];
+  }
+
+  const entries: AuditEntry[] = [];
+  if (!before) {
+    entries.push(createEntry(ctx, {
+      entity: 'EXAM', action: 'CREATE', entityId: after.id, examId: after.id,
+      summary: `시험 등록: ${after.title}`,
+      after: examMeta(after)
+    }));
+  } else {
+    const fields = changedFields(examMeta(before), examMeta(after), EXAM_FIELD_LABELS);
+    if (fields.length > 0) {
+      entries.push(createEntry(ctx, {
+        entity: 'EXAM', action: 'UPDATE', entityId: after.id, examId: after.id,
+        summary: `${after.title} 설정 수정 (${fields.join(', ')})`,
+        before: examMeta(before), after: examMeta(after)
+      }));
+    }
+  }
+
+  const previous = new Map((before?.scores || []).map(s => [s.studentId, s]));
+  const { upserts, deletedStudentIds } = diffScores(before?.scores || [], after.scores);
+  upserts.forEach(s => entries.push(auditScoreChange(ctx, after, studentName(s.studentId), previous.get(s.studentId), s)));
+  deletedStudentIds.forEach(id => entries.push(auditScoreChange(ctx, after, studentName(id), previous.get(id), undefined)));
+  return entries;
+};
+
+const BACKUP_DATA_LABELS: Record<string, string> = {
+  students: '학생',
+  exams: '시험',
+  classes: '반',
+  questionBank: '문제은행'
+};
+
+// 백업 복원은 데이터 전체를 바꾸므로 건수 요약 한 건만 남김 (되돌리기 대상 아님)
+export const auditBackupRestore = (ctx: AuditContext, before: Record<string, unknown[]>, after: Record<string, unknown[]>): AuditEntry[] => {
+  const keys = Object.keys(BACKUP_DATA_LABELS);
+  const counts = (data: Record<string, unknown[]>) => Object.fromEntries(keys.map(key => [key, data[key]?.length ?? 0]));
+  const describe = (data: Record<string, number>) => keys.map(key => `${BACKUP_DATA_LABELS[key]} ${data[key]}`).join(' · ');
+  const beforeCounts = counts(before);
+  const afterCounts = counts(after);
+  return [createEntry(ctx, {
+    entity: 'BACKUP', action: 'UPDATE', entityId: 'backup',
+    summary: `백업 복원: ${describe(afterCounts)} (복원 전 ${describe(beforeCounts)})`,
+    before: beforeCounts, after: afterCounts
+  })];
+};
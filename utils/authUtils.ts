@@ -0,0 +1,132 @@
+
+import { UserRole, ClassGroup, Exam } from "../types.ts";
+
+export type TableCommand = 'select' | 'insert' | 'update' | 'delete';
+
+interface PolicyRule {
+  roles: UserRole[];
+  condition?: string; // 추가 SQL 조건 (UI에서는 같은 의미의 검사로 대응)
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  OWNER: '원장',
+  TEACHER: '선생님',
+  GRADER: '채점 알바'
+};
+
+const ALL_ROLES: UserRole[] = ['OWNER', 'TEACHER', 'GRADER'];
+const STAFF: UserRole[] = ['OWNER', 'TEACHER'];
+
+const ASSIGNED_EXAM = `grader_ids ? auth.uid()::text`;
+const ASSIGNED_SCORE = `EXISTS (SELECT 1 FROM exams e WHERE e.id = exam_id AND e.grader_ids ? auth.uid()::text)`;
+const OWN_CLASS = `teacher_id = auth.uid()::text`;
+const OWN_ENTRY = `actor_id = auth.uid()::text`;
+
+/**
+ * 역할별 접근 권한표. RLS 정책 SQL과 화면의 버튼 노출 여부가 모두 이 표에서 만들어짐
+ * - 원장: 전체 권한 (학생·시험 삭제는 원장만)
+ * - 선생님: 학생·시험 등록/수정, 자기 반 관리
+ * - 채점 알바: 배정된 시험의 답안 입력만
+ * - 문제은행: 원장·선생님만 (삭제는 원장만)
+ * - 변경 이력: 본인 이름으로 추가만 가능, 수정·삭제 정책 없음
+ */
+export const ACCESS_POLICIES: Record<string, Record<TableCommand, PolicyRule[]>> = {
+  students: {
+    select: [{ roles: ALL_ROLES }],
+    insert: [{ roles: STAFF }],
+    update: [{ roles: STAFF }],
+    delete: [{ roles: ['OWNER'] }]
+  },
+  classes: {
+    select: [{ roles: ALL_ROLES }],
+    insert: [{ roles: STAFF }],
+    update: [{ roles: ['OWNER'] }, { roles: ['TEACHER'], condition: OWN_CLASS }],
+    delete: [{ roles: ['OWNER'] }, { roles: ['TEACHER'], condition: OWN_CLASS }]
+  },
+  exams: {
+    select: [{ roles: STAFF }, { roles: ['GRADER'], condition: ASSIGNED_EXAM }],
+    insert: [{ roles: STAFF }],
+    update: [{ roles: STAFF }],
+    delete: [{ roles: ['OWNER'] }]
+  },
+  exam_scores: {
+    select: [{ roles: STAFF }, { roles: ['GRADER'], condition: ASSIGNED_SCORE }],
+    insert: [{ roles: STAFF }, { roles: ['GRADER'], condition: ASSIGNED_SCORE }],
+    update: [{ roles: STAFF }, { roles: ['GRADER'], condition: ASSIGNED_SCORE }],
+    delete: [{ roles: STAFF }, { roles: ['GRADER'], condition: ASSIGNED_SCORE }]
+  },
+  question_bank: {
+    select: [{ roles: STAFF }],
+    insert: [{ roles: STAFF }],
+    update: [{ roles: STAFF }],
+    delete: [{ roles: ['OWNER'] }]
+  },
+  audit_log: {
+    select: [{ roles: STAFF }, { roles: ['GRADER'], condition: OWN_ENTRY }],
+    insert: [{ roles: ALL_ROLES, condition: OWN_ENTRY }],
+    update: [],
+    delete: []
+  }
+};
+
+const toSqlExpression = (rules: PolicyRule[]) =>
+  rules
+    .map(r => {
+      const roleCheck = `app_role() IN (${r.roles.map(role => `'${role}'`).join(', ')})`;
+      return r.condition ? `(${roleCheck} AND ${r.condition})` : `(${roleCheck})`;
+    })
+    .join(' OR ');
+
+// 권한표로부터 테이블별 RLS 정책 생성 (기존 "Allow All" 정책은 제거, 규칙이 없는 명령은 정책을 만들지 않아 거부됨)
+export const buildAccessPolicySql = (tables: string[]) =>
+  tables.map(table => [
+    `DROP POLICY IF EXISTS "Allow All" ON ${table};`,
+    ...(Object.entries(ACCESS_POLICIES[table]) as [TableCommand, PolicyRule[]][]).map(([command, rules]) => {
+      const name = `${table}_${command}`;
+      if (rules.length === 0) return `DROP POLICY IF EXISTS "${name}" ON ${table};`;
+      const expr = toSqlExpression(rules);
+      const clause = command === 'insert' ? `WITH CHECK (${expr})`
+        : command === 'update' ? `USING (${expr}) WITH CHECK (${expr})`
+        : `USING (${expr})`;
+      return `DROP POLICY IF EXISTS "${name}" ON ${table};\nCREATE POLICY "${name}" ON ${table} FOR ${command.toUpperCase()} TO authenticated ${clause};`;
+    })
+  ].join('\n')).join('\n\n');
+
+export interface Permissions {
+  role: UserRole;
+  canManageStudents: boolean; // 학생 등록·수정
+  canDeleteStudents: boolean;
+  canCreateClasses: boolean;
+  canEditClass: (group: ClassGroup) => boolean;
+  canEditExams: boolean;      // 시험 생성·설정 변경
+  canDeleteExams: boolean;
+  canGradeExam: (exam: Exam) => boolean;
+  canManageBank: boolean;     // 문제은행 등록·수정
+  canDeleteBankItems: boolean;
+  canManageSettings: boolean; // 계정 권한, 전체 전송
+}
+
+const rulesFor = (role: UserRole, table: string, command: TableCommand) =>
+  ACCESS_POLICIES[table][command].filter(r => r.roles.includes(role));
+
+const isUnconditional = (role: UserRole, table: string, command: TableCommand) =>
+  rulesFor(role, table, command).some(r => !r.condition);
+
+export const buildPermissions = (role: UserRole, userId?: string): Permissions => ({
+  role,
+  canManageStudents: isUnconditional(role, 'students', 'update'),
+  canDeleteStudents: isUnconditional(role, 'students', 'delete'),
+  canCreateClasses: isUnconditional(role, 'classes', 'insert'),
+  canEditClass: group => isUnconditional(role, 'classes', 'update')
+    || (rulesFor(role, 'classes', 'update').length > 0 && !!userId && group.teacherId === userId),
+  canEditExams: isUnconditional(role, 'exams', 'update'),
+  canDeleteExams: isUnconditional(role, 'exams', 'delete'),
+  canGradeExam: exam => isUnconditional(role, 'exam_scores', 'update')
+    || (rulesFor(role, 'exam_scores', 'update').length > 0 && !!userId && !!exam.graderIds?.includes(userId)),
+  canManageBank: isUnconditional(role, 'question_bank', 'update'),
+  canDeleteBankItems: isUnconditional(role, 'question_bank', 'delete'),
+  canManageSettings: role === 'OWNER'
+});
+
+// 로컬 모드 / 로그인 도입 이전 DB는 기존처럼 모든 기능 사용
+export const FULL_ACCESS = buildPermissions('OWNER');
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { BankItem } from '../types.ts';
+import { BackupData, applyBackup, createBackup, diffBackup, parseBackup } from './backupUtils.ts';
+
+const bankItem = (id: string, stem: string, updatedAt?: number): BankItem =>
+  ({ id, stem, type: 'MULTIPLE', answer: '3', point: 2, createdAt: 0, updatedAt });
+
+const data = (questionBank: BankItem[]): BackupData =>
+  ({ students: [], exams: [], classes: [], questionBank, settings: {} });
+
+describe('question bank in backups', () => {
+  it('round-trips the bank through a backup file', async () => {
+    const archive = await createBackup(data([bankItem('b1', '다음 중 옳은 것은?')]));
+    const parsed = await parseBackup(JSON.stringify(archive));
+    expect(parsed.data.questionBank).toEqual([bankItem('b1', '다음 중 옳은 것은?')]);
+  });
+
+  it('still reads v1 backups written before the bank existed', async () => {
+    const { questionBank, ...v1Data } = data([]);
+    const archive = { ...(await createBackup(v1Data as BackupData)), version: 1 };
+    const parsed = await parseBackup(JSON.stringify(archive));
+    expect(parsed.data.questionBank).toEqual([]);
+  });
+
+  it('rejects a file whose bank was edited after export', async () => {
+    const archive = await createBackup(data([bankItem('b1', '원래 발문')]));
+    archive.data.questionBank[0].stem = '바뀐 발문';
+    await expect(parseBackup(JSON.stringify(archive))).rejects.toThrow('체크섬');
+  });
+
+  it('diffs, merges and replaces bank items like other records', () => {
+    const current = { students: [], exams: [], classes: [], questionBank: [bankItem('b1', '기기 수정본', 200), bankItem('b2', '기기에만')] };
+    const incoming = data([bankItem('b1', '백업본', 100), bankItem('b3', '백업에만')]);
+
+    expect(diffBackup(current, incoming).questionBank).toEqual({ added: ['백업에만'], changed: ['백업본'], unchanged: 0, missing: ['기기에만'] });
+    expect(applyBackup(current, incoming, 'MERGE').questionBank.map(b => b.stem)).toEqual(['기기 수정본', '기기에만', '백업에만']);
+    expect(applyBackup(current, incoming, 'REPLACE').questionBank.map(b => b.stem)).toEqual(['백업본', '백업에만']);
+  });
+});
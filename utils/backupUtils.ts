@@ -0,0 +1,136 @@
+
+import { Student, Exam, ClassGroup, BankItem, SupabaseConfig } from "../types.ts";
+import { downloadBlob } from "./exportUtils.ts";
+
+const BACKUP_FORMAT = 'twotop-backup';
+export const BACKUP_VERSION = 2; // v2: 문제은행 포함
+
+export type RestoreMode = 'MERGE' | 'REPLACE';
+
+export interface BackupData {
+  students: Student[];
+  exams: Exam[];
+  classes: ClassGroup[];
+  questionBank: BankItem[];
+  settings: {
+    supabaseConfig?: SupabaseConfig | null;
+  };
+}
+
+// 복원·비교 대상 (설정 제외)
+export type BackupContent = Omit<BackupData, 'settings'>;
+
+export interface BackupArchive {
+  format: string;
+  version: number;
+  createdAt: number;
+  checksum: string; // sha256:<hex> (data 직렬화 기준)
+  data: BackupData;
+}
+
+export interface EntityDiff {
+  added: string[];     // 백업에만 있음
+  changed: string[];   // 양쪽에 있고 내용이 다름
+  unchanged: number;
+  missing: string[];   // 현재 기기에만 있음 (교체 시 삭제됨)
+}
+
+export interface BackupDiff {
+  students: EntityDiff;
+  exams: EntityDiff;
+  classes: EntityDiff;
+  questionBank: EntityDiff;
+}
+
+const computeChecksum = async (data: BackupData) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `sha256:${hex}`;
+};
+
+export const createBackup = async (data: BackupData): Promise<BackupArchive> => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: Date.now(),
+  checksum: await computeChecksum(data),
+  data
+});
+
+export const downloadBackup = (archive: BackupArchive) => {
+  const date = new Date(archive.createdAt).toISOString().slice(0, 10);
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `twotop-backup_${date}.json`);
+};
+
+const isRecordList = (value: unknown, required: string[]) =>
+  Array.isArray(value) && value.every(item => item && typeof item === 'object' && required.every(key => key in item));
+
+// 백업 파일 검증: 형식, 버전, 체크섬, 필수 필드
+export const parseBackup = async (text: string): Promise<BackupArchive> => {
+  let archive: any;
+  try {
+    archive = JSON.parse(text);
+  } catch (e) {
+    throw new Error('JSON 파일이 아니거나 손상되었습니다.');
+  }
+  if (archive?.format !== BACKUP_FORMAT) throw new Error('TwoTop 백업 파일이 아닙니다.');
+  if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+    throw new Error(`지원하지 않는 백업 버전입니다. (파일 v${archive.version}, 앱 v${BACKUP_VERSION}) 앱을 업데이트하세요.`);
+  }
+  const data = archive.data;
+  if (!data || !isRecordList(data.students, ['id', 'name']) || !isRecordList(data.exams, ['id', 'title', 'scores'])
+    || !isRecordList(data.classes, ['id', 'name', 'studentIds'])
+    || (data.questionBank !== undefined && !isRecordList(data.questionBank, ['id', 'stem', 'type', 'answer', 'point']))) {
+    throw new Error('백업 데이터 구조가 올바르지 않습니다.');
+  }
+  if (await computeChecksum(data) !== archive.checksum) {
+    throw new Error('체크섬이 일치하지 않습니다. 파일이 수정되었거나 손상되었습니다.');
+  }
+  // v1 백업에는 문제은행이 없음 (체크섬은 파일 그대로 검증한 뒤 채움)
+  return { ...archive, data: { ...data, questionBank: data.questionBank || [], settings: data.settings || {} } };
+};
+
+const diffEntities = <T extends { id: string }>(current: T[], incoming: T[], label: (item: T) => string): EntityDiff => {
+  const currentMap = new Map(current.map(c => [c.id, c]));
+  const incomingIds = new Set(incoming.map(i => i.id));
+  const diff: EntityDiff = { added: [], changed: [], unchanged: 0, missing: [] };
+  incoming.forEach(item => {
+    const existing = currentMap.get(item.id);
+    if (!existing) diff.added.push(label(item));
+    else if (JSON.stringify(existing) !== JSON.stringify(item)) diff.changed.push(label(item));
+    else diff.unchanged++;
+  });
+  current.forEach(item => {
+    if (!incomingIds.has(item.id)) diff.missing.push(label(item));
+  });
+  return diff;
+};
+
+export const diffBackup = (current: BackupContent, incoming: BackupData): BackupDiff => ({
+  students: diffEntities(current.students, incoming.students, s => s.name),
+  exams: diffEntities(current.exams, incoming.exams, e => `${e.title} (${e.date})`),
+  classes: diffEntities(current.classes, incoming.classes, c => c.name),
+  questionBank: diffEntities(current.questionBank, incoming.questionBank, b => b.stem.length > 20 ? `${b.stem.slice(0, 20)}…` : b.stem)
+});
+
+// 병합: id 기준 합집합. 양쪽에 있으면 수정 시각이 더 최근인 쪽, 알 수 없으면 백업 쪽 사용
+const mergeEntities = <T extends { id: string; updatedAt?: number }>(current: T[], incoming: T[]): T[] => {
+  const merged = new Map(current.map(c => [c.id, c]));
+  incoming.forEach(item => {
+    const existing = merged.get(item.id);
+    if (existing?.updatedAt && item.updatedAt && existing.updatedAt > item.updatedAt) return;
+    merged.set(item.id, item);
+  });
+  return Array.from(merged.values());
+};
+
+export const applyBackup = (current: BackupContent, incoming: BackupData, mode: RestoreMode): BackupContent =>
+  mode === 'REPLACE'
+    ? { students: incoming.students, exams: incoming.exams, classes: incoming.classes, questionBank: incoming.questionBank }
+    : {
+        students: mergeEntities(current.students, incoming.students),
+        exams: mergeEntities(current.exams, incoming.exams),
+        classes: mergeEntities(current.classes, incoming.classes),
+        questionBank: mergeEntities(current.questionBank, incoming.questionBank)
+      };
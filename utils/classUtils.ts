@@ -0,0 +1,45 @@
+
+import { ClassGroup, CalculatedResult, Weekday } from "../types.ts";
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MON: '월',
+  TUE: '화',
+  WED: '수',
+  THU: '목',
+  FRI: '금',
+  SAT: '토',
+  SUN: '일'
+};
+
+export const WEEKDAYS: Weekday[] = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+
+// 선택된 반들의 학생 id 합집합 (선택이 없으면 null = 필터 없음)
+export const getClassMemberIds = (classes: ClassGroup[], classIds: string[]): Set<string> | null => {
+  if (classIds.length === 0) return null;
+  const ids = new Set<string>();
+  classes
+    .filter(c => classIds.includes(c.id))
+    .forEach(c => c.studentIds.forEach(id => ids.add(id)));
+  return ids;
+};
+
+export const filterResultsByClass = (
+  results: CalculatedResult[],
+  classes: ClassGroup[],
+  classId: string
+): CalculatedResult[] => {
+  if (!classId || classId === 'all') return results;
+  const memberIds = getClassMemberIds(classes, [classId]);
+  return memberIds ? results.filter(r => memberIds.has(r.studentId)) : results;
+};
+
+export const getStudentClasses = (classes: ClassGroup[], studentId: string): ClassGroup[] => {
+  return classes.filter(c => c.studentIds.includes(studentId));
+};
+
+export const formatSchedule = (group: ClassGroup): string => {
+  if (!group.schedule || group.schedule.length === 0) return '시간표 미정';
+  return group.schedule
+    .map(s => `${WEEKDAY_LABELS[s.day]} ${s.startTime}~${s.endTime}`)
+    .join(', ');
+};
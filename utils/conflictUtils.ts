@@ -0,0 +1,198 @@
+
+import { Student, Exam, ScoreEntry } from "../types.ts";
+
+export type MergeSide = 'LOCAL' | 'CLOUD';
+
+interface Versioned {
+  id: string;
+  updatedAt?: number;
+  revision?: number;
+}
+
+// 레코드별로 마지막으로 서버와 일치했던 버전(updatedAt)을 기록
+export interface SyncBase {
+  students: Record<string, number>;
+  exams: Record<string, number>;
+}
+
+export interface RecordConflict<T> {
+  local: T;
+  cloud: T;
+}
+
+export interface SyncConflicts {
+  students: RecordConflict<Student>[];
+  exams: RecordConflict<Exam>[];
+}
+
+export interface ReconcileResult<T> {
+  merged: T[];
+  conflicts: RecordConflict<T>[];
+  base: Record<string, number>;
+}
+
+export interface FieldDiff {
+  key: string;
+  label: string;
+  local: string;
+  cloud: string;
+}
+
+export interface ScoreDiffRow {
+  studentId: string;
+  local?: ScoreEntry;
+  cloud?: ScoreEntry;
+}
+
+const SYNC_BASE_KEY = 'sync_base';
+
+export const loadSyncBase = (): SyncBase => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SYNC_BASE_KEY) || '{}');
+    return { students: saved.students || {}, exams: saved.exams || {} };
+  } catch (e) {
+    return { students: {}, exams: {} };
+  }
+};
+
+export const saveSyncBase = (base: SyncBase) => localStorage.setItem(SYNC_BASE_KEY, JSON.stringify(base));
+
+// 로컬에서 수정할 때마다 버전 갱신
+export const stampRecord = <T extends Versioned>(record: T, previous?: Versioned): T => ({
+  ...record,
+  updatedAt: Date.now(),
+  revision: Math.max(previous?.revision ?? 0, record.revision ?? 0) + 1
+});
+
+const STUDENT_FIELDS: { key: keyof Student; label: string }[] = [
+  { key: 'name', label: '이름' },
+  { key: 'school', label: '학교' },
+  { key: 'phone', label: '연락처' },
+  { key: 'note', label: '메모' }
+];
+
+const EXAM_FIELDS: { key: keyof Exam; label: string }[] = [
+  { key: 'title', label: '시험명' },
+  { key: 'date', label: '날짜' },
+  { key: 'type', label: '유형' },
+  { key: 'maxScore', label: '만점' },
+  { key: 'totalQuestions', label: '문항 수' },
+  { key: 'questions', label: '문항 설정' },
+  { key: 'targetSchools', label: '대상 학교' },
+  { key: 'targetClassIds', label: '대상 반' },
+  { key: 'passThreshold', label: '통과 기준' },
+  { key: 'rankingMode', label: '석차 방식' },
+  { key: 'gradeScale', label: '등급 기준' },
+  { key: 'aiReport', label: 'AI 리포트' },
+  { key: 'omrRoster', label: 'OMR 수험번호' },
+  { key: 'status', label: '상태' }
+];
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value !== 'object') return String(value);
+  const json = JSON.stringify(value);
+  return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+};
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const diffFields = <T>(fields: { key: keyof T; label: string }[], local: T, cloud: T): FieldDiff[] =>
+  fields
+    .filter(f => !sameValue(local[f.key], cloud[f.key]))
+    .map(f => ({ key: String(f.key), label: f.label, local: formatValue(local[f.key]), cloud: formatValue(cloud[f.key]) }));
+
+export const diffStudentFields = (local: Student, cloud: Student) => diffFields(STUDENT_FIELDS, local, cloud);
+
+export const diffExamFields = (local: Exam, cloud: Exam) => diffFields(EXAM_FIELDS, local, cloud);
+
+export const diffExamScores = (local: Exam, cloud: Exam): ScoreDiffRow[] => {
+  const localMap = new Map(local.scores.map(s => [s.studentId, s]));
+  const cloudMap = new Map(cloud.scores.map(s => [s.studentId, s]));
+  const ids = Array.from(new Set([...localMap.keys(), ...cloudMap.keys()]));
+  return ids
+    .filter(id => !sameValue(localMap.get(id), cloudMap.get(id)))
+    .map(id => ({ studentId: id, local: localMap.get(id), cloud: cloudMap.get(id) }));
+};
+
+const hasDifferences = {
+  student: (local: Student, cloud: Student) => diffStudentFields(local, cloud).length > 0,
+  exam: (local: Exam, cloud: Exam) => diffExamFields(local, cloud).length > 0 || diffExamScores(local, cloud).length > 0
+};
+
+/**
+ * 로컬/서버 레코드를 기준 버전과 비교해 병합.
+ * - 로컬만 바뀜: 로컬 유지 (전송 대기열이 서버에 반영)
+ * - 서버만 바뀜 (또는 버전 정보 없는 예전 데이터): 서버 값 사용
+ * - 양쪽 모두 바뀌고 내용이 다름: 충돌로 보고하고 결정 전까지 로컬 유지
+ */
+const reconcileRecords = <T extends Versioned>(
+  local: T[],
+  cloud: T[],
+  base: Record<string, number>,
+  isDifferent: (local: T, cloud: T) => boolean
+): ReconcileResult<T> => {
+  const nextBase = { ...base };
+  const conflicts: RecordConflict<T>[] = [];
+  const cloudMap = new Map(cloud.map(c => [c.id, c]));
+  const merged = local.map(l => {
+    const c = cloudMap.get(l.id);
+    if (!c) return l;
+    cloudMap.delete(l.id);
+
+    const baseStamp = base[l.id];
+    const localChanged = l.updatedAt !== undefined && l.updatedAt !== baseStamp;
+    const cloudChanged = c.updatedAt !== baseStamp;
+    if (l.updatedAt === c.updatedAt || !localChanged || !isDifferent(l, c)) {
+      if (c.updatedAt !== undefined) nextBase[c.id] = c.updatedAt;
+      return c;
+    }
+    if (cloudChanged) conflicts.push({ local: l, cloud: c });
+    return l;
+  });
+  cloudMap.forEach(c => {
+    merged.push(c);
+    if (c.updatedAt !== undefined) nextBase[c.id] = c.updatedAt;
+  });
+  return { merged, conflicts, base: nextBase };
+};
+
+export const reconcileStudents = (local: Student[], cloud: Student[], base: Record<string, number>) =>
+  reconcileRecords(local, cloud, base, hasDifferences.student);
+
+export const reconcileExams = (local: Exam[], cloud: Exam[], base: Record<string, number>) =>
+  reconcileRecords(local, cloud, base, hasDifferences.exam);
+
+// 병합 결과 중 로컬 값이 유지된 레코드(로컬에서만 바뀜 또는 서버에 없음)만 골라 전송 대상으로 사용
+export const selectLocalUploads = <T extends Versioned>(local: T[], result: ReconcileResult<T>): T[] => {
+  const localSet = new Set(local);
+  const conflictIds = new Set(result.conflicts.map(c => c.local.id));
+  return result.merged.filter(r => localSet.has(r) && !conflictIds.has(r.id));
+};
+
+const pickFields = <T>(local: T, cloud: T, choices: Record<string, MergeSide>): T => {
+  const merged = { ...cloud };
+  Object.entries(choices).forEach(([key, side]) => {
+    if (side === 'LOCAL') (merged as any)[key] = (local as any)[key];
+  });
+  return merged;
+};
+
+export const mergeStudent = (conflict: RecordConflict<Student>, choices: Record<string, MergeSide>): Student =>
+  pickFields(conflict.local, conflict.cloud, choices);
+
+export const mergeExam = (
+  conflict: RecordConflict<Exam>,
+  fieldChoices: Record<string, MergeSide>,
+  scoreChoices: Record<string, MergeSide>
+): Exam => {
+  const merged = pickFields(conflict.local, conflict.cloud, fieldChoices);
+  const scores = new Map(conflict.cloud.scores.map(s => [s.studentId, s]));
+  diffExamScores(conflict.local, conflict.cloud).forEach(row => {
+    if (scoreChoices[row.studentId] !== 'LOCAL') return;
+    if (row.local) scores.set(row.studentId, row.local);
+    else scores.delete(row.studentId);
+  });
+  return { ...merged, scores: Array.from(scores.values()) };
+};
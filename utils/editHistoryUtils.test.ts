@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { QuestionConfig } from '../types.ts';
+import { EMPTY_HISTORY, GridState, applyCommand, createCommand, dropQuestionChanges, pushCommand, stepHistory } from './editHistoryUtils.ts';
+
+const question = (number: number, correctAnswer = ''): QuestionConfig => ({ number, type: 'MULTIPLE', correctAnswer, point: 5 });
+
+const initial: GridState = {
+  questions: [question(1, '3'), question(2, '4')],
+  studentAnswers: { s1: { 1: '3' } },
+  simpleScores: {}
+};
+
+describe('questionSet changes', () => {
+  const bankQuestions = [question(1, '1'), question(2, '2'), question(3, '5')];
+  const command = createCommand('문제은행 구성 (3문항)', [{ kind: 'questionSet', before: initial.questions, after: bankQuestions }])!;
+
+  it('replaces the whole question list, including its length, and undoes back', () => {
+    const applied = applyCommand(initial, command, 'REDO');
+    expect(applied.questions).toEqual(bankQuestions);
+    expect(applied.studentAnswers).toBe(initial.studentAnswers);
+    expect(applyCommand(applied, command, 'UNDO')).toEqual(initial);
+  });
+
+  it('keeps earlier commands on the undo stack', () => {
+    const edit = createCommand('1번 문항 설정', [{ kind: 'question', number: 1, before: question(1, '3'), after: question(1, '2') }])!;
+    const history = pushCommand(pushCommand(EMPTY_HISTORY, edit), command);
+    const undone = stepHistory(history, 'UNDO');
+    expect(undone.command).toBe(command);
+    expect(undone.history.past).toEqual([edit]);
+  });
+
+  it('is dropped along with single-question changes when the questions are regenerated', () => {
+    const answers = createCommand('답안 입력', [{ kind: 'answers', studentId: 's1', before: { 1: '3' }, after: { 1: '2' } }])!;
+    const pruned = dropQuestionChanges(pushCommand(pushCommand(EMPTY_HISTORY, answers), command));
+    expect(pruned.past).toEqual([answers]);
+  });
+});
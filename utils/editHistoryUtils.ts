@@ -0,0 +1,104 @@
+
+import { QuestionConfig } from "../types.ts";
+
+// 시험 입력표에서 되돌릴 수 있는 상태
+export interface GridState {
+  questions: QuestionConfig[];
+  studentAnswers: Record<string, Record<number, string>>;
+  simpleScores: Record<string, number>;
+}
+
+// 명령 하나가 바꾼 값 (앞뒤 값을 모두 담아 양방향으로 적용)
+export type GridChange =
+  | { kind: 'answers'; studentId: string; before?: Record<number, string>; after?: Record<number, string> }
+  | { kind: 'score'; studentId: string; before?: number; after?: number }
+  | { kind: 'question'; number: number; before: QuestionConfig; after: QuestionConfig }
+  | { kind: 'questionSet'; before: QuestionConfig[]; after: QuestionConfig[] }; // 문항 구성 전체 교체 (문항 수가 바뀔 수 있음)
+
+export interface EditCommand {
+  label: string;
+  changes: GridChange[];
+  mergeKey?: string; // 같은 칸을 연달아 입력하면 한 명령으로 합침
+  at: number;
+}
+
+export interface EditHistory {
+  past: EditCommand[];
+  future: EditCommand[];
+}
+
+export type HistoryDirection = 'UNDO' | 'REDO';
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+const MAX_HISTORY = 200;
+const MERGE_WINDOW_MS = 1000;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const isNoop = (change: GridChange) => same(change.before, change.after);
+
+const withEntry = <T>(map: Record<string, T>, key: string, value: T | undefined) => {
+  const next = { ...map };
+  if (value === undefined) delete next[key];
+  else next[key] = value;
+  return next;
+};
+
+// 명령을 상태에 적용. 되돌리기는 각 변경의 before 값을 역순으로 적용
+export const applyCommand = (state: GridState, command: EditCommand, direction: HistoryDirection): GridState => {
+  const changes = direction === 'UNDO' ? [...command.changes].reverse() : command.changes;
+  return changes.reduce<GridState>((acc, change) => {
+    if (change.kind === 'answers') {
+      const value = direction === 'UNDO' ? change.before : change.after;
+      return { ...acc, studentAnswers: withEntry(acc.studentAnswers, change.studentId, value) };
+    }
+    if (change.kind === 'score') {
+      const value = direction === 'UNDO' ? change.before : change.after;
+      return { ...acc, simpleScores: withEntry(acc.simpleScores, change.studentId, value) };
+    }
+    if (change.kind === 'questionSet') {
+      return { ...acc, questions: direction === 'UNDO' ? change.before : change.after };
+    }
+    const config = direction === 'UNDO' ? change.before : change.after;
+    return { ...acc, questions: acc.questions.map(q => q.number === change.number ? config : q) };
+  }, state);
+};
+
+export const createCommand = (label: string, changes: GridChange[], mergeKey?: string): EditCommand | null => {
+  const effective = changes.filter(c => !isNoop(c));
+  return effective.length > 0 ? { label, changes: effective, mergeKey, at: Date.now() } : null;
+};
+
+// 새 명령을 기록 (다시 실행 목록은 비움). 같은 칸 연속 입력은 처음 값만 남기고 합침
+export const pushCommand = (history: EditHistory, command: EditCommand): EditHistory => {
+  const last = history.past[history.past.length - 1];
+  if (last && command.mergeKey && last.mergeKey === command.mergeKey && command.at - last.at < MERGE_WINDOW_MS) {
+    const merged: EditCommand = {
+      ...command,
+      changes: command.changes.map((c, i) => ({ ...c, before: last.changes[i]?.before } as GridChange))
+    };
+    const past = history.past.slice(0, -1);
+    return { past: merged.changes.every(isNoop) ? past : [...past, merged], future: [] };
+  }
+  return { past: [...history.past, command].slice(-MAX_HISTORY), future: [] };
+};
+
+export const stepHistory = (history: EditHistory, direction: HistoryDirection): { history: EditHistory; command: EditCommand | null } => {
+  if (direction === 'UNDO') {
+    const command = history.past[history.past.length - 1];
+    if (!command) return { history, command: null };
+    return { history: { past: history.past.slice(0, -1), future: [command, ...history.future] }, command };
+  }
+  const command = history.future[0];
+  if (!command) return { history, command: null };
+  return { history: { past: [...history.past, command], future: history.future.slice(1) }, command };
+};
+
+// 문항 구성이 새로 만들어지면 이전 문항 설정 변경은 의미가 없어지므로 제거
+export const dropQuestionChanges = (history: EditHistory): EditHistory => {
+  const prune = (list: EditCommand[]) => list
+    .map(c => ({ ...c, changes: c.changes.filter(ch => ch.kind !== 'question' && ch.kind !== 'questionSet') }))
+    .filter(c => c.changes.length > 0);
+  return { past: prune(history.past), future: prune(history.future) };
+};
@@ -0,0 +1,137 @@
+
+import * as XLSX from 'xlsx';
+import { Exam, CalculatedResult } from "../types.ts";
+import { getSchoolBreakdown, getExamSummary } from "./gradingUtils.ts";
+import { formatAnswerKey } from "./scoringUtils.ts";
+
+type Cell = string | number;
+
+const passLabel = (res: CalculatedResult) =>
+  res.isPassed === undefined ? '' : res.isPassed ? 'PASS' : 'FAIL';
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'exam';
+
+// 엑셀 시트 이름 규칙: 31자 이내, 특수문자 불가, 중복 불가
+const safeSheetName = (name: string, used: Set<string>) => {
+  const base = name.replace(/[\[\]:*?/\\]/g, '_').slice(0, 28) || 'Sheet';
+  let candidate = base;
+  let n = 2;
+  while (used.has(candidate)) candidate = `${base}_${n++}`;
+  used.add(candidate);
+  return candidate;
+};
+
+export const buildResultRows = (exam: Exam, results: CalculatedResult[]): Cell[][] => {
+  const questionNums = (exam.questions || []).map(q => q.number);
+  const answerMap = new Map(exam.scores.map(s => [s.studentId, s.studentAnswers || {}]));
+
+  const header: Cell[] = [
+    '전체 순위', '이름', '학교', '점수', '학교 순위', '학교 인원', '상위 %', '백분위',
+    ...(exam.gradeScale ? ['등급'] : []),
+    '통과 여부', '오답 문항',
+    ...questionNums.map(n => `Q${n}`)
+  ];
+
+  const rows = results.map(res => {
+    const answers = answerMap.get(res.studentId) || {};
+    return [
+      res.rank,
+      res.name,
+      res.school,
+      res.score,
+      res.schoolRank ?? '',
+      res.schoolTotal ?? '',
+      Number(res.percentile.toFixed(1)),
+      Number(res.percentileRank.toFixed(1)),
+      ...(exam.gradeScale ? [res.grade ?? ''] : []),
+      passLabel(res),
+      (res.wrongQuestions || []).join(', '),
+      ...questionNums.map(n => answers[n] ?? '')
+    ];
+  });
+
+  return [header, ...rows];
+};
+
+export const buildItemStatRows = (exam: Exam, results: CalculatedResult[]): Cell[][] => {
+  const questions = exam.questions || [];
+  const summary = getExamSummary(results, exam.totalQuestions);
+  const total = results.length;
+
+  const header: Cell[] = ['문항', '유형', '정답', '배점', '오답 수', '정답률(%)', '답안 분포'];
+  const rows = questions.map(q => {
+    const distribution: Record<string, number> = {};
+    exam.scores.forEach(s => {
+      const ans = (s.studentAnswers?.[q.number] || '').trim() || '(미기입)';
+      distribution[ans] = (distribution[ans] || 0) + 1;
+    });
+    const wrong = summary.questionStats?.[q.number] || 0;
+    return [
+      q.number,
+      q.type === 'MULTIPLE' ? '객관식' : '서술형',
+      formatAnswerKey(q),
+      q.point,
+      wrong,
+      total > 0 ? Number((((total - wrong) / total) * 100).toFixed(1)) : 0,
+      Object.entries(distribution)
+        .sort((a, b) => b[1] - a[1])
+        .map(([ans, count]) => `${ans}: ${count}`)
+        .join(' / ')
+    ];
+  });
+
+  return [header, ...rows];
+};
+
+const escapeCsvCell = (value: Cell) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const exportResultsToCsv = (exam: Exam, results: CalculatedResult[]) => {
+  const csv = buildResultRows(exam, results)
+    .map(row => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+  // BOM을 붙여야 엑셀에서 한글이 깨지지 않음
+  downloadBlob(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), `${safeFileName(exam.title)}_결과.csv`);
+};
+
+export const exportResultsToXlsx = (exam: Exam, results: CalculatedResult[]) => {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+  const resultRows = buildResultRows(exam, results);
+
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(resultRows), safeSheetName('전체 결과', usedNames));
+
+  const schoolStats = getSchoolBreakdown(results);
+  const schoolSummaryRows: Cell[][] = [
+    ['학교', '응시 인원', '평균', '최고점'],
+    ...schoolStats.map(s => [s.schoolName, s.studentCount, Number(s.average.toFixed(2)), s.highestScore])
+  ];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(schoolSummaryRows), safeSheetName('학교별 요약', usedNames));
+
+  schoolStats.forEach(stat => {
+    const schoolResults = results
+      .filter(r => r.school === stat.schoolName)
+      .sort((a, b) => (a.schoolRank ?? 0) - (b.schoolRank ?? 0));
+    const rows = buildResultRows(exam, schoolResults);
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), safeSheetName(stat.schoolName, usedNames));
+  });
+
+  if (exam.type !== 'WORD_TEST' && exam.questions && exam.questions.length > 0) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(buildItemStatRows(exam, results)), safeSheetName('문항 통계', usedNames));
+  }
+
+  XLSX.writeFile(workbook, `${safeFileName(exam.title)}_결과.xlsx`);
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { Exam, RankingMode } from '../types.ts';
+import { assignGrade, calculateExamResults, createGradeScale, standardizeScore } from './gradingUtils.ts';
+
+const exam = (scores: number[], extra: Partial<Exam> = {}): Exam => ({
+  id: 'e1', title: '석차', date: '2026-03-01', type: 'RANKING', totalQuestions: 20, maxScore: 100,
+  scores: scores.map((score, i) => ({ studentId: `s${i + 1}`, score, wrongQuestions: [] })),
+  ...extra
+});
+
+const ranksFor = (rankingMode: RankingMode) =>
+  calculateExamResults(exam([80, 90, 70, 80], { rankingMode }), []).map(r => r.rank);
+
+describe('calculateExamResults ranking', () => {
+  it('ranks ties 1-2-2-4 in competition mode (default)', () => {
+    expect(ranksFor('COMPETITION')).toEqual([1, 2, 2, 4]);
+    expect(calculateExamResults(exam([80, 90, 70, 80]), []).map(r => r.rank)).toEqual([1, 2, 2, 4]);
+  });
+
+  it('ranks ties 1-2-2-3 in dense mode', () => {
+    expect(ranksFor('DENSE')).toEqual([1, 2, 2, 3]);
+  });
+
+  it('ranks ties 1-2.5-2.5-4 in fractional mode', () => {
+    expect(ranksFor('FRACTIONAL')).toEqual([1, 2.5, 2.5, 4]);
+  });
+
+  it('counts half of the tied students in the percentile rank', () => {
+    const results = calculateExamResults(exam([80, 90, 70, 80]), []);
+    // 90: (3 + 0.5) / 4, 80: (1 + 2/2) / 4, 70: (0 + 0.5) / 4
+    expect(results.map(r => r.percentileRank)).toEqual([87.5, 50, 50, 12.5]);
+    expect(results.map(r => r.percentile)).toEqual([12.5, 50, 50, 87.5]);
+  });
+});
+
+describe('assignGrade', () => {
+  const csat = createGradeScale('CSAT_9');
+
+  it('uses cumulative top-% cutoffs with inclusive upper bounds for CSAT bands', () => {
+    expect(assignGrade(csat, 0, 4)?.grade).toBe('1');
+    expect(assignGrade(csat, 0, 4.01)?.grade).toBe('2');
+    expect(assignGrade(csat, 0, 11)?.grade).toBe('2');
+    expect(assignGrade(csat, 0, 11.01)?.grade).toBe('3');
+    expect(assignGrade(csat, 0, 100)).toEqual({ grade: '9', gradeIndex: 8 });
+  });
+
+  it('uses score cutoffs for absolute grading and falls back to the lowest grade', () => {
+    const absolute = createGradeScale('ABSOLUTE');
+    expect(assignGrade(absolute, 90, 50)?.grade).toBe('1');
+    expect(assignGrade(absolute, 89.5, 50)?.grade).toBe('2');
+    expect(assignGrade(absolute, -5, 50)?.grade).toBe('9');
+  });
+
+  it('gives every student in a tie straddling the 4% and 11% boundaries the better grade', () => {
+    // 100명: 1~3위 단독, 4~6위 동점, 7~10위 단독, 11~14위 동점, 이후 단독
+    const scores = [100, 99, 98, 97, 97, 97, 96, 95, 94, 93, 92, 92, 92, 92,
+      ...Array.from({ length: 86 }, (_, i) => 91 - i)];
+    const results = calculateExamResults(exam(scores, { gradeScale: createGradeScale('CSAT_9') }), []);
+    const gradeOf = (score: number) => Array.from(new Set(results.filter(r => r.score === score).map(r => r.grade)));
+
+    // 97점: 앞선 3명 + 1 → 누적 4% (6위까지 포함돼도 1등급)
+    expect(gradeOf(97)).toEqual(['1']);
+    expect(gradeOf(96)).toEqual(['2']);
+    // 92점: 앞선 10명 + 1 → 누적 11% (14위까지 포함돼도 2등급)
+    expect(gradeOf(92)).toEqual(['2']);
+    expect(gradeOf(91)).toEqual(['3']);
+  });
+});
+
+describe('standardizeScore', () => {
+  it('converts to z, T (50 ± 10z) and 표준점수 (100 ± 20z)', () => {
+    expect(standardizeScore(85, 70, 10)).toEqual({ zScore: 1.5, tScore: 65, standardScore: 130 });
+    expect(standardizeScore(60, 70, 10)).toEqual({ zScore: -1, tScore: 40, standardScore: 80 });
+  });
+
+  it('puts everyone at the mean when all scores are equal', () => {
+    expect(standardizeScore(70, 70, 0)).toEqual({ zScore: 0, tScore: 50, standardScore: 100 });
+  });
+
+  it('uses the population SD of the exam in results', () => {
+    // [2,4,4,4,5,5,7,9] 평균 5, 모집단 표준편차 2 → 9점은 z = 2
+    const [top] = calculateExamResults(exam([2, 4, 4, 4, 5, 5, 7, 9]), []);
+    expect(top).toMatchObject({ score: 9, zScore: 2, tScore: 70, standardScore: 140 });
+  });
+});
@@ -1,5 +1,6 @@
 
-import { ScoreEntry, CalculatedResult, ExamSummary, Student, Exam } from "../types.ts";
+import { ScoreEntry, CalculatedResult, ExamSummary, Student, Exam, RankingMode, GradeScale, GradePreset } from "../types.ts";
+import { describeScores } from "./statsUtils.ts";
 
 export interface SchoolStat {
   schoolName: string;
@@ -8,64 +9,198 @@ export interface SchoolStat {
   studentCount: number;
 }
 
+export const RANKING_MODE_LABELS: Record<RankingMode, string> = {
+  COMPETITION: '공동 순위 (1-2-2-4)',
+  DENSE: '연속 순위 (1-2-2-3)',
+  FRACTIONAL: '평균 순위 (1-2.5-2.5-4)'
+};
+
+export interface GradeStat {
+  label: string;
+  count: number;
+  ratio: number;
+}
+
+export const GRADE_PRESET_LABELS: Record<GradePreset, string> = {
+  CSAT_9: '수능 9등급 (상대평가)',
+  ABSOLUTE: '절대평가 (점수 기준)',
+  CUSTOM: '학원 자체 기준'
+};
+
+export type ScoreMetric = 'RAW' | 'Z' | 'T' | 'STANDARD';
+
+export const SCORE_METRIC_LABELS: Record<ScoreMetric, string> = {
+  RAW: '원점수',
+  Z: 'z점수',
+  T: 'T점수',
+  STANDARD: '표준점수'
+};
+
+export interface StandardizedScore {
+  zScore: number;
+  tScore: number;
+  standardScore: number;
+}
+
+// 시험 하나 안에서의 상대 위치. 모두 같은 점수면 평균에 둠
+export const standardizeScore = (score: number, mean: number, standardDeviation: number): StandardizedScore => {
+  const z = standardDeviation > 0 ? (score - mean) / standardDeviation : 0;
+  return { zScore: z, tScore: 50 + 10 * z, standardScore: 100 + 20 * z };
+};
+
+// 차트에 그릴 값 (만점이 다른 시험끼리는 원점수 대신 표준화 점수로 비교)
+export const getScoreMetricValue = (result: CalculatedResult, metric: ScoreMetric) => {
+  if (metric === 'Z') return Number(result.zScore.toFixed(2));
+  if (metric === 'T') return Number(result.tScore.toFixed(1));
+  if (metric === 'STANDARD') return Number(result.standardScore.toFixed(1));
+  return result.score;
+};
+
+// 작성 중인 초안은 통계·분석에서 제외
+export const isFinalizedExam = (exam: Exam) => exam.status !== 'DRAFT';
+
+export const createGradeScale = (preset: GradePreset): GradeScale => {
+  if (preset === 'CSAT_9') {
+    return {
+      preset,
+      basis: 'PERCENT',
+      bands: [4, 11, 23, 40, 60, 77, 89, 96, 100].map((cutoff, i) => ({ label: `${i + 1}`, cutoff }))
+    };
+  }
+  if (preset === 'ABSOLUTE') {
+    return {
+      preset,
+      basis: 'SCORE',
+      bands: [90, 80, 70, 60, 50, 40, 30, 20, 0].map((cutoff, i) => ({ label: `${i + 1}`, cutoff }))
+    };
+  }
+  return {
+    preset,
+    basis: 'PERCENT',
+    bands: [10, 40, 70, 100].map((cutoff, i) => ({ label: `${i + 1}`, cutoff }))
+  };
+};
+
+// cumulativePercent: 동점자를 유리하게 처리한 누적 상위 % ((상위 인원 + 1) / 전체)
+export const assignGrade = (
+  scale: GradeScale,
+  score: number,
+  cumulativePercent: number
+): { grade: string; gradeIndex: number } | undefined => {
+  if (!scale.bands || scale.bands.length === 0) return undefined;
+  const idx = scale.basis === 'PERCENT'
+    ? scale.bands.findIndex(b => cumulativePercent <= b.cutoff)
+    : scale.bands.findIndex(b => score >= b.cutoff);
+  // 어느 구간에도 속하지 않으면 최하위 등급
+  const gradeIndex = idx === -1 ? scale.bands.length - 1 : idx;
+  return { grade: scale.bands[gradeIndex].label, gradeIndex };
+};
+
+interface RankInfo {
+  rank: number;
+  percentileRank: number;
+  aboveCount: number;
+}
+
+// 내림차순 정렬된 점수 배열을 한 번만 순회하며 동점 구간별 석차와 백분위 순위를 계산
+const rankSortedScores = (sortedScores: number[], mode: RankingMode): RankInfo[] => {
+  const total = sortedScores.length;
+  const ranks: RankInfo[] = new Array(total);
+  let denseRank = 0;
+  let start = 0;
+
+  while (start < total) {
+    let end = start;
+    while (end + 1 < total && sortedScores[end + 1] === sortedScores[start]) end++;
+
+    const tieCount = end - start + 1;
+    const belowCount = total - end - 1;
+    denseRank++;
+
+    let rank: number;
+    if (mode === 'DENSE') rank = denseRank;
+    else if (mode === 'FRACTIONAL') rank = (start + 1 + end + 1) / 2;
+    else rank = start + 1;
+
+    // 백분위 순위: 나보다 낮은 인원 + 동점자의 절반
+    const percentileRank = ((belowCount + tieCount / 2) / total) * 100;
+
+    for (let i = start; i <= end; i++) ranks[i] = { rank, percentileRank, aboveCount: start };
+    start = end + 1;
+  }
+
+  return ranks;
+};
+
 export const calculateExamResults = (
   exam: Exam,
   students: Student[]
 ): CalculatedResult[] => {
   const { scores, passThreshold } = exam;
   if (!scores || scores.length === 0) return [];
-  
+
+  const mode = exam.rankingMode || 'COMPETITION';
+  const studentMap = new Map(students.map(s => [s.id, s]));
   const sortedScores = [...scores].sort((a, b) => b.score - a.score);
-  const total = sortedScores.length;
+  const overallRanks = rankSortedScores(sortedScores.map(s => s.score), mode);
+  const { mean, standardDeviation } = describeScores(sortedScores.map(s => s.score));
 
   // 전체 결과 기본 산출
-  const baseResults = sortedScores.map((entry) => {
-    const student = students.find(s => s.id === entry.studentId);
-    const rank = sortedScores.findIndex(s => s.score === entry.score) + 1;
-    const percentile = (rank / total) * 100;
+  const baseResults: CalculatedResult[] = sortedScores.map((entry, idx) => {
+    const student = studentMap.get(entry.studentId);
+    const { rank, percentileRank, aboveCount } = overallRanks[idx];
 
     const isPassed = passThreshold !== undefined && passThreshold !== null 
       ? entry.score >= passThreshold 
       : undefined;
 
+    const gradeInfo = exam.gradeScale
+      ? assignGrade(exam.gradeScale, entry.score, ((aboveCount + 1) / sortedScores.length) * 100)
+      : undefined;
+
     return {
       studentId: entry.studentId,
       name: student?.name || "Unknown",
       school: student?.school || "기타",
       score: entry.score,
       rank,
-      percentile,
+      percentile: 100 - percentileRank,
+      percentileRank,
+      ...standardizeScore(entry.score, mean, standardDeviation),
       isPassed,
+      grade: gradeInfo?.grade,
+      gradeIndex: gradeInfo?.gradeIndex,
       wrongQuestions: entry.wrongQuestions
     };
   });
 
-  // 학교별 석차 추가 계산
-  return baseResults.map(res => {
-    const sameSchoolResults = baseResults
-      .filter(r => r.school === res.school)
-      .sort((a, b) => b.score - a.score);
-    
-    const schoolRank = sameSchoolResults.findIndex(r => r.score === res.score) + 1;
-    const schoolTotal = sameSchoolResults.length;
-    const schoolPercentile = (schoolRank / schoolTotal) * 100;
+  // 학교별 석차 추가 계산 (전체 정렬 순서를 유지한 채 학교별로 묶음)
+  const schoolGroups = new Map<string, number[]>();
+  baseResults.forEach((res, idx) => {
+    const group = schoolGroups.get(res.school);
+    if (group) group.push(idx);
+    else schoolGroups.set(res.school, [idx]);
+  });
 
-    return {
-      ...res,
-      schoolRank,
-      schoolTotal,
-      schoolPercentile
-    };
+  schoolGroups.forEach(indices => {
+    const schoolRanks = rankSortedScores(indices.map(i => baseResults[i].score), mode);
+    indices.forEach((resultIdx, i) => {
+      const res = baseResults[resultIdx];
+      res.schoolRank = schoolRanks[i].rank;
+      res.schoolTotal = indices.length;
+      res.schoolPercentile = 100 - schoolRanks[i].percentileRank;
+    });
   });
+
+  return baseResults;
 };
 
 export const getExamSummary = (results: CalculatedResult[], totalQuestions: number): ExamSummary => {
+  const stats = describeScores(results.map(r => r.score));
+  const { median, standardDeviation, q1, q3, skewness } = stats;
   if (results.length === 0) {
-    return { average: 0, totalStudents: 0, highestScore: 0, lowestScore: 0 };
+    return { average: 0, totalStudents: 0, highestScore: 0, lowestScore: 0, median, standardDeviation, q1, q3, skewness };
   }
-
-  const scores = results.map(r => r.score);
-  const average = scores.reduce((a, b) => a + b, 0) / results.length;
   
   const questionStats: Record<number, number> = {};
   results.forEach(res => {
@@ -75,10 +210,15 @@ export const getExamSummary = (results: CalculatedResult[], totalQuestions: numb
   });
   
   return {
-    average,
+    average: stats.mean,
     totalStudents: results.length,
-    highestScore: Math.max(...scores),
-    lowestScore: Math.min(...scores),
+    highestScore: stats.max,
+    lowestScore: stats.min,
+    median,
+    standardDeviation,
+    q1,
+    q3,
+    skewness,
     questionStats
   };
 };
@@ -98,3 +238,15 @@ export const getSchoolBreakdown = (results: CalculatedResult[]): SchoolStat[] =>
     studentCount: scores.length
   })).sort((a, b) => b.average - a.average);
 };
+
+export const getGradeDistribution = (results: CalculatedResult[], scale: GradeScale): GradeStat[] => {
+  const counts = scale.bands.map(() => 0);
+  results.forEach(res => {
+    if (res.gradeIndex !== undefined && res.gradeIndex < counts.length) counts[res.gradeIndex]++;
+  });
+  return scale.bands.map((band, i) => ({
+    label: band.label,
+    count: counts[i],
+    ratio: results.length > 0 ? (counts[i] / results.length) * 100 : 0
+  }));
+};
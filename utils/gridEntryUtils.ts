@@ -0,0 +1,79 @@
+
+import { QuestionConfig } from "../types.ts";
+import { parseAcceptedAnswers } from "./scoringUtils.ts";
+import { OMR_CHOICES } from "./omrUtils.ts";
+
+// 답안 입력표 좌표: row = 화면에 보이는 학생 순서, col = 문항 순서 (단어 시험은 점수 한 칸)
+export interface GridCell {
+  row: number;
+  col: number;
+}
+
+// 엑셀처럼 기준 칸(anchor)에서 Shift로 늘린 칸(focus)까지
+export interface GridSelection {
+  anchor: GridCell;
+  focus: GridCell;
+}
+
+export interface SelectionBounds {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export const selectionBounds = ({ anchor, focus }: GridSelection): SelectionBounds => ({
+  top: Math.min(anchor.row, focus.row),
+  bottom: Math.max(anchor.row, focus.row),
+  left: Math.min(anchor.col, focus.col),
+  right: Math.max(anchor.col, focus.col)
+});
+
+export const isRangeSelection = (selection: GridSelection | null) =>
+  !!selection && (selection.anchor.row !== selection.focus.row || selection.anchor.col !== selection.focus.col);
+
+export const isCellInSelection = (selection: GridSelection | null, row: number, col: number) => {
+  if (!selection) return false;
+  const b = selectionBounds(selection);
+  return row >= b.top && row <= b.bottom && col >= b.left && col <= b.right;
+};
+
+// 엑셀·구글 시트에서 복사한 범위 (탭 = 열, 줄바꿈 = 행)
+export const parseClipboardGrid = (text: string): string[][] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines.map(line => line.split('\t').map(cell => cell.trim()));
+};
+
+// 정답이 모두 선택지 번호인 객관식 (단어 등 주관식 답은 검사하지 않음)
+export const isChoiceQuestion = (question: QuestionConfig) => {
+  if (question.type !== 'MULTIPLE') return false;
+  const accepted = parseAcceptedAnswers(question.correctAnswer);
+  return accepted.length > 0 && accepted.every(a => OMR_CHOICES.includes(a));
+};
+
+// 붙여넣은 값 정리: 서술형은 1/0, ○/× 도 O/X로 받음 (부분 점수 문항의 숫자는 점수 그대로)
+export const normalizeCellValue = (question: QuestionConfig, raw: string) => {
+  const value = raw.trim();
+  if (question.type !== 'SUBJECTIVE') return value;
+  const upper = value.toUpperCase();
+  if (upper === 'O' || upper === '○' || (!question.allowPartial && upper === '1')) return 'O';
+  if (upper === 'X' || upper === '×' || (!question.allowPartial && upper === '0')) return 'X';
+  return value;
+};
+
+// 허용되지 않는 입력이면 안내 문구 (빈칸은 미입력으로 보고 통과)
+export const getCellError = (question: QuestionConfig, raw: string): string | null => {
+  const value = raw.trim();
+  if (!value) return null;
+  if (question.type === 'SUBJECTIVE') {
+    const upper = value.toUpperCase();
+    if (upper === 'O' || upper === 'X') return null;
+    if (question.allowPartial && !isNaN(Number(value)) && Number(value) >= 0 && Number(value) <= question.point) return null;
+    return question.allowPartial ? `O/X 또는 0~${question.point}점만 입력할 수 있습니다.` : 'O/X만 입력할 수 있습니다.';
+  }
+  if (!isChoiceQuestion(question)) return null;
+  return parseAcceptedAnswers(value).every(a => OMR_CHOICES.includes(a))
+    ? null
+    : `${OMR_CHOICES[0]}~${OMR_CHOICES[OMR_CHOICES.length - 1]}번 선택지만 입력할 수 있습니다.`;
+};
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { Student, QuestionConfig } from '../types.ts';
+import {
+  parseSpreadsheetFile,
+  nameSimilarity,
+  rankStudentCandidates,
+  guessAnswerMapping,
+  buildRosterPreview,
+  buildAnswerPreview,
+  getAnswerRowErrors
+} from './importUtils.ts';
+
+const student = (id: string, name: string, extra: Partial<Student> = {}): Student => ({
+  id, name, createdAt: 0, ...extra
+});
+
+const question = (number: number, extra: Partial<QuestionConfig> = {}): QuestionConfig => ({
+  number, type: 'MULTIPLE', correctAnswer: '1', point: 2, ...extra
+});
+
+describe('parseSpreadsheetFile', () => {
+  it('reads a UTF-8 CSV with a BOM and trims every cell', async () => {
+    const file = new File(['\uFEFF이름, 점수\n김민준 ,12\n'], 'scores.csv');
+    expect(await parseSpreadsheetFile(file)).toEqual([['이름', '점수'], ['김민준', '12']]);
+  });
+
+  it('falls back to EUC-KR for CSVs saved by Excel', async () => {
+    // "이름,점수" in CP949
+    const bytes = new Uint8Array([0xC0, 0xCC, 0xB8, 0xA7, 0x2C, 0xC1, 0xA1, 0xBC, 0xF6]);
+    const file = new File([bytes], 'scores.csv');
+    expect(await parseSpreadsheetFile(file)).toEqual([['이름', '점수']]);
+  });
+
+  it('reads the first sheet of an xlsx workbook and skips blank rows', async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['이름', 'Q1'], [], ['이서연', 3]]), 'Sheet1');
+    const buffer: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+    const file = new File([buffer], 'answers.xlsx');
+    expect(await parseSpreadsheetFile(file)).toEqual([['이름', 'Q1'], ['이서연', '3']]);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('ignores whitespace and case', () => {
+    expect(nameSimilarity('김 민준', '김민준')).toBe(1);
+    expect(nameSimilarity('Kim MinJun', 'kimminjun')).toBe(1);
+  });
+
+  it('scores by edit distance over the longer name', () => {
+    expect(nameSimilarity('김민준', '김민중')).toBeCloseTo(2 / 3, 10);
+    expect(nameSimilarity('김민', '김민준')).toBeCloseTo(2 / 3, 10);
+    expect(nameSimilarity('김민준', '이서연')).toBe(0);
+    expect(nameSimilarity('', '김민준')).toBe(0);
+  });
+});
+
+describe('rankStudentCandidates', () => {
+  const students = [
+    student('a', '김민준', { school: '한빛중' }),
+    student('b', '김민준', { school: '새솔중' }),
+    student('c', '김민중'),
+    student('d', '이서연')
+  ];
+
+  it('sorts by similarity and drops unrelated names', () => {
+    const ranked = rankStudentCandidates('김민준', '', students);
+    expect(ranked.map(m => m.student.id)).toEqual(['a', 'b', 'c']);
+    expect(ranked.map(m => m.similarity)).toEqual([1, 1, expect.closeTo(2 / 3, 10)]);
+  });
+
+  it('adds the school bonus to near matches without exceeding 1', () => {
+    const ranked = rankStudentCandidates('김민중', '한빛중', students);
+    expect(ranked.map(m => m.student.id)).toEqual(['c', 'a', 'b']);
+    expect(ranked[1].similarity).toBeCloseTo(2 / 3 + 0.05, 10);
+  });
+});
+
+describe('guessAnswerMapping', () => {
+  it('finds name, school and question columns from common header spellings', () => {
+    const header = ['학생 이름', '학교', 'Q1', '2번', '문항 3', '비고'];
+    expect(guessAnswerMapping(header, [question(1), question(2), question(3), question(4)])).toEqual({
+      nameCol: 0,
+      schoolCol: 1,
+      scoreCol: -1,
+      questionCols: { 1: 2, 2: 3, 3: 4, 4: -1 }
+    });
+  });
+});
+
+describe('buildRosterPreview', () => {
+  it('flags blank names, bad phone numbers and duplicates in the roster or the file', () => {
+    const rows = [
+      ['이름', '학교', '연락처'],
+      ['김민준', '한빛중', '010-1234-5678'],
+      ['', '한빛중', ''],
+      ['이서연', '새솔중', '010-12'],
+      ['박지훈', '', ''],
+      ['박 지훈', '', '']
+    ];
+    const existing = [student('a', '김민준', { school: '한빛중', phone: '01012345678' })];
+    const preview = buildRosterPreview(rows, { name: 0, school: 1, phone: 2, note: -1 }, existing, true);
+
+    expect(preview.map(r => r.rowNumber)).toEqual([2, 3, 4, 5, 6]);
+    expect(preview[0].duplicateOf?.id).toBe('a');
+    expect(preview[1].errors).toEqual(['이름이 비어 있습니다.']);
+    expect(preview[2].errors).toEqual(['연락처 형식이 올바르지 않습니다.']);
+    expect(preview[3].errors).toEqual([]);
+    expect(preview[4].errors).toEqual(['파일 안에서 중복된 행입니다.']);
+  });
+});
+
+describe('buildAnswerPreview', () => {
+  const students = [student('a', '김민준'), student('b', '이서연')];
+  const questions = [question(1), question(2, { type: 'SUBJECTIVE', point: 4, allowPartial: true })];
+  const mapping = { nameCol: 0, schoolCol: -1, scoreCol: -1, questionCols: { 1: 1, 2: 2 } };
+
+  it('matches misspelled names at or above the threshold only', () => {
+    const rows = [['김민중', '3', 'o'], ['김철수', '2', 'x']];
+    const [close, far] = buildAnswerPreview(rows, mapping, questions, students, false, false);
+
+    expect(close.match?.student.id).toBe('a');
+    expect(close.answers).toEqual({ 1: '3', 2: 'O' });
+    expect(far.match).toBeNull();
+    expect(far.candidates.map(c => c.student.id)).toEqual(['a']);
+    expect(getAnswerRowErrors(far, [close, far])).toEqual(['명단에서 일치하는 학생을 찾지 못했습니다.']);
+  });
+
+  it('validates subjective cells and reports two rows matched to the same student', () => {
+    const rows = [['이서연', '1', '5'], ['이 서연', '', '2.5']];
+    const preview = buildAnswerPreview(rows, mapping, questions, students, false, false);
+
+    expect(preview[0].errors).toEqual(['2번: 서술형은 O/X 또는 0~4점만 입력할 수 있습니다. ("5")']);
+    expect(preview[1].answers).toEqual({ 2: '2.5' });
+    expect(getAnswerRowErrors(preview[1], preview)).toEqual(['다른 행과 같은 학생으로 매칭되었습니다.']);
+  });
+
+  it('reads a numeric score column for word tests', () => {
+    const wordMapping = { ...mapping, scoreCol: 1 };
+    const [ok, bad] = buildAnswerPreview([['김민준', '18'], ['이서연', '열']], wordMapping, [], students, false, true);
+    expect(ok.score).toBe(18);
+    expect(bad.errors).toEqual(['점수가 숫자가 아닙니다.']);
+  });
+});
@@ -0,0 +1,256 @@
+
+import * as XLSX from 'xlsx';
+import { Student, QuestionConfig } from "../types.ts";
+
+export type RosterField = 'name' | 'school' | 'phone' | 'note';
+
+export const ROSTER_FIELD_LABELS: Record<RosterField, string> = {
+  name: '이름',
+  school: '학교',
+  phone: '연락처',
+  note: '메모'
+};
+
+// 컬럼 인덱스 매핑 (-1 = 사용 안 함)
+export type RosterMapping = Record<RosterField, number>;
+
+export interface AnswerMapping {
+  nameCol: number;
+  schoolCol: number;
+  scoreCol: number;                       // 단어 시험(WORD_TEST) 전용
+  questionCols: Record<number, number>;   // 문항번호: 컬럼 인덱스
+}
+
+export interface RosterPreviewRow {
+  rowNumber: number;
+  name: string;
+  school: string;
+  phone: string;
+  note: string;
+  errors: string[];
+  duplicateOf?: Student;
+}
+
+export interface StudentMatch {
+  student: Student;
+  similarity: number; // 0 ~ 1
+}
+
+export interface AnswerPreviewRow {
+  rowNumber: number;
+  rawName: string;
+  rawSchool: string;
+  match: StudentMatch | null;
+  candidates: StudentMatch[];
+  answers: Record<number, string>;
+  score?: number;
+  errors: string[]; // 이름 매칭과 무관한 데이터 오류
+}
+
+export const FUZZY_MATCH_THRESHOLD = 0.6;
+
+const decodeText = (buffer: ArrayBuffer): string => {
+  // 엑셀에서 저장한 한글 CSV는 대부분 CP949(EUC-KR)이므로 UTF-8 실패 시 재시도
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('euc-kr').decode(buffer);
+  }
+};
+
+export const parseSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const buffer = await file.arrayBuffer();
+  const isCsv = /\.(csv|txt|tsv)$/i.test(file.name);
+  const workbook = isCsv
+    ? XLSX.read(decodeText(buffer), { type: 'string' })
+    : XLSX.read(buffer, { type: 'array' });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false, blankrows: false });
+  return rows.map(row => row.map(cell => String(cell ?? '').trim()));
+};
+
+export const normalizeName = (name: string) => name.replace(/\s+/g, '').toLowerCase();
+
+const normalizePhone = (phone?: string) => (phone || '').replace(/[^0-9]/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+export const nameSimilarity = (a: string, b: string): number => {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (!na || !nb) return 0;
+  const maxLen = Math.max(na.length, nb.length);
+  return 1 - levenshtein(na, nb) / maxLen;
+};
+
+// 이름 유사도 순으로 후보를 반환 (학교가 일치하면 가산점)
+export const rankStudentCandidates = (name: string, school: string, students: Student[]): StudentMatch[] => {
+  return students
+    .map(student => {
+      let similarity = nameSimilarity(name, student.name);
+      if (school && student.school && student.school.trim() === school.trim()) {
+        similarity = Math.min(1, similarity + 0.05);
+      }
+      return { student, similarity };
+    })
+    .filter(m => m.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity);
+};
+
+export const guessRosterMapping = (header: string[]): RosterMapping => {
+  const find = (patterns: RegExp[]) => header.findIndex(h => patterns.some(p => p.test(h)));
+  return {
+    name: find([/이름/, /성명/, /name/i]),
+    school: find([/학교/, /school/i]),
+    phone: find([/연락처/, /전화/, /휴대폰/, /phone/i]),
+    note: find([/메모/, /비고/, /note/i])
+  };
+};
+
+export const guessAnswerMapping = (header: string[], questions: QuestionConfig[]): AnswerMapping => {
+  const find = (patterns: RegExp[]) => header.findIndex(h => patterns.some(p => p.test(h)));
+  const questionCols: Record<number, number> = {};
+  questions.forEach(q => {
+    questionCols[q.number] = header.findIndex(h => {
+      const m = h.match(/^(?:Q|문항)?\s*(\d+)\s*(?:번)?$/i);
+      return !!m && Number(m[1]) === q.number;
+    });
+  });
+  return {
+    nameCol: find([/이름/, /성명/, /name/i]),
+    schoolCol: find([/학교/, /school/i]),
+    scoreCol: find([/점수/, /개수/, /score/i]),
+    questionCols
+  };
+};
+
+const cell = (row: string[], col: number) => (col >= 0 ? row[col] ?? '' : '').trim();
+
+const rosterKey = (name: string, school?: string, phone?: string) =>
+  `${normalizeName(name)}|${(school || '').trim()}|${normalizePhone(phone)}`;
+
+export const buildRosterPreview = (
+  rows: string[][],
+  mapping: RosterMapping,
+  students: Student[],
+  hasHeader: boolean
+): RosterPreviewRow[] => {
+  const existing = new Map(students.map(s => [rosterKey(s.name, s.school, s.phone), s]));
+  const seenInFile = new Set<string>();
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  return dataRows.map((row, idx) => {
+    const name = cell(row, mapping.name);
+    const school = cell(row, mapping.school);
+    const phone = cell(row, mapping.phone);
+    const note = cell(row, mapping.note);
+    const errors: string[] = [];
+
+    if (!name) errors.push('이름이 비어 있습니다.');
+    const digits = normalizePhone(phone);
+    if (phone && (digits.length < 9 || digits.length > 11)) errors.push('연락처 형식이 올바르지 않습니다.');
+
+    const key = rosterKey(name, school, phone);
+    const duplicateOf = existing.get(key);
+    if (duplicateOf) errors.push('이미 등록된 학생입니다. (이름+학교+연락처 일치)');
+    else if (name && seenInFile.has(key)) errors.push('파일 안에서 중복된 행입니다.');
+    seenInFile.add(key);
+
+    return {
+      rowNumber: idx + (hasHeader ? 2 : 1),
+      name, school, phone, note,
+      errors,
+      duplicateOf
+    };
+  });
+};
+
+export const buildAnswerPreview = (
+  rows: string[][],
+  mapping: AnswerMapping,
+  questions: QuestionConfig[],
+  students: Student[],
+  hasHeader: boolean,
+  isWordTest: boolean
+): AnswerPreviewRow[] => {
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  return dataRows.map((row, idx) => {
+    const rawName = cell(row, mapping.nameCol);
+    const rawSchool = cell(row, mapping.schoolCol);
+    const errors: string[] = [];
+
+    const candidates = rawName ? rankStudentCandidates(rawName, rawSchool, students).slice(0, 5) : [];
+    const best = candidates[0];
+    const match = best && best.similarity >= FUZZY_MATCH_THRESHOLD ? best : null;
+
+    const answers: Record<number, string> = {};
+    let score: number | undefined;
+
+    if (isWordTest) {
+      const rawScore = cell(row, mapping.scoreCol);
+      if (rawScore === '' || isNaN(Number(rawScore))) errors.push('점수가 숫자가 아닙니다.');
+      else score = Number(rawScore);
+    } else {
+      questions.forEach(q => {
+        const raw = cell(row, mapping.questionCols[q.number] ?? -1);
+        if (raw === '') return;
+        if (q.type === 'SUBJECTIVE') {
+          const upper = raw.toUpperCase();
+          if (['O', 'X'].includes(upper)) answers[q.number] = upper;
+          else if (q.allowPartial && !isNaN(Number(raw)) && Number(raw) >= 0 && Number(raw) <= q.point) answers[q.number] = raw;
+          else errors.push(`${q.number}번: 서술형은 ${q.allowPartial ? `O/X 또는 0~${q.point}점` : 'O/X'}만 입력할 수 있습니다. ("${raw}")`);
+        } else {
+          answers[q.number] = raw;
+        }
+      });
+      if (Object.keys(answers).length === 0) errors.push('입력된 답안이 없습니다.');
+    }
+
+    return {
+      rowNumber: idx + (hasHeader ? 2 : 1),
+      rawName,
+      rawSchool,
+      match,
+      candidates,
+      answers,
+      score,
+      errors
+    };
+  });
+};
+
+// 매칭 결과(수동 변경 포함)까지 반영한 행별 오류 목록
+export const getAnswerRowErrors = (row: AnswerPreviewRow, rows: AnswerPreviewRow[]): string[] => {
+  const errors: string[] = [];
+  if (!row.rawName) errors.push('이름이 비어 있습니다.');
+  else if (!row.match) errors.push('명단에서 일치하는 학생을 찾지 못했습니다.');
+  if (row.match && rows.some(r => r !== row && r.match?.student.id === row.match!.student.id)) {
+    errors.push('다른 행과 같은 학생으로 매칭되었습니다.');
+  }
+  return [...errors, ...row.errors];
+};
+
+export const columnLabel = (index: number, header?: string) => {
+  const letter = XLSX.utils.encode_col(index);
+  return header ? `${letter}: ${header}` : `${letter}열`;
+};
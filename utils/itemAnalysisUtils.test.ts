@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { Exam, QuestionConfig, ScoreEntry } from '../types.ts';
+import { analyzeItems } from './itemAnalysisUtils.ts';
+
+const question = (number: number, correctAnswer: string): QuestionConfig => ({ number, type: 'MULTIPLE', correctAnswer, point: 1 });
+
+const exam = (questions: QuestionConfig[]): Exam =>
+  ({ id: 'e1', title: '문항 분석', date: '2026-03-01', type: 'RANKING', totalQuestions: questions.length, maxScore: questions.length, questions, scores: [] });
+
+const sheet = (studentId: string, answers: string[]): ScoreEntry =>
+  ({ studentId, score: 0, wrongQuestions: [], studentAnswers: Object.fromEntries(answers.map((a, i) => [i + 1, a])) });
+
+describe('analyzeItems', () => {
+  const keyed = exam([question(1, '1'), question(2, '2'), question(3, '3')]);
+  // 총점 3, 2, 1, 0 → 상·하위 각 1명 (4 × 0.27 ≈ 1)
+  const sheets = [
+    sheet('s1', ['1', '2', '3']),
+    sheet('s2', ['1', '2', '4']),
+    sheet('s3', ['1', '5', '4']),
+    sheet('s4', ['5', '5', '5'])
+  ];
+
+  it('computes p, the 27% D index and the rest-score point-biserial', () => {
+    const analysis = analyzeItems(keyed, sheets);
+    expect(analysis.groupSize).toBe(1);
+    const [q1, q2] = analysis.items;
+
+    // 1번: 득점 [1,1,1,0], 나머지 총점 [2,1,0,0]
+    // p = 3/4, D = 1 - 0, r = 0.75 / √(0.75 × 2.75)
+    expect(q1.difficulty).toBe(0.75);
+    expect(q1.discrimination).toBe(1);
+    expect(q1.pointBiserial).toBeCloseTo(0.75 / Math.sqrt(0.75 * 2.75), 10);
+    expect(q1.pointBiserial).toBeCloseTo(0.5222, 4);
+
+    // 2번: 득점 [1,1,0,0], 나머지 총점 [2,1,1,0] → r = 1 / √2
+    expect(q2.difficulty).toBe(0.5);
+    expect(q2.discrimination).toBe(1);
+    expect(q2.pointBiserial).toBeCloseTo(Math.SQRT1_2, 10);
+    expect(q2.verdict).toBe('GOOD');
+  });
+
+  it('gives no verdict or group-based flags below four respondents', () => {
+    const analysis = analyzeItems(keyed, sheets.slice(1));
+    analysis.items.forEach(item => {
+      expect(item.verdict).toBeNull();
+      expect(item.flags).not.toContain('NEGATIVE_DISCRIMINATION');
+      expect(item.flags).not.toContain('LOW_DISCRIMINATION');
+    });
+  });
+
+  describe('negative discrimination', () => {
+    const fourItems = exam([question(1, '1'), question(2, '1'), question(3, '1'), question(4, '1')]);
+    // 2~4번으로 정해지는 나머지 총점과 1번 정답 여부
+    const build = (rest: number[], q1Correct: boolean[]) => rest.map((r, i) =>
+      sheet(`s${i}`, [q1Correct[i] ? '1' : '2', ...[0, 1, 2].map(k => k < r ? '1' : '2')]));
+
+    it('only reviews a slightly negative item', () => {
+      const rest = [3, 3, 3, 2, 2, 2, 1, 1, 0, 0];
+      const q1 = [false, false, false, true, true, true, true, true, false, false];
+      const [item] = analyzeItems(fourItems, build(rest, q1)).items;
+      expect(item.pointBiserial).toBeCloseTo(-1 / 11, 10);
+      expect(item.verdict).toBe('REVIEW');
+    });
+
+    it('voids a clearly reversed item once enough students answered', () => {
+      const rest = [3, 3, 3, 3, 3, 0, 0, 0, 0, 0];
+      const q1 = rest.map(r => r === 0);
+      const [item] = analyzeItems(fourItems, build(rest, q1)).items;
+      expect(item.pointBiserial).toBeCloseTo(-1, 10);
+      expect(item.verdict).toBe('VOID');
+
+      // 같은 양상이라도 10명 미만이면 검토까지만
+      const [small] = analyzeItems(fourItems, build(rest.slice(2, 8), q1.slice(2, 8))).items;
+      expect(small.verdict).toBe('REVIEW');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { Exam, QuestionConfig, ScoreEntry } from "../types.ts";
+import { gradeQuestion } from "./scoringUtils.ts";
+import { isChoiceQuestion } from "./gridEntryUtils.ts";
+import { OMR_CHOICES } from "./omrUtils.ts";
+
+// 상·하위 집단 비율 (Kelley 27%)
+export const ITEM_GROUP_RATIO = 0.27;
+// 이보다 응시 인원이 적으면 변별도 수치를 참고용으로만 표시하고 전원 정답 검토로 판정하지 않음
+export const MIN_ITEM_SAMPLE = 10;
+// 이보다 적으면 상·하위 27% 집단이 겹치거나 비어 변별도가 의미 없으므로 판정하지 않음
+export const MIN_VERDICT_SAMPLE = 4;
+// 점이연 상관이 이보다 낮아야 전원 정답 검토 (0 근처 음수는 소수 인원의 우연 오차)
+const VOID_POINT_BISERIAL = -0.1;
+// 전체 응답의 5% 미만이 고른 오답지는 매력 없는 오답지
+const FUNCTIONAL_DISTRACTOR_RATE = 0.05;
+
+export type ItemFlag =
+  | 'TOO_EASY'
+  | 'TOO_HARD'
+  | 'LOW_DISCRIMINATION'
+  | 'NEGATIVE_DISCRIMINATION'
+  | 'DISTRACTOR_BEATS_KEY'
+  | 'WEAK_DISTRACTORS';
+
+export type ItemVerdict = 'GOOD' | 'REVIEW' | 'VOID';
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  TOO_EASY: '너무 쉬움 (정답률 90% 초과)',
+  TOO_HARD: '너무 어려움 (정답률 20% 미만)',
+  LOW_DISCRIMINATION: '변별도 낮음 (0.2 미만)',
+  NEGATIVE_DISCRIMINATION: '역변별 (하위권이 더 잘 맞힘)',
+  DISTRACTOR_BEATS_KEY: '상위권이 정답보다 오답지를 더 선택 (정답 오류 의심)',
+  WEAK_DISTRACTORS: '효과 없는 오답지 있음 (5% 미만 선택 또는 상위권이 더 선택)'
+};
+
+export const ITEM_VERDICT_LABELS: Record<ItemVerdict, string> = {
+  GOOD: '양호',
+  REVIEW: '검토 필요',
+  VOID: '전원 정답 검토'
+};
+
+export interface DistractorStat {
+  choice: string;
+  total: number;
+  upper: number; // 상위 27% 중 선택 인원
+  lower: number; // 하위 27% 중 선택 인원
+  isKey: boolean;
+  isFunctional: boolean; // 오답지: 5% 이상이 고르고 하위권이 상위권보다 많이 고름
+}
+
+export interface ItemStat {
+  questionNumber: number;
+  respondents: number;
+  difficulty: number;            // p값: 평균 득점률 (부분 점수 포함)
+  discrimination: number;        // 상위 27% 득점률 - 하위 27% 득점률
+  pointBiserial: number | null;  // 문항 득점과 나머지 문항 총점의 상관 (분산이 0이면 null)
+  distractors: DistractorStat[]; // 번호 선택형 객관식만
+  flags: ItemFlag[];
+  verdict: ItemVerdict | null;   // 응시 인원이 MIN_VERDICT_SAMPLE 미만이면 판정 없음
+}
+
+export interface ItemAnalysis {
+  items: ItemStat[];
+  respondents: number;
+  groupSize: number;
+  isSmallSample: boolean;
+}
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const correlation = (xs: number[], ys: number[]): number | null => {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0, sxx = 0, syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (ys[i] - my);
+    sxx += (x - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  });
+  return sxx === 0 || syy === 0 ? null : sxy / Math.sqrt(sxx * syy);
+};
+
+// 0~1 문항 득점률 (서술형 부분 점수 반영)
+const itemScore = (question: QuestionConfig, answer: string | undefined) =>
+  question.point > 0 ? gradeQuestion(question, answer).earned / question.point : 0;
+
+const buildDistractors = (
+  question: QuestionConfig,
+  answers: (string | undefined)[],
+  upper: Set<number>,
+  lower: Set<number>
+): DistractorStat[] => {
+  const picked = answers.map(a => (a || '').trim());
+  return [...OMR_CHOICES, ''].map(choice => {
+    const indices = picked.map((a, i) => a === choice ? i : -1).filter(i => i >= 0);
+    const upperCount = indices.filter(i => upper.has(i)).length;
+    const lowerCount = indices.filter(i => lower.has(i)).length;
+    const isKey = choice !== '' && gradeQuestion(question, choice).isCorrect;
+    return {
+      choice,
+      total: indices.length,
+      upper: upperCount,
+      lower: lowerCount,
+      isKey,
+      isFunctional: !isKey && indices.length >= picked.length * FUNCTIONAL_DISTRACTOR_RATE && lowerCount > upperCount
+    };
+  }).filter(d => d.choice !== '' || d.total > 0); // 미기입은 있을 때만
+};
+
+const judge = (flags: ItemFlag[], pointBiserial: number | null, n: number): ItemVerdict | null => {
+  if (n < MIN_VERDICT_SAMPLE) return null;
+  if (n >= MIN_ITEM_SAMPLE && pointBiserial !== null && pointBiserial < VOID_POINT_BISERIAL) return 'VOID';
+  if (flags.some(f => f === 'NEGATIVE_DISCRIMINATION' || f === 'DISTRACTOR_BEATS_KEY' || f === 'LOW_DISCRIMINATION' || f === 'TOO_HARD')) return 'REVIEW';
+  return 'GOOD';
+};
+
+/**
+ * 고전검사이론 문항 분석
+ * - 답안이 기록된 성적만 사용하고, 정답 미설정·전원 정답 문항은 제외
+ * - 상·하위 집단은 총점 기준 27%
+ * - 점이연 상관은 해당 문항을 뺀 총점과 비교 (문항 자신이 총점에 섞여 부풀려지는 것 방지)
+ */
+export const analyzeItems = (exam: Exam, scores: ScoreEntry[]): ItemAnalysis => {
+  const questions = (exam.questions || []).filter(q => !q.isVoided && gradeQuestion(q, '').isGraded);
+  const entries = scores.filter(s => s.studentAnswers);
+  const n = entries.length;
+  const groupSize = n > 0 ? Math.max(1, Math.round(n * ITEM_GROUP_RATIO)) : 0;
+
+  const totals = entries.map(e => questions.reduce((sum, q) => sum + gradeQuestion(q, e.studentAnswers![q.number]).earned, 0));
+  const order = totals.map((t, i) => i).sort((a, b) => totals[b] - totals[a]);
+  const upper = new Set(order.slice(0, groupSize));
+  const lower = new Set(order.slice(-groupSize));
+
+  const items = questions.map((q): ItemStat => {
+    const answers = entries.map(e => e.studentAnswers![q.number]);
+    const itemScores = answers.map(a => itemScore(q, a));
+    const difficulty = mean(itemScores);
+    const discrimination = mean(itemScores.filter((_, i) => upper.has(i))) - mean(itemScores.filter((_, i) => lower.has(i)));
+    const restTotals = totals.map((t, i) => t - itemScores[i] * q.point);
+    const pointBiserial = correlation(itemScores, restTotals);
+    const distractors = isChoiceQuestion(q) ? buildDistractors(q, answers, upper, lower) : [];
+
+    const flags: ItemFlag[] = [];
+    if (difficulty > 0.9) flags.push('TOO_EASY');
+    if (difficulty < 0.2) flags.push('TOO_HARD');
+    // 상·하위 집단 비교는 집단이 나뉠 만큼 응시했을 때만
+    if (n >= MIN_VERDICT_SAMPLE) {
+      if (discrimination < 0 || (pointBiserial !== null && pointBiserial < 0)) flags.push('NEGATIVE_DISCRIMINATION');
+      else if (discrimination < 0.2 && difficulty <= 0.9) flags.push('LOW_DISCRIMINATION');
+      const keyUpper = Math.max(0, ...distractors.filter(d => d.isKey).map(d => d.upper));
+      if (distractors.some(d => !d.isKey && d.choice !== '' && d.upper > keyUpper)) flags.push('DISTRACTOR_BEATS_KEY');
+      if (distractors.some(d => !d.isKey && d.choice !== '' && !d.isFunctional)) flags.push('WEAK_DISTRACTORS');
+    }
+
+    return {
+      questionNumber: q.number,
+      respondents: n,
+      difficulty,
+      discrimination,
+      pointBiserial,
+      distractors,
+      flags,
+      verdict: judge(flags, pointBiserial, n)
+    };
+  });
+
+  return { items, respondents: n, groupSize, isSmallSample: n < MIN_ITEM_SAMPLE };
+};
@@ -0,0 +1,89 @@
+import { Exam, QuestionConfig } from "../types.ts";
+import { gradeQuestion } from "./scoringUtils.ts";
+
+// 영어 영역 기본 분류. 시험에서 새로 만든 영역도 이후 시험에서 다시 고를 수 있음
+export const DEFAULT_SKILL_TAGS = ['어휘', '문법', '독해-주제', '빈칸', '순서', '삽입', '듣기'];
+
+// 취약 영역으로 보는 성취율
+export const WEAK_MASTERY_RATE = 0.6;
+
+export interface SkillTrendPoint {
+  examId: string;
+  title: string;
+  date: string;
+  rate: number;
+}
+
+export interface SkillMastery {
+  tag: string;
+  earned: number;
+  possible: number;
+  rate: number;          // 0~1, 획득 점수 / 배점 합
+  questionCount: number; // 집계에 쓰인 문항 수 (시험 합계)
+  trend: SkillTrendPoint[]; // 시험 날짜순
+}
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ');
+
+// 기본 영역 순서를 유지하고, 시험에서 쓰인 영역은 뒤에 가나다순
+export const collectSkillTags = (exams: Exam[], extraQuestions: QuestionConfig[] = []): string[] => {
+  const used = new Set<string>();
+  [...exams.flatMap(e => e.questions || []), ...extraQuestions].forEach(q => q.tags?.forEach(t => used.add(t)));
+  const custom = Array.from(used).filter(t => !DEFAULT_SKILL_TAGS.includes(t)).sort((a, b) => a.localeCompare(b, 'ko'));
+  return [...DEFAULT_SKILL_TAGS, ...custom];
+};
+
+// "1-5, 8, 10~12" 형식의 문항 번호 목록
+export const parseQuestionRange = (text: string, maxNumber: number): number[] => {
+  const numbers = new Set<number>();
+  text.split(/[,\s]+/).filter(Boolean).forEach(part => {
+    const [from, to] = part.split(/[-~]/).map(Number);
+    if (isNaN(from)) return;
+    const end = isNaN(to) ? from : to;
+    for (let n = Math.min(from, end); n <= Math.max(from, end); n++) {
+      if (n >= 1 && n <= maxNumber) numbers.add(n);
+    }
+  });
+  return Array.from(numbers).sort((a, b) => a - b);
+};
+
+/**
+ * 영역별 성취도 집계
+ * - 답안이 기록된 성적만 사용 (단어 시험처럼 총점만 있는 성적은 제외)
+ * - 전원 정답·정답 미설정 문항은 실력을 반영하지 않으므로 제외
+ * - studentIds가 있으면 해당 학생들의 합계 (반·개인), 없으면 전체
+ */
+export const getSkillMastery = (exams: Exam[], studentIds?: Set<string>): SkillMastery[] => {
+  const totals = new Map<string, SkillMastery>();
+  const sortedExams = [...exams].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  sortedExams.forEach(exam => {
+    const questions = (exam.questions || []).filter(q => q.tags?.length && !q.isVoided && gradeQuestion(q, '').isGraded);
+    if (questions.length === 0) return;
+    const entries = exam.scores.filter(s => s.studentAnswers && (!studentIds || studentIds.has(s.studentId)));
+    if (entries.length === 0) return;
+
+    const perExam = new Map<string, { earned: number; possible: number; questionCount: number }>();
+    questions.forEach(q => {
+      const earned = entries.reduce((sum, e) => sum + gradeQuestion(q, e.studentAnswers![q.number]).earned, 0);
+      q.tags!.forEach(tag => {
+        const acc = perExam.get(tag) || { earned: 0, possible: 0, questionCount: 0 };
+        perExam.set(tag, { earned: acc.earned + earned, possible: acc.possible + q.point * entries.length, questionCount: acc.questionCount + 1 });
+      });
+    });
+
+    perExam.forEach((stat, tag) => {
+      if (stat.possible === 0) return;
+      const acc = totals.get(tag) || { tag, earned: 0, possible: 0, rate: 0, questionCount: 0, trend: [] };
+      acc.earned += stat.earned;
+      acc.possible += stat.possible;
+      acc.questionCount += stat.questionCount;
+      acc.trend.push({ examId: exam.id, title: exam.title, date: exam.date, rate: stat.earned / stat.possible });
+      totals.set(tag, acc);
+    });
+  });
+
+  return Array.from(totals.values())
+    .map(m => ({ ...m, rate: m.possible > 0 ? m.earned / m.possible : 0 }))
+    .sort((a, b) => a.rate - b.rate);
+};
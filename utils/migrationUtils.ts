@@ -0,0 +1,295 @@
+
+import { buildAccessPolicySql } from "./authUtils.ts";
+
+// 번호가 매겨진 DB 스키마 마이그레이션. 모든 SQL은 여러 번 실행해도 데이터가 지워지지 않도록 작성
+export interface SchemaMigration {
+  version: number;
+  title: string;
+  description: string;
+  changes: string[];
+  sql: string;
+}
+
+const enableRealtime = (table: string) => `DO $$ BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE ${table};
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;`;
+
+const allowAll = (table: string) => `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow All" ON ${table};
+CREATE POLICY "Allow All" ON ${table} FOR ALL USING (true) WITH CHECK (true);`;
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    title: '기본 테이블',
+    description: '학생·시험·반 테이블을 만들고, 예전 버전에서 만든 테이블에는 빠진 컬럼만 추가합니다.',
+    changes: [
+      'students, exams, classes 테이블이 없으면 생성',
+      'exams에 pass_threshold, ranking_mode, grade_scale, ai_report, questions, target_schools, target_class_ids 컬럼 추가',
+      '세 테이블 실시간 동기화 및 RLS 정책 설정'
+    ],
+    sql: `CREATE TABLE IF NOT EXISTS students (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  school TEXT,
+  phone TEXT,
+  note TEXT,
+  created_at BIGINT
+);
+ALTER TABLE students ADD COLUMN IF NOT EXISTS note TEXT;
+
+CREATE TABLE IF NOT EXISTS exams (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  date TEXT NOT NULL,
+  type TEXT NOT NULL,
+  total_questions INTEGER NOT NULL,
+  max_score INTEGER NOT NULL,
+  scores JSONB
+);
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS pass_threshold INTEGER;
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS ranking_mode TEXT;
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS grade_scale JSONB;
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS ai_report JSONB;
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS questions JSONB;
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS target_schools JSONB;
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS target_class_ids JSONB;
+
+CREATE TABLE IF NOT EXISTS classes (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  teacher TEXT,
+  schedule JSONB,
+  student_ids JSONB NOT NULL,
+  created_at BIGINT
+);
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+END $$;
+${['students', 'exams', 'classes'].map(enableRealtime).join('\n')}
+${['students', 'exams', 'classes'].map(allowAll).join('\n')}`
+  },
+  {
+    version: 2,
+    title: '학생별 성적 테이블',
+    description: '시험 한 행에 JSONB로 묶여 있던 성적을 학생별 행(exam_scores)으로 옮겨, 여러 선생님이 동시에 채점해도 서로 덮어쓰지 않게 합니다.',
+    changes: [
+      'exam_scores 테이블 생성 (exam_id + student_id 기본키, 시험 삭제 시 함께 삭제)',
+      '기존 exams.scores 값을 exam_scores로 복사한 뒤 exams.scores를 비움',
+      'exams.scores 컬럼의 NOT NULL 제약 해제 (컬럼은 남겨 둠)'
+    ],
+    sql: `CREATE TABLE IF NOT EXISTS exam_scores (
+  exam_id TEXT NOT NULL REFERENCES exams(id) ON DELETE CASCADE,
+  student_id TEXT NOT NULL,
+  score NUMERIC NOT NULL,
+  wrong_questions JSONB,
+  answers JSONB,
+  updated_at BIGINT,
+  PRIMARY KEY (exam_id, student_id)
+);
+ALTER TABLE exams ALTER COLUMN scores DROP NOT NULL;
+
+INSERT INTO exam_scores (exam_id, student_id, score, wrong_questions, answers, updated_at)
+SELECT e.id, s->>'studentId', (s->>'score')::NUMERIC, s->'wrongQuestions', s->'studentAnswers',
+       (EXTRACT(EPOCH FROM now()) * 1000)::BIGINT
+FROM exams e, jsonb_array_elements(e.scores) AS s
+WHERE e.scores IS NOT NULL AND jsonb_typeof(e.scores) = 'array'
+ON CONFLICT (exam_id, student_id) DO NOTHING;
+UPDATE exams SET scores = NULL WHERE scores IS NOT NULL;
+
+${enableRealtime('exam_scores')}
+${allowAll('exam_scores')}`
+  },
+  {
+    version: 3,
+    title: '동기화 충돌 감지',
+    description: '학생·시험에 수정 시각과 버전 번호를 기록해, 이 기기와 서버에서 동시에 바뀐 내용을 병합 화면에서 고를 수 있게 합니다.',
+    changes: [
+      'students에 updated_at, revision 컬럼 추가',
+      'exams에 updated_at, revision 컬럼 추가'
+    ],
+    sql: `ALTER TABLE students ADD COLUMN IF NOT EXISTS updated_at BIGINT;
+ALTER TABLE students ADD COLUMN IF NOT EXISTS revision INTEGER;
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS updated_at BIGINT;
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS revision INTEGER;`
+  },
+  {
+    version: 4,
+    title: '선생님 계정과 역할별 권한',
+    description: 'Supabase Auth 로그인을 필수로 하고, 원장·선생님·채점 알바 역할에 따라 RLS 정책으로 읽기/쓰기를 제한합니다. 적용 후에는 anon key만으로는 데이터에 접근할 수 없습니다.',
+    changes: [
+      'profiles 테이블 생성 (계정별 역할, 가입 시 자동 생성 · 첫 계정은 원장)',
+      'exams에 grader_ids(배정된 채점 알바), classes에 teacher_id(담당 선생님) 컬럼 추가',
+      '모든 테이블의 "Allow All" 정책을 제거하고 역할별 정책으로 교체',
+      '학생·시험 삭제는 원장만, 채점 알바는 배정된 시험의 성적만 입력 가능'
+    ],
+    sql: `CREATE TABLE IF NOT EXISTS profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  display_name TEXT,
+  role TEXT NOT NULL DEFAULT 'GRADER' CHECK (role IN ('OWNER', 'TEACHER', 'GRADER')),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.app_role() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT role FROM profiles WHERE id = auth.uid()
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  INSERT INTO profiles (id, email, role)
+  VALUES (NEW.id, NEW.email, CASE WHEN EXISTS (SELECT 1 FROM profiles) THEN 'GRADER' ELSE 'OWNER' END)
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END $$;
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- 이미 가입한 계정: 가장 먼저 가입한 계정을 원장으로
+INSERT INTO profiles (id, email, role)
+SELECT u.id, u.email,
+       CASE WHEN ROW_NUMBER() OVER (ORDER BY u.created_at) = 1 AND NOT EXISTS (SELECT 1 FROM profiles) THEN 'OWNER' ELSE 'GRADER' END
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE exams ADD COLUMN IF NOT EXISTS grader_ids JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS teacher_id TEXT;
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "profiles_select" ON profiles;
+CREATE POLICY "profiles_select" ON profiles FOR SELECT TO authenticated
+  USING (id = auth.uid() OR app_role() IN ('OWNER', 'TEACHER'));
+DROP POLICY IF EXISTS "profiles_update" ON profiles;
+CREATE POLICY "profiles_update" ON profiles FOR UPDATE TO authenticated
+  USING (app_role() = 'OWNER') WITH CHECK (app_role() = 'OWNER');
+
+${buildAccessPolicySql(['students', 'classes', 'exams', 'exam_scores'])}`
+  },
+  {
+    version: 5,
+    title: '성적 변경 이력',
+    description: '학생·시험·성적의 추가/수정/삭제를 누가, 언제, 어느 기기에서 했는지 변경 전후 값과 함께 기록합니다. 기록은 추가만 가능합니다.',
+    changes: [
+      'audit_log 테이블 생성 (시험별·학생별 조회 인덱스)',
+      '본인 이름으로 추가만 허용, 수정·삭제 권한 제거',
+      '원장·선생님은 전체 조회, 채점 알바는 본인 기록만 조회'
+    ],
+    sql: `CREATE TABLE IF NOT EXISTS audit_log (
+  id TEXT PRIMARY KEY,
+  entity TEXT NOT NULL,
+  action TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  exam_id TEXT,
+  student_id TEXT,
+  summary TEXT,
+  before JSONB,
+  after JSONB,
+  actor_id TEXT,
+  actor TEXT,
+  device_id TEXT,
+  created_at BIGINT NOT NULL,
+  revert_of TEXT
+);
+CREATE INDEX IF NOT EXISTS audit_log_exam_idx ON audit_log (exam_id, created_at);
+CREATE INDEX IF NOT EXISTS audit_log_student_idx ON audit_log (student_id, created_at);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+REVOKE UPDATE, DELETE ON audit_log FROM anon, authenticated;
+${buildAccessPolicySql(['audit_log'])}`
+  },
+  {
+    version: 6,
+    title: '작성 중인 시험 (초안)',
+    description: '채점 중인 시험을 초안으로 계속 저장해 다른 기기에서도 이어서 입력할 수 있게 합니다. 초안은 통계에서 제외됩니다.',
+    changes: [
+      "exams에 status 컬럼 추가 (DRAFT / FINAL, 기존 시험은 FINAL)"
+    ],
+    sql: `ALTER TABLE exams ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'FINAL';`
+  },
+  {
+    version: 7,
+    title: '문제은행',
+    description: '발문·선택지·정답·해설을 갖춘 문항을 저장해 두고 시험을 조립합니다. 같은 문항이 여러 해에 출제되어도 통계가 문항별로 누적됩니다.',
+    changes: [
+      'question_bank 테이블 생성 (발문, 선택지, 정답, 해설, 영역, 출처, 난이도)',
+      '실시간 동기화 설정',
+      '원장·선생님만 조회·등록·수정, 삭제는 원장만'
+    ],
+    sql: `CREATE TABLE IF NOT EXISTS question_bank (
+  id TEXT PRIMARY KEY,
+  stem TEXT NOT NULL,
+  choices JSONB,
+  type TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  point NUMERIC NOT NULL,
+  ignore_case BOOLEAN,
+  allow_partial BOOLEAN,
+  explanation TEXT,
+  tags JSONB,
+  source TEXT,
+  difficulty TEXT,
+  created_at BIGINT,
+  updated_at BIGINT
+);
+${enableRealtime('question_bank')}
+
+ALTER TABLE question_bank ENABLE ROW LEVEL SECURITY;
+${buildAccessPolicySql(['question_bank'])}`
+  },
+  {
+    version: 8,
+    title: 'OMR 수험번호 고정',
+    description: 'OMR 답안지를 인쇄할 때 부여한 수험번호를 시험에 저장해, 인쇄 후 학생 명단이 바뀌어도 판독한 답안이 같은 학생에게 들어가게 합니다.',
+    changes: [
+      'exams에 omr_roster 컬럼 추가 (수험번호 → 학생)'
+    ],
+    sql: `ALTER TABLE exams ADD COLUMN IF NOT EXISTS omr_roster JSONB;`
+  }
+];
+
+// 로그인이 필요해지는 스키마 버전
+export const AUTH_SCHEMA_VERSION = 4;
+
+// 변경 이력을 서버에도 보내는 스키마 버전
+export const AUDIT_SCHEMA_VERSION = 5;
+
+// 문제은행 테이블이 생기는 스키마 버전
+export const BANK_SCHEMA_VERSION = 7;
+
+// 앱의 DB 매퍼가 기대하는 스키마 버전
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+export const getPendingMigrations = (serverVersion: number) =>
+  SCHEMA_MIGRATIONS.filter(m => m.version > serverVersion);
+
+// 대기 중인 마이그레이션을 하나의 트랜잭션 스크립트로 묶음 (실행 후 schema_version에 기록)
+export const buildMigrationScript = (migrations: SchemaMigration[]) => `
+-- 기존 데이터는 유지됩니다. Supabase SQL Editor에서 실행하세요.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS schema_version (
+  version INTEGER PRIMARY KEY,
+  description TEXT,
+  applied_at TIMESTAMPTZ DEFAULT now()
+);
+-- 버전 조회는 로그인 전에도 가능 (기록은 SQL Editor에서만)
+ALTER TABLE schema_version ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow All" ON schema_version;
+DROP POLICY IF EXISTS "Read Version" ON schema_version;
+CREATE POLICY "Read Version" ON schema_version FOR SELECT USING (true);
+${migrations.map(m => `
+-- [${m.version}] ${m.title}
+${m.sql}
+INSERT INTO schema_version (version, description) VALUES (${m.version}, '${m.title}') ON CONFLICT (version) DO NOTHING;`).join('\n')}
+
+COMMIT;
+
+NOTIFY pgrst, 'reload schema';
+`.trim();
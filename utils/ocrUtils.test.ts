@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Student } from '../types.ts';
+import { rankStudentCandidates, FUZZY_MATCH_THRESHOLD } from './importUtils.ts';
+import { buildOcrPreview, getOcrConfidence } from './ocrUtils.ts';
+
+const student = (id: string, name: string, school?: string): Student => ({ id, name, school, createdAt: 0 });
+
+const students = [
+  student('s1', '김민준', '한빛고'),
+  student('s2', '김민주', '누리고'),
+  student('s3', '이서연', '한빛고'),
+  student('s4', '박지호')
+];
+
+describe('rankStudentCandidates', () => {
+  it('puts the exact name first, then the closest spellings', () => {
+    const ranked = rankStudentCandidates('김민준', '', students);
+    expect(ranked[0]).toEqual({ student: students[0], similarity: 1 });
+    expect(ranked[1].student.id).toBe('s2');
+    expect(ranked[1].similarity).toBeCloseTo(2 / 3);
+  });
+
+  it('ignores whitespace when comparing names', () => {
+    expect(rankStudentCandidates('이 서연', '', students)[0]).toEqual({ student: students[2], similarity: 1 });
+  });
+
+  it('breaks near ties in favour of a matching school', () => {
+    const ranked = rankStudentCandidates('김민', '누리고', students);
+    expect(ranked[0].student.id).toBe('s2');
+    expect(ranked[0].similarity).toBeGreaterThan(ranked[1].similarity);
+  });
+
+  it('drops students with no similarity at all', () => {
+    expect(rankStudentCandidates('최', '', students)).toEqual([]);
+  });
+});
+
+describe('buildOcrPreview', () => {
+  it('matches recognised names to the roster and keeps the score', () => {
+    const [row] = buildOcrPreview([{ name: ' 김민준 ', score: 95 }], students);
+    expect(row).toMatchObject({ rowNumber: 1, rawName: '김민준', score: 95, errors: [] });
+    expect(row.match?.student.id).toBe('s1');
+    expect(getOcrConfidence(row)).toBe('HIGH');
+  });
+
+  it('marks a close but inexact name as low confidence', () => {
+    const [row] = buildOcrPreview([{ name: '김민', score: 80 }], students);
+    expect(row.match!.similarity).toBeGreaterThanOrEqual(FUZZY_MATCH_THRESHOLD);
+    expect(getOcrConfidence(row)).toBe('LOW');
+  });
+
+  it('leaves unknown names unmatched but keeps up to five candidates', () => {
+    const many = Array.from({ length: 8 }, (_, i) => student(`m${i}`, `정하${i}`));
+    const [row] = buildOcrPreview([{ name: '정하늘빛', score: 70 }], many);
+    expect(row.match).toBeNull();
+    expect(row.candidates).toHaveLength(5);
+    expect(getOcrConfidence(row)).toBe('NONE');
+  });
+
+  it('flags missing or invalid scores instead of guessing', () => {
+    const rows = buildOcrPreview([
+      { name: '박지호', score: NaN },
+      { name: '이서연', score: -5 },
+      { name: '김민주', score: undefined as unknown as number },
+      { name: '김민준', score: 0 }
+    ], students);
+    expect(rows.map(r => r.score)).toEqual([undefined, undefined, undefined, 0]);
+    expect(rows.map(r => r.errors.length)).toEqual([1, 1, 1, 0]);
+  });
+
+  it('tolerates entries without a name', () => {
+    const [row] = buildOcrPreview([{ name: null as unknown as string, score: 50 }], students);
+    expect(row).toMatchObject({ rawName: '', match: null, candidates: [], score: 50 });
+  });
+});
@@ -0,0 +1,77 @@
+
+import { Student } from "../types.ts";
+import { AnswerPreviewRow, rankStudentCandidates, FUZZY_MATCH_THRESHOLD } from "./importUtils.ts";
+
+export interface OcrScore {
+  name: string;
+  score: number;
+}
+
+export type OcrConfidence = 'HIGH' | 'LOW' | 'NONE';
+
+// 이 유사도 이상이면 확인 없이 믿을 수 있는 매칭으로 표시
+export const OCR_HIGH_CONFIDENCE = 0.9;
+
+const MAX_IMAGE_SIZE = 1600;
+
+export const getOcrConfidence = (row: AnswerPreviewRow): OcrConfidence => {
+  if (!row.match) return 'NONE';
+  return row.match.similarity >= OCR_HIGH_CONFIDENCE ? 'HIGH' : 'LOW';
+};
+
+// Gemini 응답을 답안 가져오기와 같은 미리보기 행 형태로 변환 (점수 전용)
+export const buildOcrPreview = (extracted: OcrScore[], students: Student[]): AnswerPreviewRow[] =>
+  extracted.map((item, idx) => {
+    const rawName = String(item?.name ?? '').trim();
+    const candidates = rawName ? rankStudentCandidates(rawName, '', students).slice(0, 5) : [];
+    const best = candidates[0];
+    const score = Number(item?.score);
+    const isValidScore = item?.score !== null && item?.score !== undefined && !isNaN(score) && score >= 0;
+
+    return {
+      rowNumber: idx + 1,
+      rawName,
+      rawSchool: '',
+      match: best && best.similarity >= FUZZY_MATCH_THRESHOLD ? best : null,
+      candidates,
+      answers: {},
+      score: isValidScore ? score : undefined,
+      errors: isValidScore ? [] : ['점수를 인식하지 못했습니다.']
+    };
+  });
+
+// 이미지/영상 프레임을 축소한 JPEG로 변환 (Gemini에는 data: 접두어를 뺀 base64 전달)
+const drawToJpeg = (source: CanvasImageSource, width: number, height: number) => {
+  const ratio = Math.min(1, MAX_IMAGE_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('이미지를 처리할 수 없습니다.');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
+  return { dataUrl, base64: dataUrl.split(',')[1] };
+};
+
+export const imageFileToJpeg = (file: File): Promise<{ dataUrl: string; base64: string }> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      try {
+        resolve(drawToJpeg(img, img.naturalWidth, img.naturalHeight));
+      } catch (e) {
+        reject(e);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('이미지 파일을 읽지 못했습니다.'));
+    };
+    img.src = url;
+  });
+
+export const captureVideoFrame = (video: HTMLVideoElement) =>
+  drawToJpeg(video, video.videoWidth, video.videoHeight);
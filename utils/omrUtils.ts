@@ -0,0 +1,335 @@
+
+import { Student, QuestionConfig, OmrRosterAssignment } from "../types.ts";
+
+// 답안지 좌표계는 A4 mm 기준. 인쇄 템플릿과 판독기가 같은 레이아웃을 공유함
+export const OMR_PAGE = { width: 210, height: 297 };
+export const OMR_MARKER_SIZE = 6;
+// 기준 표식(모서리 사각형) 중심: 좌상, 우상, 좌하, 우하
+export const OMR_MARKERS: [number, number][] = [[15, 15], [195, 15], [15, 282], [195, 282]];
+export const OMR_CHOICES = ['1', '2', '3', '4', '5'];
+export const OMR_ID_DIGITS = 3;
+export const OMR_MAX_STUDENT_NUMBER = 10 ** OMR_ID_DIGITS - 1;
+export const OMR_BUBBLE_RADIUS = 1.8;
+
+const ID_ORIGIN = { x: 24, y: 72 };
+const ID_COL_GAP = 6.5;
+const BUBBLE_ROW_GAP = 6;
+const ANSWER_COLUMNS_X = [62, 108, 154];
+const ANSWER_ORIGIN_Y = 72;
+const ANSWER_ROW_GAP = 6.8;
+const ANSWER_ROWS_PER_COLUMN = 30;
+const CHOICE_OFFSET_X = 12;
+const CHOICE_GAP = 6.5;
+
+export const OMR_MAX_QUESTIONS = ANSWER_COLUMNS_X.length * ANSWER_ROWS_PER_COLUMN;
+
+// 이 비율 이상 칠해져 있으면 마킹으로 판정
+const FILL_THRESHOLD = 0.45;
+
+export type OmrIssue = 'BLANK' | 'MULTI';
+
+export interface OmrBubble {
+  x: number;
+  y: number;
+}
+
+export interface OmrQuestionRow {
+  number: number;
+  labelX: number;
+  y: number;
+  bubbles: (OmrBubble & { choice: string })[];
+}
+
+export interface OmrLayout {
+  idColumns: (OmrBubble & { digit: number })[][]; // 자릿수별 0~9
+  questionRows: OmrQuestionRow[];
+  answerColumns: { labelX: number; choiceXs: number[] }[]; // 열 머리글 위치
+}
+
+export interface OmrSheetResult {
+  studentNumber: number | null;
+  idIssue?: OmrIssue;
+  answers: Record<number, string>;
+  issues: Record<number, OmrIssue>;
+}
+
+export interface OmrRosterEntry {
+  number: number;
+  student: Student;
+}
+
+const byName = (a: Student, b: Student) => a.name.localeCompare(b.name, 'ko') || a.id.localeCompare(b.id);
+
+/**
+ * 수험번호 부여
+ * - 이미 시험에 저장된 번호는 그대로 두고, 번호가 없는 대상 학생만 이름순으로 다음 번호를 받음
+ * - 학생 추가·삭제·이름 변경이나 대상 반 변경이 있어도 인쇄한 답안지의 번호가 바뀌지 않음
+ */
+export const extendOmrRoster = (saved: OmrRosterAssignment[], students: Student[]): OmrRosterAssignment[] => {
+  const assigned = new Set(saved.map(a => a.studentId));
+  let next = saved.reduce((max, a) => Math.max(max, a.number), 0);
+  const added = students
+    .filter(s => !assigned.has(s.id))
+    .sort(byName)
+    .map(s => ({ number: ++next, studentId: s.id }));
+  return [...saved, ...added];
+};
+
+// 번호표를 학생 정보와 연결 (명단에서 빠진 학생은 제외, 안내표는 이름순)
+export const resolveOmrRoster = (assignments: OmrRosterAssignment[], students: Student[]): OmrRosterEntry[] => {
+  const byId = new Map(students.map(s => [s.id, s]));
+  return assignments
+    .filter(a => byId.has(a.studentId))
+    .map(a => ({ number: a.number, student: byId.get(a.studentId)! }))
+    .sort((a, b) => byName(a.student, b.student));
+};
+
+// 객관식 문항만 마킹란을 만듦 (서술형은 기존처럼 O/X 직접 입력)
+export const getOmrLayout = (questions: QuestionConfig[]): OmrLayout => {
+  const multiple = questions.filter(q => q.type === 'MULTIPLE');
+  if (multiple.length > OMR_MAX_QUESTIONS) {
+    throw new Error(`OMR 답안지는 객관식 ${OMR_MAX_QUESTIONS}문항까지 지원합니다.`);
+  }
+
+  const idColumns = Array.from({ length: OMR_ID_DIGITS }, (_, col) =>
+    Array.from({ length: 10 }, (_, digit) => ({
+      digit,
+      x: ID_ORIGIN.x + col * ID_COL_GAP,
+      y: ID_ORIGIN.y + digit * BUBBLE_ROW_GAP
+    }))
+  );
+
+  const questionRows = multiple.map((q, i) => {
+    const colX = ANSWER_COLUMNS_X[Math.floor(i / ANSWER_ROWS_PER_COLUMN)];
+    const y = ANSWER_ORIGIN_Y + (i % ANSWER_ROWS_PER_COLUMN) * ANSWER_ROW_GAP;
+    return {
+      number: q.number,
+      labelX: colX + 4,
+      y,
+      bubbles: OMR_CHOICES.map((choice, c) => ({ choice, x: colX + CHOICE_OFFSET_X + c * CHOICE_GAP, y }))
+    };
+  });
+
+  const usedColumns = Math.max(1, Math.ceil(multiple.length / ANSWER_ROWS_PER_COLUMN));
+  const answerColumns = ANSWER_COLUMNS_X.slice(0, usedColumns).map(colX => ({
+    labelX: colX + 4,
+    choiceXs: OMR_CHOICES.map((_, c) => colX + CHOICE_OFFSET_X + c * CHOICE_GAP)
+  }));
+  return { idColumns, questionRows, answerColumns };
+};
+
+// --- 이미지 판독 ---
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // 0(검정) ~ 255(흰색)
+}
+
+type Point = [number, number];
+
+export const toGrayImage = (image: { width: number; height: number; data: Uint8ClampedArray }): GrayImage => {
+  const data = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < data.length; i++) {
+    const o = i * 4;
+    data[i] = (image.data[o] * 299 + image.data[o + 1] * 587 + image.data[o + 2] * 114) / 1000;
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+// Otsu 이진화 임계값
+const otsuThreshold = (gray: Uint8Array) => {
+  const hist = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) hist[gray[i]]++;
+  const total = gray.length;
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * hist[t];
+
+  let sumB = 0, weightB = 0, best = 0, threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightB += hist[t];
+    if (weightB === 0) continue;
+    const weightF = total - weightB;
+    if (weightF === 0) break;
+    sumB += t * hist[t];
+    const meanB = sumB / weightB;
+    const meanF = (sumAll - sumB) / weightF;
+    const between = weightB * weightF * (meanB - meanF) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+// 모서리 영역에서 꽉 찬 정사각형 모양의 검은 덩어리를 찾아 중심을 반환
+const findMarker = (img: GrayImage, threshold: number, corner: number): Point | null => {
+  const { width, height, data } = img;
+  const rw = Math.floor(width * 0.4);
+  const rh = Math.floor(height * 0.4);
+  const x0 = corner % 2 === 0 ? 0 : width - rw;
+  const y0 = corner < 2 ? 0 : height - rh;
+  const cornerX = corner % 2 === 0 ? 0 : width;
+  const cornerY = corner < 2 ? 0 : height;
+
+  const minSide = Math.max(4, width * 0.01);
+  const maxSide = width * 0.07;
+  const visited = new Uint8Array(rw * rh);
+  const stack: number[] = [];
+  let best: { point: Point; distance: number } | null = null;
+
+  for (let ly = 0; ly < rh; ly++) {
+    for (let lx = 0; lx < rw; lx++) {
+      const li = ly * rw + lx;
+      if (visited[li] || data[(y0 + ly) * width + x0 + lx] >= threshold) continue;
+
+      let area = 0, sumX = 0, sumY = 0;
+      let minX = lx, maxX = lx, minY = ly, maxY = ly;
+      visited[li] = 1;
+      stack.push(li);
+      while (stack.length > 0) {
+        const cur = stack.pop()!;
+        const cx = cur % rw;
+        const cy = (cur - cx) / rw;
+        area++;
+        sumX += cx;
+        sumY += cy;
+        if (cx < minX) minX = cx;
+        if (cx > maxX) maxX = cx;
+        if (cy < minY) minY = cy;
+        if (cy > maxY) maxY = cy;
+        const neighbors = [cur - 1, cur + 1, cur - rw, cur + rw];
+        for (let n = 0; n < 4; n++) {
+          const ni = neighbors[n];
+          if (ni < 0 || ni >= rw * rh) continue;
+          if ((n === 0 && cx === 0) || (n === 1 && cx === rw - 1)) continue;
+          if (visited[ni]) continue;
+          const nx = ni % rw;
+          const ny = (ni - nx) / rw;
+          if (data[(y0 + ny) * width + x0 + nx] >= threshold) continue;
+          visited[ni] = 1;
+          stack.push(ni);
+        }
+      }
+
+      const bw = maxX - minX + 1;
+      const bh = maxY - minY + 1;
+      const aspect = bw / bh;
+      const fill = area / (bw * bh);
+      if (bw < minSide || bw > maxSide || aspect < 0.6 || aspect > 1.6 || fill < 0.75) continue;
+
+      const point: Point = [x0 + sumX / area, y0 + sumY / area];
+      const distance = Math.hypot(point[0] - cornerX, point[1] - cornerY);
+      if (!best || distance < best.distance) best = { point, distance };
+    }
+  }
+  return best?.point ?? null;
+};
+
+// 4점 대응으로 원근 변환 행렬(템플릿 mm → 이미지 px)을 구함
+const solveHomography = (src: Point[], dst: Point[]): number[] => {
+  const a: number[][] = [];
+  src.forEach(([x, y], i) => {
+    const [u, v] = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    a.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  });
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) throw new Error('기준 표식 위치가 올바르지 않습니다.');
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = a[r][col] / a[col][col];
+      for (let c = col; c < 9; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+};
+
+const project = (h: number[], x: number, y: number): Point => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return [(h[0] * x + h[1] * y + h[2]) / w, (h[3] * x + h[4] * y + h[5]) / w];
+};
+
+// 버블 안쪽(테두리 제외)을 격자로 샘플링해 검은 픽셀 비율을 계산
+const bubbleFillRatio = (img: GrayImage, h: number[], threshold: number, bubble: OmrBubble) => {
+  const r = OMR_BUBBLE_RADIUS * 0.6;
+  const step = r / 3;
+  let dark = 0, total = 0;
+  for (let dy = -r; dy <= r + 1e-9; dy += step) {
+    for (let dx = -r; dx <= r + 1e-9; dx += step) {
+      if (dx * dx + dy * dy > r * r) continue;
+      const [px, py] = project(h, bubble.x + dx, bubble.y + dy);
+      const ix = Math.round(px);
+      const iy = Math.round(py);
+      total++;
+      if (ix < 0 || iy < 0 || ix >= img.width || iy >= img.height) continue;
+      if (img.data[iy * img.width + ix] < threshold) dark++;
+    }
+  }
+  return total > 0 ? dark / total : 0;
+};
+
+const pickMarked = <T>(ratios: { value: T; ratio: number }[]): { value?: T; issue?: OmrIssue } => {
+  const marked = ratios.filter(r => r.ratio >= FILL_THRESHOLD);
+  if (marked.length === 0) return { issue: 'BLANK' };
+  if (marked.length > 1) return { issue: 'MULTI' };
+  return { value: marked[0].value };
+};
+
+export const readOmrSheet = (img: GrayImage, questions: QuestionConfig[]): OmrSheetResult => {
+  const layout = getOmrLayout(questions);
+  const threshold = otsuThreshold(img.data);
+
+  const markers = [0, 1, 2, 3].map(corner => findMarker(img, threshold, corner));
+  if (markers.some(m => m === null)) {
+    throw new Error('기준 표식(모서리 사각형 4개)을 찾지 못했습니다. 답안지 전체가 보이도록 다시 촬영하세요.');
+  }
+  const h = solveHomography(OMR_MARKERS, markers as Point[]);
+
+  const digits = layout.idColumns.map(column =>
+    pickMarked(column.map(b => ({ value: b.digit, ratio: bubbleFillRatio(img, h, threshold, b) })))
+  );
+  const idIssue = digits.find(d => d.issue)?.issue;
+  const studentNumber = idIssue ? null : Number(digits.map(d => d.value).join(''));
+
+  const answers: Record<number, string> = {};
+  const issues: Record<number, OmrIssue> = {};
+  layout.questionRows.forEach(row => {
+    const picked = pickMarked(row.bubbles.map(b => ({ value: b.choice, ratio: bubbleFillRatio(img, h, threshold, b) })));
+    if (picked.issue) issues[row.number] = picked.issue;
+    else answers[row.number] = picked.value!;
+  });
+
+  return { studentNumber, idIssue, answers, issues };
+};
+
+// 스캔/사진 파일을 판독용 회색조 이미지로 변환 (긴 변 기준으로 축소)
+export const loadGrayImage = (file: File, maxSize = 2000): Promise<GrayImage> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const ratio = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.naturalWidth * ratio);
+      canvas.height = Math.round(img.naturalHeight * ratio);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('이미지를 처리할 수 없습니다.'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(toGrayImage(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('이미지 파일을 읽지 못했습니다.'));
+    };
+    img.src = url;
+  });
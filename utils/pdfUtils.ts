@@ -0,0 +1,28 @@
+
+import { jsPDF } from 'jspdf';
+import html2canvas from 'html2canvas';
+
+const A4_WIDTH_MM = 210;
+const A4_HEIGHT_MM = 297;
+
+// DOM 요소를 캡처해 A4 세로 PDF로 변환 (길면 여러 페이지로 분할)
+export const renderElementToPdf = async (element: HTMLElement): Promise<jsPDF> => {
+  const canvas = await html2canvas(element, { scale: 2, backgroundColor: '#ffffff', useCORS: true });
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+
+  const imgHeight = (canvas.height * A4_WIDTH_MM) / canvas.width;
+  const imgData = canvas.toDataURL('image/jpeg', 0.95);
+
+  let offset = 0;
+  while (offset < imgHeight) {
+    if (offset > 0) pdf.addPage();
+    pdf.addImage(imgData, 'JPEG', 0, -offset, A4_WIDTH_MM, imgHeight);
+    offset += A4_HEIGHT_MM;
+  }
+  return pdf;
+};
+
+export const saveElementAsPdf = async (element: HTMLElement, fileName: string) => {
+  const pdf = await renderElementToPdf(element);
+  pdf.save(fileName.replace(/[\\/:*?"<>|]/g, '_'));
+};
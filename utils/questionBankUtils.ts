@@ -0,0 +1,121 @@
+import { BankDifficulty, BankItem, Exam, QuestionConfig } from "../types.ts";
+import { analyzeItems, MIN_ITEM_SAMPLE } from "./itemAnalysisUtils.ts";
+
+export const DIFFICULTY_LABELS: Record<BankDifficulty, string> = {
+  EASY: '하',
+  MEDIUM: '중',
+  HARD: '상'
+};
+
+// 실제 정답률 기준 난이도 구간 (이상이면 해당 난이도)
+const EASY_RATE = 0.8;
+const MEDIUM_RATE = 0.5;
+
+export interface BankItemUsage {
+  examId: string;
+  title: string;
+  date: string;
+  questionNumber: number;
+  respondents: number;
+  difficulty: number;     // 해당 시험의 p값
+  discrimination: number;
+}
+
+export interface BankItemStats {
+  itemId: string;
+  usages: BankItemUsage[]; // 시험 날짜순
+  respondents: number;     // 전체 출제 응시 인원 합
+  difficulty: number;      // 응시 인원 가중 평균 p값
+  discrimination: number;  // 응시 인원 가중 평균 변별도
+}
+
+export interface BankFilter {
+  query: string;
+  tag: string;        // 'all' 또는 영역
+  source: string;     // 'all' 또는 출처
+  difficulty: BankDifficulty | 'all';
+}
+
+/**
+ * 문제은행 문항별 누적 통계
+ * - 문제은행에서 불러온 문항(bankItemId)만 집계, 시험마다 문항 분석 결과를 응시 인원으로 가중 평균
+ * - 정답 미설정·전원 정답 처리된 출제는 문항 분석에서 빠지므로 집계되지 않음
+ */
+export const getBankItemStats = (exams: Exam[]): Map<string, BankItemStats> => {
+  const stats = new Map<string, BankItemStats>();
+  const sortedExams = [...exams].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  sortedExams.forEach(exam => {
+    const linked = new Map((exam.questions || []).filter(q => q.bankItemId).map(q => [q.number, q.bankItemId!]));
+    if (linked.size === 0) return;
+    const analysis = analyzeItems(exam, exam.scores);
+
+    analysis.items.forEach(item => {
+      const itemId = linked.get(item.questionNumber);
+      if (!itemId || item.respondents === 0) return;
+      const acc = stats.get(itemId) || { itemId, usages: [], respondents: 0, difficulty: 0, discrimination: 0 };
+      acc.usages.push({
+        examId: exam.id,
+        title: exam.title,
+        date: exam.date,
+        questionNumber: item.questionNumber,
+        respondents: item.respondents,
+        difficulty: item.difficulty,
+        discrimination: item.discrimination
+      });
+      stats.set(itemId, acc);
+    });
+  });
+
+  stats.forEach(acc => {
+    acc.respondents = acc.usages.reduce((sum, u) => sum + u.respondents, 0);
+    acc.difficulty = acc.usages.reduce((sum, u) => sum + u.difficulty * u.respondents, 0) / acc.respondents;
+    acc.discrimination = acc.usages.reduce((sum, u) => sum + u.discrimination * u.respondents, 0) / acc.respondents;
+  });
+  return stats;
+};
+
+export const difficultyFromRate = (rate: number): BankDifficulty =>
+  rate >= EASY_RATE ? 'EASY' : rate >= MEDIUM_RATE ? 'MEDIUM' : 'HARD';
+
+// 누적 응시 인원이 충분할 때만 실제 정답률로 난이도를 제안
+export const suggestDifficulty = (stats?: BankItemStats): BankDifficulty | null =>
+  stats && stats.respondents >= MIN_ITEM_SAMPLE ? difficultyFromRate(stats.difficulty) : null;
+
+export const bankItemToQuestion = (item: BankItem, number: number): QuestionConfig => ({
+  number,
+  type: item.type,
+  correctAnswer: item.answer,
+  point: item.point,
+  ignoreCase: item.ignoreCase,
+  allowPartial: item.allowPartial,
+  tags: item.tags?.length ? [...item.tags] : undefined,
+  bankItemId: item.id
+});
+
+// 시험에 직접 입력한 문항을 문제은행에 등록 (발문은 나중에 문제은행에서 채움)
+export const questionToBankItem = (question: QuestionConfig, source: string): BankItem => ({
+  id: Math.random().toString(36).substr(2, 9),
+  stem: `${source} ${question.number}번`,
+  type: question.type,
+  answer: question.correctAnswer,
+  point: question.point,
+  ignoreCase: question.ignoreCase,
+  allowPartial: question.allowPartial,
+  tags: question.tags?.length ? [...question.tags] : undefined,
+  source,
+  createdAt: Date.now()
+});
+
+export const collectBankSources = (items: BankItem[]): string[] =>
+  Array.from(new Set(items.map(i => i.source).filter((s): s is string => !!s))).sort((a, b) => a.localeCompare(b, 'ko'));
+
+export const filterBankItems = (items: BankItem[], filter: BankFilter): BankItem[] => {
+  const query = filter.query.trim().toLowerCase();
+  return items.filter(item =>
+    (filter.tag === 'all' || !!item.tags?.includes(filter.tag))
+    && (filter.source === 'all' || item.source === filter.source)
+    && (filter.difficulty === 'all' || item.difficulty === filter.difficulty)
+    && (!query || [item.stem, item.explanation, item.source, ...(item.choices || [])].some(text => text?.toLowerCase().includes(query)))
+  );
+};
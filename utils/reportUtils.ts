@@ -0,0 +1,108 @@
+
+import { Student, Exam, ClassGroup } from "../types.ts";
+import { calculateExamResults, getExamSummary } from "./gradingUtils.ts";
+import { getStudentClasses } from "./classUtils.ts";
+import { formatAnswerKey } from "./scoringUtils.ts";
+
+export interface ReportWrongItem {
+  number: number;
+  studentAnswer: string;
+  correctAnswer: string;
+}
+
+export interface ReportExamRow {
+  examId: string;
+  title: string;
+  date: string;
+  timestamp: number;
+  unit: string;
+  score: number;
+  maxScore: number;
+  average: number;
+  classAverage?: number;
+  rank: number;
+  total: number;
+  percentile: number;
+  grade?: string;
+  isPassed?: boolean;
+  wrongItems: ReportWrongItem[];
+}
+
+export interface StudentReport {
+  student: Student;
+  classNames: string[];
+  rows: ReportExamRow[];
+}
+
+export interface ReportRange {
+  from?: string; // YYYY-MM-DD
+  to?: string;   // YYYY-MM-DD
+}
+
+export const filterExamsByRange = (exams: Exam[], range: ReportRange): Exam[] => {
+  const from = range.from ? new Date(`${range.from}T00:00:00`).getTime() : -Infinity;
+  const to = range.to ? new Date(`${range.to}T23:59:59`).getTime() : Infinity;
+  return exams.filter(e => {
+    const t = new Date(e.date).getTime();
+    return t >= from && t <= to;
+  });
+};
+
+export const buildStudentReport = (
+  student: Student,
+  exams: Exam[],
+  students: Student[],
+  classes: ClassGroup[]
+): StudentReport => {
+  const studentClasses = getStudentClasses(classes, student.id);
+  // 반이 여러 개면 첫 번째 반을 기준으로 반 평균 계산
+  const classMemberIds = studentClasses.length > 0 ? new Set(studentClasses[0].studentIds) : null;
+
+  const rows = exams
+    .map((exam): ReportExamRow | null => {
+      const results = calculateExamResults(exam, students);
+      const res = results.find(r => r.studentId === student.id);
+      if (!res) return null;
+
+      const summary = getExamSummary(results, exam.totalQuestions);
+      const classResults = classMemberIds ? results.filter(r => classMemberIds.has(r.studentId)) : [];
+      const answers = exam.scores.find(s => s.studentId === student.id)?.studentAnswers || {};
+
+      const wrongItems: ReportWrongItem[] = (res.wrongQuestions || []).map(num => {
+        const q = exam.questions?.find(q => q.number === num);
+        return {
+          number: num,
+          studentAnswer: answers[num] || '-',
+          correctAnswer: q ? formatAnswerKey(q) : '-'
+        };
+      });
+
+      return {
+        examId: exam.id,
+        title: exam.title,
+        date: new Date(exam.date).toLocaleDateString(),
+        timestamp: new Date(exam.date).getTime(),
+        unit: exam.type === 'RANKING' ? '점' : '개',
+        score: res.score,
+        maxScore: exam.maxScore,
+        average: Number(summary.average.toFixed(1)),
+        classAverage: classResults.length > 0
+          ? Number((classResults.reduce((acc, r) => acc + r.score, 0) / classResults.length).toFixed(1))
+          : undefined,
+        rank: res.rank,
+        total: results.length,
+        percentile: res.percentile,
+        grade: res.grade,
+        isPassed: res.isPassed,
+        wrongItems
+      };
+    })
+    .filter((row): row is ReportExamRow => row !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    student,
+    classNames: studentClasses.map(c => c.name),
+    rows
+  };
+};
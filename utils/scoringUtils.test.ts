@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { QuestionConfig } from '../types.ts';
+import { gradeQuestion, scoreAnswerSheet, parseAcceptedAnswers } from './scoringUtils.ts';
+
+const multiple = (correctAnswer: string, extra: Partial<QuestionConfig> = {}): QuestionConfig => ({
+  number: 1, type: 'MULTIPLE', correctAnswer, point: 2, ...extra
+});
+
+const subjective = (extra: Partial<QuestionConfig> = {}): QuestionConfig => ({
+  number: 1, type: 'SUBJECTIVE', correctAnswer: '', point: 4, ...extra
+});
+
+describe('parseAcceptedAnswers', () => {
+  it('splits on both , and / and drops empty entries', () => {
+    expect(parseAcceptedAnswers('2, 4')).toEqual(['2', '4']);
+    expect(parseAcceptedAnswers('color/colour')).toEqual(['color', 'colour']);
+    expect(parseAcceptedAnswers('1,/3/ ')).toEqual(['1', '3']);
+  });
+
+  it('keeps escaped separators inside a single answer', () => {
+    expect(parseAcceptedAnswers('and\\/or')).toEqual(['and/or']);
+    expect(parseAcceptedAnswers('1\\/2, 0.5')).toEqual(['1/2', '0.5']);
+    expect(parseAcceptedAnswers('1\\,000/1000')).toEqual(['1,000', '1000']);
+    expect(parseAcceptedAnswers('a\\\\/b')).toEqual(['a\\', 'b']);
+    expect(parseAcceptedAnswers('C:\\dir')).toEqual(['C:\\dir']);
+  });
+});
+
+describe('gradeQuestion', () => {
+  it('accepts any of several answers separated by ,', () => {
+    const q = multiple('2,4');
+    expect(gradeQuestion(q, '2')).toEqual({ earned: 2, isCorrect: true, isGraded: true });
+    expect(gradeQuestion(q, '4').isCorrect).toBe(true);
+    expect(gradeQuestion(q, '3')).toEqual({ earned: 0, isCorrect: false, isGraded: true });
+  });
+
+  it('accepts any of several answers separated by /', () => {
+    const q = multiple('color/colour');
+    expect(gradeQuestion(q, 'color').isCorrect).toBe(true);
+    expect(gradeQuestion(q, ' colour ').isCorrect).toBe(true);
+    expect(gradeQuestion(q, 'colr').isCorrect).toBe(false);
+  });
+
+  it('grades an answer that itself contains / or , when the key escapes it', () => {
+    const q = multiple('and\\/or');
+    expect(gradeQuestion(q, 'and/or').isCorrect).toBe(true);
+    expect(gradeQuestion(q, 'and').isCorrect).toBe(false);
+    expect(gradeQuestion(q, 'or').isCorrect).toBe(false);
+  });
+
+  it('matches case-sensitively unless ignoreCase is set', () => {
+    expect(gradeQuestion(multiple('Apple'), 'apple').isCorrect).toBe(false);
+    const q = multiple('New York/NYC', { ignoreCase: true });
+    expect(gradeQuestion(q, 'new   york').isCorrect).toBe(true);
+    expect(gradeQuestion(q, 'nyc').isCorrect).toBe(true);
+  });
+
+  it('treats a blank answer as wrong and an unset key as ungraded', () => {
+    expect(gradeQuestion(multiple('3'), undefined)).toEqual({ earned: 0, isCorrect: false, isGraded: true });
+    expect(gradeQuestion(multiple(''), '3')).toEqual({ earned: 0, isCorrect: false, isGraded: false });
+  });
+
+  it('gives partial credit on subjective items only when allowed', () => {
+    const partial = subjective({ allowPartial: true });
+    expect(gradeQuestion(partial, '2.5')).toEqual({ earned: 2.5, isCorrect: false, isGraded: true });
+    expect(gradeQuestion(partial, '9').earned).toBe(4);
+    expect(gradeQuestion(partial, '-1').earned).toBe(0);
+    expect(gradeQuestion(partial, 'o')).toEqual({ earned: 4, isCorrect: true, isGraded: true });
+    expect(gradeQuestion(subjective(), '3').earned).toBe(0);
+    expect(gradeQuestion(subjective(), 'X').earned).toBe(0);
+  });
+
+  it('gives full points on voided questions regardless of the answer', () => {
+    expect(gradeQuestion(multiple('3', { isVoided: true }), '1')).toEqual({ earned: 2, isCorrect: true, isGraded: true });
+    expect(gradeQuestion(multiple('', { isVoided: true }), undefined)).toEqual({ earned: 2, isCorrect: true, isGraded: true });
+    expect(gradeQuestion(subjective({ isVoided: true }), '').earned).toBe(4);
+  });
+});
+
+describe('scoreAnswerSheet', () => {
+  const questions: QuestionConfig[] = [
+    { number: 1, type: 'MULTIPLE', correctAnswer: '2,4', point: 2 },
+    { number: 2, type: 'MULTIPLE', correctAnswer: 'color/colour', point: 3, ignoreCase: true },
+    { number: 3, type: 'SUBJECTIVE', correctAnswer: '', point: 5, allowPartial: true },
+    { number: 4, type: 'MULTIPLE', correctAnswer: '1', point: 2, isVoided: true },
+    { number: 5, type: 'MULTIPLE', correctAnswer: '', point: 2 }
+  ];
+
+  it('sums earned points and lists wrong questions', () => {
+    const result = scoreAnswerSheet(questions, { 1: '4', 2: 'COLOUR', 3: '3.3', 4: '5', 5: '1' });
+    expect(result.score).toBe(2 + 3 + 3.3 + 2);
+    // 부분 점수는 오답으로 집계, 정답 미설정 문항은 제외
+    expect(result.wrongQuestions).toEqual([3]);
+  });
+
+  it('counts unanswered graded questions as wrong but still credits voided ones', () => {
+    const result = scoreAnswerSheet(questions, {});
+    expect(result.score).toBe(2);
+    expect(result.wrongQuestions).toEqual([1, 2, 3]);
+  });
+
+  it('rounds away floating point error from partial credit', () => {
+    const partials: QuestionConfig[] = [1, 2, 3].map(number => ({ number, type: 'SUBJECTIVE', correctAnswer: '', point: 1, allowPartial: true }));
+    expect(scoreAnswerSheet(partials, { 1: '0.1', 2: '0.2', 3: '0.4' }).score).toBe(0.7);
+  });
+});
@@ -0,0 +1,87 @@
+
+import { QuestionConfig } from "../types.ts";
+
+export interface QuestionGrade {
+  earned: number;
+  isCorrect: boolean; // 만점 여부 (부분 점수는 오답으로 집계)
+  isGraded: boolean;  // 정답이 설정되지 않은 객관식은 채점에서 제외
+}
+
+export interface AnswerSheetScore {
+  score: number;
+  wrongQuestions: number[];
+}
+
+// 소수점 부분 점수 합산 시 부동소수 오차 제거
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+// 복수 정답은 ',' 또는 '/'로 구분. 답 자체에 구분자가 들어가면 '\'로 이스케이프 (예: "and\/or", "1\/2")
+export const parseAcceptedAnswers = (correctAnswer: string): string[] => {
+  const answers: string[] = [];
+  let current = '';
+  for (let i = 0; i < correctAnswer.length; i++) {
+    const ch = correctAnswer[i];
+    const next = correctAnswer[i + 1];
+    if (ch === '\\' && next !== undefined && ',/\\'.includes(next)) {
+      current += next;
+      i++;
+    } else if (ch === ',' || ch === '/') {
+      answers.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  answers.push(current);
+  return answers.map(a => a.trim()).filter(Boolean);
+};
+
+export const normalizeAnswer = (value: string, ignoreCase?: boolean) => {
+  const trimmed = value.trim();
+  return ignoreCase ? trimmed.replace(/\s+/g, ' ').toLowerCase() : trimmed;
+};
+
+// 서술형 답안: 'O' = 만점, 'X' = 0점, 숫자 = 부분 점수 (allowPartial일 때만)
+export const parseSubjectiveScore = (question: QuestionConfig, value: string): number => {
+  const trimmed = value.trim().toUpperCase();
+  if (trimmed === 'O') return question.point;
+  if (!question.allowPartial || trimmed === '' || isNaN(Number(trimmed))) return 0;
+  return Math.min(question.point, Math.max(0, Number(trimmed)));
+};
+
+export const gradeQuestion = (question: QuestionConfig, rawAnswer: string | undefined): QuestionGrade => {
+  if (question.isVoided) {
+    return { earned: question.point, isCorrect: true, isGraded: true };
+  }
+
+  const answer = rawAnswer || '';
+  if (question.type === 'SUBJECTIVE') {
+    const earned = parseSubjectiveScore(question, answer);
+    return { earned, isCorrect: earned >= question.point, isGraded: true };
+  }
+
+  const accepted = parseAcceptedAnswers(question.correctAnswer);
+  if (accepted.length === 0) {
+    return { earned: 0, isCorrect: false, isGraded: false };
+  }
+  const normalized = normalizeAnswer(answer, question.ignoreCase);
+  const isCorrect = normalized !== '' && accepted.some(a => normalizeAnswer(a, question.ignoreCase) === normalized);
+  return { earned: isCorrect ? question.point : 0, isCorrect, isGraded: true };
+};
+
+export const scoreAnswerSheet = (questions: QuestionConfig[], answers: Record<number, string>): AnswerSheetScore => {
+  let score = 0;
+  const wrongQuestions: number[] = [];
+  questions.forEach(q => {
+    const grade = gradeQuestion(q, answers[q.number]);
+    score += grade.earned;
+    if (grade.isGraded && !grade.isCorrect) wrongQuestions.push(q.number);
+  });
+  return { score: roundScore(score), wrongQuestions };
+};
+
+export const formatAnswerKey = (question: QuestionConfig) => {
+  if (question.isVoided) return '전원 정답';
+  if (question.type === 'SUBJECTIVE') return question.allowPartial ? `서술형 (0~${question.point}점)` : '서술형';
+  return parseAcceptedAnswers(question.correctAnswer).join(', ') || '정답 미설정';
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Exam, QuestionConfig, ScoreEntry } from '../types.ts';
+import { describeScores, getReliability } from './statsUtils.ts';
+
+const exam = (questions: QuestionConfig[]): Exam =>
+  ({ id: 'e1', title: '신뢰도', date: '2026-03-01', type: 'RANKING', totalQuestions: questions.length, maxScore: 10, questions, scores: [] });
+
+const sheet = (studentId: string, answers: string[]): ScoreEntry =>
+  ({ studentId, score: 0, wrongQuestions: [], studentAnswers: Object.fromEntries(answers.map((a, i) => [i + 1, a])) });
+
+describe('describeScores', () => {
+  // 평균 5, 모집단 표준편차 2 (표본 표준편차는 √(32/7) ≈ 2.14)
+  const values = [9, 2, 5, 4, 4, 7, 4, 5];
+
+  it('uses the population standard deviation', () => {
+    const stats = describeScores(values);
+    expect(stats).toMatchObject({ count: 8, mean: 5, min: 2, max: 9 });
+    expect(stats.standardDeviation).toBe(2);
+  });
+
+  it('interpolates quartiles like QUARTILE.INC', () => {
+    // 위치 (n-1)p: 1.75 → 4, 3.5 → 4.5, 5.25 → 5 + 0.25 × (7 - 5)
+    expect(describeScores(values)).toMatchObject({ q1: 4, median: 4.5, q3: 5.5 });
+    expect(describeScores([1, 2, 3, 4])).toMatchObject({ q1: 1.75, median: 2.5, q3: 3.25 });
+  });
+
+  it('computes the population skewness', () => {
+    // z = [-1.5, -0.5 ×3, 0 ×2, 1, 2] → Σz³ / n = 5.25 / 8
+    expect(describeScores(values).skewness).toBeCloseTo(0.65625, 10);
+    expect(describeScores([3, 3, 3]).skewness).toBe(0);
+  });
+
+  it('returns zeros for an empty list', () => {
+    expect(describeScores([])).toMatchObject({ count: 0, mean: 0, standardDeviation: 0 });
+  });
+});
+
+describe('getReliability', () => {
+  it('computes KR-20 and SEM for right/wrong items', () => {
+    const keyed = exam([
+      { number: 1, type: 'MULTIPLE', correctAnswer: '1', point: 1 },
+      { number: 2, type: 'MULTIPLE', correctAnswer: '2', point: 1 },
+      { number: 3, type: 'MULTIPLE', correctAnswer: '3', point: 1 }
+    ]);
+    const sheets = [
+      sheet('s1', ['1', '2', '3']),
+      sheet('s2', ['1', '2', '4']),
+      sheet('s3', ['1', '5', '4']),
+      sheet('s4', ['5', '5', '5'])
+    ];
+    // 문항 분산 0.1875 + 0.25 + 0.1875 = 0.625, 총점 [3,2,1,0] 분산 1.25
+    // KR-20 = 3/2 × (1 - 0.625 / 1.25) = 0.75, SEM = √1.25 × √0.25
+    const result = getReliability(keyed, sheets)!;
+    expect(result).toMatchObject({ method: 'KR20', itemCount: 3, respondents: 4 });
+    expect(result.coefficient).toBeCloseTo(0.75, 10);
+    expect(result.sem).toBeCloseTo(Math.sqrt(1.25) * 0.5, 10);
+  });
+
+  it("uses Cronbach's alpha when partial credit is allowed", () => {
+    const mixed = exam([
+      { number: 1, type: 'MULTIPLE', correctAnswer: '1', point: 1 },
+      { number: 2, type: 'SUBJECTIVE', correctAnswer: '', point: 2, allowPartial: true }
+    ]);
+    const sheets = [sheet('s1', ['1', '2']), sheet('s2', ['1', '1']), sheet('s3', ['2', '1']), sheet('s4', ['2', '0'])];
+    // 문항 분산 0.25 + 0.5, 총점 [3,2,1,0] 분산 1.25 → α = 2 × (1 - 0.75 / 1.25) = 0.8
+    const result = getReliability(mixed, sheets)!;
+    expect(result.method).toBe('ALPHA');
+    expect(result.coefficient).toBeCloseTo(0.8, 10);
+  });
+
+  it('caps SEM at the score SD when the coefficient is negative', () => {
+    const keyed = exam([
+      { number: 1, type: 'MULTIPLE', correctAnswer: '1', point: 1 },
+      { number: 2, type: 'MULTIPLE', correctAnswer: '1', point: 1 }
+    ]);
+    // 두 문항이 정반대 → 총점 [1,1,1,2] 분산 0.1875, α < 0
+    const sheets = [sheet('s1', ['1', '2']), sheet('s2', ['2', '1']), sheet('s3', ['1', '2']), sheet('s4', ['1', '1'])];
+    const result = getReliability(keyed, sheets)!;
+    expect(result.coefficient).toBeLessThan(0);
+    expect(result.sem).toBeCloseTo(Math.sqrt(0.1875), 10);
+  });
+
+  it('returns null when totals do not vary or too few items or students', () => {
+    const keyed = exam([
+      { number: 1, type: 'MULTIPLE', correctAnswer: '1', point: 1 },
+      { number: 2, type: 'MULTIPLE', correctAnswer: '2', point: 1 }
+    ]);
+    expect(getReliability(keyed, [sheet('s1', ['1', '2']), sheet('s2', ['1', '2'])])).toBeNull();
+    expect(getReliability(keyed, [sheet('s1', ['1', '2'])])).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { Exam, ScoreEntry } from "../types.ts";
+import { gradeQuestion } from "./scoringUtils.ts";
+
+export interface DescriptiveStats {
+  count: number;
+  mean: number;
+  median: number;
+  standardDeviation: number; // 모집단 표준편차 (응시자 전체가 대상)
+  q1: number;
+  q3: number;
+  min: number;
+  max: number;
+  skewness: number; // 0보다 크면 저득점 쪽에 몰리고 고득점 꼬리가 김
+}
+
+export type ReliabilityMethod = 'KR20' | 'ALPHA';
+
+export interface ReliabilityStats {
+  method: ReliabilityMethod; // 모든 문항이 맞음/틀림이면 KR-20, 부분 점수가 있으면 Cronbach α
+  coefficient: number;
+  sem: number; // 측정의 표준오차 (점수 단위)
+  itemCount: number;
+  respondents: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  mid: number;
+  label: string;
+  count: number;
+}
+
+export const RELIABILITY_METHOD_LABELS: Record<ReliabilityMethod, string> = {
+  KR20: 'KR-20',
+  ALPHA: "Cronbach's α"
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return mean(values.map(v => (v - m) ** 2));
+};
+
+// 정렬된 값의 분위수 (선형 보간, 엑셀 QUARTILE.INC와 동일)
+const quantile = (sorted: number[], ratio: number) => {
+  const pos = (sorted.length - 1) * ratio;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+export const describeScores = (values: number[]): DescriptiveStats => {
+  if (values.length === 0) {
+    return { count: 0, mean: 0, median: 0, standardDeviation: 0, q1: 0, q3: 0, min: 0, max: 0, skewness: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const m = mean(sorted);
+  const sd = Math.sqrt(variance(sorted));
+  const skewness = sd > 0 ? mean(sorted.map(v => ((v - m) / sd) ** 3)) : 0;
+  return {
+    count: sorted.length,
+    mean: m,
+    median: quantile(sorted, 0.5),
+    standardDeviation: sd,
+    q1: quantile(sorted, 0.25),
+    q3: quantile(sorted, 0.75),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    skewness
+  };
+};
+
+/**
+ * 내적 일관성 신뢰도
+ * - 답안이 기록된 성적과 채점 대상 문항만 사용 (전원 정답·정답 미설정 문항 제외)
+ * - 문항 2개 이상, 응시 2명 이상이고 총점이 모두 같지 않을 때만 계산
+ */
+export const getReliability = (exam: Exam, scores: ScoreEntry[]): ReliabilityStats | null => {
+  const questions = (exam.questions || []).filter(q => !q.isVoided && gradeQuestion(q, '').isGraded);
+  const entries = scores.filter(s => s.studentAnswers);
+  if (questions.length < 2 || entries.length < 2) return null;
+
+  const itemScores = questions.map(q => entries.map(e => gradeQuestion(q, e.studentAnswers![q.number]).earned));
+  const totals = entries.map((_, i) => itemScores.reduce((sum, item) => sum + item[i], 0));
+  const totalVariance = variance(totals);
+  if (totalVariance === 0) return null;
+
+  const k = questions.length;
+  const itemVarianceSum = itemScores.reduce((sum, item) => sum + variance(item), 0);
+  const coefficient = (k / (k - 1)) * (1 - itemVarianceSum / totalVariance);
+  const isDichotomous = questions.every(q => q.type === 'MULTIPLE' || !q.allowPartial);
+
+  return {
+    method: isDichotomous ? 'KR20' : 'ALPHA',
+    coefficient,
+    // 신뢰도가 음수면 측정오차가 전체 편차와 같다고 봄
+    sem: Math.sqrt(totalVariance) * Math.sqrt(1 - Math.min(1, Math.max(0, coefficient))),
+    itemCount: k,
+    respondents: entries.length
+  };
+};
+
+// 만점이 작으면 1점 단위, 크면 10구간으로 나눔 (마지막 구간은 만점 포함)
+export const buildScoreHistogram = (values: number[], maxScore: number): HistogramBin[] => {
+  const top = Math.max(maxScore, ...values, 1);
+  const width = top <= 20 ? 1 : Math.ceil(top / 10);
+  const binCount = Math.floor(top / width) + (top % width === 0 && width > 1 ? 0 : 1);
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => {
+    const start = i * width;
+    const end = Math.min(top, start + width);
+    return {
+      start,
+      end,
+      mid: width === 1 ? start : (start + end) / 2,
+      label: width === 1 ? `${start}` : `${start}~${end}`,
+      count: 0
+    };
+  });
+  values.forEach(v => {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(v / width)));
+    bins[index].count++;
+  });
+  return bins;
+};
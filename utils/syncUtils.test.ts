@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { ScoreEntry } from '../types.ts';
+import { applyScoreEdits, diffScores } from './syncUtils.ts';
+
+const entry = (studentId: string, score: number): ScoreEntry => ({ studentId, score, wrongQuestions: [] });
+
+describe('applyScoreEdits', () => {
+  // 폼을 연 시점: a, b, c
+  const base = [entry('a', 80), entry('b', 70), entry('c', 60)];
+
+  it('keeps rows another teacher changed or added after the form opened', () => {
+    // 그 사이 실시간으로 b가 수정되고 d가 추가됨
+    const current = [entry('a', 80), entry('b', 95), entry('c', 60), entry('d', 50)];
+    // 이 화면에서는 a만 수정 (b, d는 열 때 상태 그대로)
+    const edited = [entry('a', 85), entry('b', 70), entry('c', 60)];
+
+    const scores = applyScoreEdits(current, base, edited);
+    expect(scores).toEqual([entry('a', 85), entry('b', 95), entry('c', 60), entry('d', 50)]);
+    expect(diffScores(current, scores)).toEqual({ upserts: [entry('a', 85)], deletedStudentIds: [] });
+  });
+
+  it('deletes only the rows the form removed and adds the rows it created', () => {
+    const current = [...base, entry('d', 50)];
+    const edited = [entry('a', 80), entry('b', 70), entry('e', 40)];
+
+    const scores = applyScoreEdits(current, base, edited);
+    expect(diffScores(current, scores)).toEqual({ upserts: [entry('e', 40)], deletedStudentIds: ['c'] });
+  });
+
+  it('sends nothing when the form has no edits', () => {
+    const current = [entry('a', 80), entry('b', 95)];
+    expect(applyScoreEdits(current, base, base)).toEqual([entry('a', 80), entry('b', 95)]);
+  });
+});
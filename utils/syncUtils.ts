@@ -0,0 +1,60 @@
+
+import { Exam, ScoreEntry } from "../types.ts";
+
+export interface ScoreDiff {
+  upserts: ScoreEntry[];
+  deletedStudentIds: string[];
+}
+
+const sameEntry = (a: ScoreEntry, b: ScoreEntry) => JSON.stringify(a) === JSON.stringify(b);
+
+// 이전/이후 성적을 비교해 바뀐 행만 골라냄 (다른 학생 행은 건드리지 않음)
+export const diffScores = (prev: ScoreEntry[], next: ScoreEntry[]): ScoreDiff => {
+  const prevMap = new Map(prev.map(s => [s.studentId, s]));
+  const nextIds = new Set(next.map(s => s.studentId));
+  return {
+    upserts: next.filter(s => {
+      const before = prevMap.get(s.studentId);
+      return !before || !sameEntry(before, s);
+    }),
+    deletedStudentIds: prev.filter(s => !nextIds.has(s.studentId)).map(s => s.studentId)
+  };
+};
+
+// 입력 화면을 연 시점의 성적(base) 대비 화면에서 바꾼 행만 최신 성적에 반영
+// 그 사이 다른 선생님이 입력한 행은 그대로 두고, 화면에서 지운 행만 삭제
+export const applyScoreEdits = (current: ScoreEntry[], base: ScoreEntry[], edited: ScoreEntry[]): ScoreEntry[] => {
+  const { upserts, deletedStudentIds } = diffScores(base, edited);
+  const upsertMap = new Map(upserts.map(s => [s.studentId, s]));
+  const deleted = new Set(deletedStudentIds);
+  const currentIds = new Set(current.map(s => s.studentId));
+  return [
+    ...current.filter(s => !deleted.has(s.studentId)).map(s => upsertMap.get(s.studentId) || s),
+    ...upserts.filter(s => !currentIds.has(s.studentId))
+  ];
+};
+
+// 실시간 이벤트로 들어온 성적 한 행을 해당 시험에 반영
+export const upsertScoreInExams = (exams: Exam[], examId: string, entry: ScoreEntry): Exam[] =>
+  exams.map(e => {
+    if (e.id !== examId) return e;
+    const idx = e.scores.findIndex(s => s.studentId === entry.studentId);
+    if (idx > -1 && sameEntry(e.scores[idx], entry)) return e;
+    const scores = idx > -1
+      ? e.scores.map((s, i) => i === idx ? entry : s)
+      : [...e.scores, entry];
+    return { ...e, scores };
+  });
+
+export const removeScoreFromExams = (exams: Exam[], examId: string, studentId: string): Exam[] =>
+  exams.map(e => e.id === examId ? { ...e, scores: e.scores.filter(s => s.studentId !== studentId) } : e);
+
+export const groupScoreRows = <T extends { exam_id: string }>(rows: T[]): Map<string, T[]> => {
+  const grouped = new Map<string, T[]>();
+  rows.forEach(row => {
+    const list = grouped.get(row.exam_id);
+    if (list) list.push(row);
+    else grouped.set(row.exam_id, [row]);
+  });
+  return grouped;
+};